@@ -1,24 +1,43 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
-  Plus, Search, ChevronRight, Sun, Moon, Brain, Globe, Box, Activity, Trash2, FolderSync
+  Plus, Search, ChevronRight, Sun, Moon, Brain, Globe, Box, Activity, Trash2, FolderSync, Archive, ArchiveRestore, FolderInput, Tag, Pencil, GitMerge, Palette, Network, Share2, AlertTriangle, X
 } from 'lucide-react';
-import { Note, Commit, GlobalIntelligence } from './types';
-import { getAllNotesFromDB, saveNoteToDB, deleteNoteFromDB } from './services/db';
+import { Note, Commit, GlobalIntelligence, CollisionStrategy, SearchResult } from './types';
+import { getAllNotesFromDB, saveNoteToDB, deleteNoteFromDB, migrateLegacyAssets, collectAssetGarbage } from './services/db';
 import { mlEngine } from './services/mlEngine';
+import { exportVault, readVaultArchive, restoreVault, VaultArchive } from './services/vaultArchive';
+import { importMarkdownFiles } from './services/markdown';
+import { searchIndex } from './services/searchIndex';
+import { countTags, renameTagInVault, normalizeTag } from './services/tags';
+import { findNoteByTitle, renameLinksInVault } from './services/knowledgeGraph';
+import { importGraphFile } from './services/graphIO';
 import Editor from './components/Editor';
 import MLDashboard from './components/MLDashboard';
 import NodeGraph from './components/NodeGraph';
 import ChatBot from './components/ChatBot';
+import BranchManager from './components/BranchManager';
+import TaxonomySettings from './components/TaxonomySettings';
+import VaultGraph from './components/VaultGraph';
 
 const App: React.FC = () => {
   const [notes, setNotes] = useState<Note[]>([]);
   const [activeNoteId, setActiveNoteId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
   const [showMLStats, setShowMLStats] = useState(false);
-  const [viewMode, setViewMode] = useState<'text' | 'graph'>('text');
+  const [showBranches, setShowBranches] = useState(false);
+  const [showTaxonomy, setShowTaxonomy] = useState(false);
+  const [viewMode, setViewMode] = useState<'text' | 'graph' | 'vault'>('text');
+  const [graphFocus, setGraphFocus] = useState<{ noteId: string; nodeId: string } | null>(null);
+  const [commitFocus, setCommitFocus] = useState<{ noteId: string; commitId: string } | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [globalIntel, setGlobalIntel] = useState<GlobalIntelligence | null>(null);
+  const [backgroundError, setBackgroundError] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ archive: VaultArchive; collisions: number } | null>(null);
+  const vaultInputRef = useRef<HTMLInputElement>(null);
+  const markdownInputRef = useRef<HTMLInputElement>(null);
+  const graphInputRef = useRef<HTMLInputElement>(null);
   const [isDarkMode, setIsDarkMode] = useState(() => window.matchMedia('(prefers-color-scheme: dark)').matches);
 
   useEffect(() => { document.documentElement.classList.toggle('dark', isDarkMode); }, [isDarkMode]);
@@ -41,7 +60,7 @@ const App: React.FC = () => {
       const note: Note = {
         id: nid, title: t.title, activeBranch: 'main', tags: [], createdAt: Date.now(), updatedAt: Date.now(),
         type: 'text', clusters, config: { preferredModel: 'lstm-neural', recommendedModel: 'lstm-neural', is3D: false },
-        branches: { 'main': { name: 'main', head: cid, commits: [{ id: cid, timestamp: Date.now(), content: t.content, author: 'System', message: 'Cognitive Seed', parentId: null, assets: [], analysis, autoMap: mlEngine.generateHierarchicalMap(t.content) }] } }
+        branches: { 'main': { name: 'main', head: cid, commits: [{ id: cid, timestamp: Date.now(), content: t.content, author: 'System', message: 'Cognitive Seed', parentId: null, assets: [], analysis, autoMap: mlEngine.generateHierarchicalMap(t.content, [], analysis.spans) }] } }
       };
       await saveNoteToDB(note);
       seeded.push(note);
@@ -51,10 +70,17 @@ const App: React.FC = () => {
 
   useEffect(() => {
     const load = async () => {
+      await mlEngine.loadTaxonomy();
+      await mlEngine.loadUsageStats();
       let stored = await getAllNotesFromDB();
       if (!stored || stored.length === 0) {
         stored = await seedNotes();
+      } else {
+        stored = await migrateLegacyAssets(stored);
       }
+      searchIndex.build(stored);
+      mlEngine.setTrainingData(stored);
+      await mlEngine.loadFeedback();
       setNotes(stored);
       setGlobalIntel(await mlEngine.analyzeVault(stored));
       setActiveNoteId(stored[0]?.id);
@@ -62,14 +88,45 @@ const App: React.FC = () => {
     load();
   }, []);
 
-  const handleAddNote = () => {
+  // Emotion corrections are folded into the trained models in the background, one run at a time and only while
+  // the browser is idle so retraining waits for a pause in typing.
+  const notesRef = useRef<Note[]>([]);
+  notesRef.current = notes;
+  useEffect(() => {
+    let busy = false;
+    let stopped = false;
+    const whenIdle = (run: () => void) =>
+      'requestIdleCallback' in window ? window.requestIdleCallback(run, { timeout: 30 * 1000 }) : setTimeout(run, 0);
+    const timer = setInterval(() => {
+      if (busy) return;
+      busy = true;
+      whenIdle(() => {
+        if (stopped) return;
+        Promise.resolve()
+          .then(() => {
+            mlEngine.setTrainingData(notesRef.current);
+            return mlEngine.fineTuneIfDue();
+          })
+          .catch(err => setBackgroundError(`Background fine-tuning failed: ${(err as Error).message}`))
+          .finally(() => { busy = false; });
+      });
+    }, 60 * 1000);
+    return () => { stopped = true; clearInterval(timer); };
+  }, []);
+
+  const handleAddNote = (type: Note['type'] = 'text') => {
     const id = crypto.randomUUID();
     const cid = crypto.randomUUID();
+    // A mind map starts from an editable central node instead of text.
+    const autoMap = type === 'mindmap'
+      ? [{ id: 'root', label: 'Central Idea', type: 'group' as const, emotion: 'Genesis', color: '#8b5cf6', x: 0, y: 0, z: 0, manual: { label: true } }]
+      : undefined;
     const newNote: Note = {
-      id, title: 'Fresh Thought Stream', activeBranch: 'main', tags: [], clusters: [], createdAt: Date.now(), updatedAt: Date.now(), type: 'text',
+      id, title: type === 'mindmap' ? 'Fresh Mind Map' : 'Fresh Thought Stream', activeBranch: 'main', tags: [], clusters: [], createdAt: Date.now(), updatedAt: Date.now(), type,
       config: { preferredModel: 'lstm-neural', recommendedModel: 'lstm-neural', is3D: false },
-      branches: { 'main': { name: 'main', head: cid, commits: [{ id: cid, timestamp: Date.now(), content: '', author: 'User', message: 'Origin', parentId: null, assets: [] }] } }
+      branches: { 'main': { name: 'main', head: cid, commits: [{ id: cid, timestamp: Date.now(), content: '', author: 'User', message: 'Origin', parentId: null, assets: [], autoMap }] } }
     };
+    searchIndex.upsert(newNote);
     setNotes([newNote, ...notes]);
     setActiveNoteId(id);
     saveNoteToDB(newNote);
@@ -79,18 +136,151 @@ const App: React.FC = () => {
     e.stopPropagation();
     if (!confirm('Purge this neural stream?')) return;
     await deleteNoteFromDB(id);
+    await collectAssetGarbage();
+    searchIndex.remove(id);
     const updated = notes.filter(n => n.id !== id);
     setNotes(updated);
     if (activeNoteId === id) setActiveNoteId(updated[0]?.id || null);
     setGlobalIntel(await mlEngine.analyzeVault(updated));
   };
 
+  const handleExportVault = async () => {
+    const blob = await exportVault(notes);
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `MemoryLane_Vault_${new Date().toISOString().slice(0, 10)}.zip`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const applyImport = async (archive: VaultArchive, strategy: CollisionStrategy) => {
+    setPendingImport(null);
+    const result = await restoreVault(archive, notes, strategy);
+    result.imported.forEach(n => searchIndex.upsert(n));
+    const restoredIds = new Set(result.imported.map(n => n.id));
+    const updated = [...result.imported, ...notes.filter(n => !restoredIds.has(n.id))];
+    setNotes(updated);
+    setGlobalIntel(await mlEngine.analyzeVault(updated));
+    let summary = `Restored ${result.imported.length} stream(s).`;
+    if (result.skipped.length > 0) summary += ` Skipped ${result.skipped.length} existing.`;
+    if (result.missingAssets.length > 0) summary += ` ${result.missingAssets.length} asset(s) could not be restored.`;
+    alert(summary);
+  };
+
+  const handleImportVault = async (file: File) => {
+    try {
+      const archive = await readVaultArchive(file);
+      const existingIds = new Set(notes.map(n => n.id));
+      const collisions = archive.notes.filter(n => existingIds.has(n.id)).length;
+      if (collisions > 0) setPendingImport({ archive, collisions });
+      else await applyImport(archive, 'skip');
+    } catch (err) {
+      alert(`Vault import failed: ${(err as Error).message}`);
+    }
+  };
+
+  const handleImportMarkdown = async (files: File[]) => {
+    const imported = await importMarkdownFiles(files);
+    if (imported.length === 0) {
+      alert('No Markdown files found in that folder.');
+      return;
+    }
+    for (const n of imported) {
+      await saveNoteToDB(n);
+      searchIndex.upsert(n);
+    }
+    collectAssetGarbage().catch(err => console.error(err));
+    const updated = [...imported, ...notes];
+    setNotes(updated);
+    setActiveNoteId(imported[0].id);
+    setGlobalIntel(await mlEngine.analyzeVault(updated));
+  };
+
+  const handleImportGraph = async (file: File) => {
+    try {
+      const note = await importGraphFile(file);
+      await saveNoteToDB(note);
+      searchIndex.upsert(note);
+      setNotes([note, ...notes]);
+      setActiveNoteId(note.id);
+    } catch (err) {
+      alert(`Map import failed: ${(err as Error).message}`);
+    }
+  };
+
+  const handleCreateNote = async (note: Note) => {
+    searchIndex.upsert(note);
+    const updated = [note, ...notes];
+    setNotes(updated);
+    await saveNoteToDB(note);
+    setGlobalIntel(await mlEngine.analyzeVault(updated));
+  };
+
+  const handleRenameTagInVault = async (from: string, merge: boolean) => {
+    const input = prompt(merge ? `Merge #${from} into which tag?` : `Rename #${from} across the vault to:`, merge ? '' : from);
+    const to = input ? normalizeTag(input) : '';
+    if (!to || to === from) return;
+    const changed = renameTagInVault(notes, [from], to);
+    for (const n of changed) {
+      await saveNoteToDB(n);
+      searchIndex.upsert(n);
+    }
+    const byId = new Map<string, Note>(changed.map(n => [n.id, n]));
+    setNotes(notes.map(n => byId.get(n.id) || n));
+    if (activeTag === from) setActiveTag(to);
+  };
+
+  // Links elsewhere in the vault follow the new title.
+  const handleRenameNote = async (note: Note) => {
+    const title = prompt('Rename stream to:', note.title)?.trim();
+    if (!title || title === note.title) return;
+    const clash = findNoteByTitle(notes, title);
+    if (clash && clash.id !== note.id) {
+      alert(`A stream called "${clash.title}" already exists.`);
+      return;
+    }
+    const renamed = notes.map(n => n.id === note.id ? { ...n, title, updatedAt: Date.now() } : n);
+    const byId = new Map<string, Note>(renamed.filter(n => n.id === note.id).map(n => [n.id, n]));
+    renameLinksInVault(renamed, note.title, title).forEach(n => byId.set(n.id, n));
+    for (const n of byId.values()) {
+      await saveNoteToDB(n);
+      searchIndex.upsert(n);
+    }
+    setNotes(notes.map(n => byId.get(n.id) || n));
+  };
+
+  const tagCounts = useMemo(() => countTags(notes), [notes]);
+
   const activeNote = useMemo(() => notes.find(n => n.id === activeNoteId), [notes, activeNoteId]);
 
+  // Mind maps open straight into the editable graph.
+  useEffect(() => {
+    if (activeNote?.type === 'mindmap') setViewMode('graph');
+  }, [activeNoteId]);
+
+  const visibleNotes = useMemo((): { note: Note; match?: SearchResult }[] => {
+    const tagged = activeTag ? notes.filter(n => n.tags.includes(activeTag)) : notes;
+    if (!searchQuery.trim()) return tagged.map(note => ({ note }));
+    const byId = new Map<string, Note>(tagged.map(n => [n.id, n]));
+    return searchIndex.search(searchQuery)
+      .filter(r => byId.has(r.noteId))
+      .map(match => ({ note: byId.get(match.noteId)!, match }));
+  }, [notes, searchQuery, activeTag]);
+
+  // Node drags only change positions, so the search index and vault statistics stay as they are.
+  const handleMoveNodes = (n: Note) => {
+    setNotes(prev => prev.map(x => x.id === n.id ? n : x));
+    saveNoteToDB(n).catch(err => setBackgroundError(`Could not save the map layout: ${(err as Error).message}`));
+  };
+
   const handleUpdate = async (n: Note) => {
+    searchIndex.upsert(n);
     const updated = notes.map(x => x.id === n.id ? n : x);
     setNotes(updated);
     await saveNoteToDB(n);
+    // Dropped branches or commits can leave blobs unreferenced; collection waits for any writes still queued.
+    collectAssetGarbage().catch(err => console.error(err));
     const intel = await mlEngine.analyzeVault(updated);
     setGlobalIntel(intel);
   };
@@ -103,7 +293,10 @@ const App: React.FC = () => {
              <div className="p-3 bg-brand-600 rounded-2xl shadow-lg shadow-brand-500/20"><Brain className="text-white" size={24} /></div>
              <span className="font-black text-xl tracking-tight uppercase tracking-[0.1em]">MemoryLane</span>
           </div>
-          <button onClick={handleAddNote} className="p-3 bg-brand-600 hover:bg-brand-700 rounded-2xl text-white shadow-xl transition-all active:scale-90"><Plus size={22} /></button>
+          <div className="flex gap-2">
+            <button onClick={() => handleAddNote('mindmap')} className="p-3 bg-white dark:bg-slate-800 border dark:border-slate-700 rounded-2xl text-slate-500 hover:text-brand-500 shadow-xl transition-all active:scale-90" title="New Mind Map"><Network size={22} /></button>
+            <button onClick={() => handleAddNote()} className="p-3 bg-brand-600 hover:bg-brand-700 rounded-2xl text-white shadow-xl transition-all active:scale-90" title="New Stream"><Plus size={22} /></button>
+          </div>
         </div>
         
         <div className="p-6">
@@ -111,15 +304,30 @@ const App: React.FC = () => {
             <Search className="absolute left-4 top-3.5 text-slate-400 group-focus-within:text-brand-500 transition-colors" size={18} />
             <input 
               type="text" 
-              placeholder="Filter neural clusters..." 
+              placeholder="Search vault... emotion:Love tag:x" 
               className="w-full pl-12 pr-4 py-3 bg-white dark:bg-slate-800 border dark:border-slate-700 rounded-2xl outline-none focus:ring-2 focus:ring-brand-500 transition-all text-sm font-bold shadow-sm" 
               value={searchQuery} onChange={e => setSearchQuery(e.target.value)} 
             />
           </div>
         </div>
 
+        {tagCounts.length > 0 && (
+          <div className="px-6 pb-4 space-y-2">
+            <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400"><Tag size={12} /> Tags</div>
+            <div className="flex flex-wrap gap-2 max-h-28 overflow-y-auto custom-scrollbar">
+              {tagCounts.map(([tag, count]) => (
+                <div key={tag} className={`group flex items-center gap-1 pl-3 pr-2 py-1 rounded-full border text-[10px] font-black uppercase tracking-widest transition-all ${activeTag === tag ? 'bg-brand-600 text-white border-brand-600' : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-500'}`}>
+                  <button onClick={() => setActiveTag(activeTag === tag ? null : tag)}>#{tag} <span className="opacity-60">{count}</span></button>
+                  <button onClick={() => handleRenameTagInVault(tag, false)} className="hidden group-hover:block p-0.5 opacity-60 hover:opacity-100" title="Rename across vault"><Pencil size={10} /></button>
+                  <button onClick={() => handleRenameTagInVault(tag, true)} className="hidden group-hover:block p-0.5 opacity-60 hover:opacity-100" title="Merge into another tag"><GitMerge size={10} /></button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="flex-1 overflow-y-auto px-4 space-y-3 custom-scrollbar">
-          {notes.filter(n => n.title.toLowerCase().includes(searchQuery.toLowerCase()) || n.clusters.some(c => c.toLowerCase().includes(searchQuery.toLowerCase()))).map(note => (
+          {visibleNotes.map(({ note, match }) => (
             <div 
               key={note.id} 
               onClick={() => setActiveNoteId(note.id)} 
@@ -128,18 +336,46 @@ const App: React.FC = () => {
               <h3 className="text-sm font-black truncate text-slate-800 dark:text-slate-200 uppercase tracking-tighter mb-2">{note.title}</h3>
               <div className="flex flex-wrap gap-2">
                 {note.clusters.map(c => (
-                  <span key={c} className="text-[9px] bg-brand-500/10 text-brand-600 dark:text-brand-400 px-2.5 py-1 rounded-full font-black uppercase tracking-widest border border-brand-500/20">
+                  <span key={c} className="text-[9px] px-2.5 py-1 rounded-full font-black uppercase tracking-widest border" style={{ color: mlEngine.getEmotionColor(c), backgroundColor: `${mlEngine.getEmotionColor(c)}1a`, borderColor: `${mlEngine.getEmotionColor(c)}33` }}>
                     {c}
                   </span>
                 ))}
                 {note.clusters.length === 0 && <span className="text-[9px] text-slate-400 font-bold uppercase tracking-widest">Unmapped</span>}
               </div>
+              {match && match.snippet.length > 0 && (
+                <p className="mt-3 text-[11px] leading-snug text-slate-500 dark:text-slate-400 line-clamp-3">
+                  {match.snippet.map((seg, i) => seg.highlight
+                    ? <mark key={i} className="bg-brand-500/20 text-brand-700 dark:text-brand-300 rounded px-0.5">{seg.text}</mark>
+                    : <span key={i}>{seg.text}</span>)}
+                </p>
+              )}
               <button onClick={(e) => handleDelete(note.id, e)} className="absolute right-4 top-4 opacity-0 group-hover:opacity-100 p-2 text-slate-400 hover:text-red-500 transition-all"><Trash2 size={16} /></button>
             </div>
           ))}
         </div>
 
-        <div className="p-6 border-t dark:border-slate-800 bg-white/30 dark:bg-slate-900/30">
+        <div className="p-6 border-t dark:border-slate-800 bg-white/30 dark:bg-slate-900/30 space-y-3">
+           <div className="grid grid-cols-4 gap-3">
+              <button onClick={handleExportVault} className="flex items-center justify-center gap-2 p-3 rounded-2xl bg-white dark:bg-slate-800 border dark:border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-brand-500 transition-all" title="Export Vault"><Archive size={14} /> Export</button>
+              <button onClick={() => vaultInputRef.current?.click()} className="flex items-center justify-center gap-2 p-3 rounded-2xl bg-white dark:bg-slate-800 border dark:border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-brand-500 transition-all" title="Import Vault"><ArchiveRestore size={14} /> Import</button>
+              <input type="file" ref={vaultInputRef} className="hidden" accept=".zip,application/zip" onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) handleImportVault(file);
+              }} />
+              <button onClick={() => markdownInputRef.current?.click()} className="flex items-center justify-center gap-2 p-3 rounded-2xl bg-white dark:bg-slate-800 border dark:border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-brand-500 transition-all" title="Import Markdown Folder"><FolderInput size={14} /> MD</button>
+              <input type="file" ref={markdownInputRef} className="hidden" multiple webkitdirectory="" onChange={(e) => {
+                const files = Array.from((e.target.files || []) as FileList);
+                e.target.value = '';
+                if (files.length > 0) handleImportMarkdown(files);
+              }} />
+              <button onClick={() => graphInputRef.current?.click()} className="flex items-center justify-center gap-2 p-3 rounded-2xl bg-white dark:bg-slate-800 border dark:border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-brand-500 transition-all" title="Import Mermaid mindmap or OPML outline"><Share2 size={14} /> Map</button>
+              <input type="file" ref={graphInputRef} className="hidden" accept=".mmd,.mermaid,.md,.txt,.opml,.xml" onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) handleImportGraph(file);
+              }} />
+           </div>
            <button onClick={() => setShowMLStats(true)} className="flex items-center justify-between w-full p-4 rounded-3xl bg-brand-600 text-white shadow-xl hover:bg-brand-700 transition-all">
               <div className="flex items-center gap-3"><Activity size={18} /><span className="text-xs font-black uppercase tracking-[0.2em]">Vault Intel</span></div>
               <ChevronRight size={18} />
@@ -152,45 +388,105 @@ const App: React.FC = () => {
           <div className="flex items-center gap-8">
             <button onClick={() => setIsSidebarOpen(!isSidebarOpen)} className="p-3 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-2xl transition-all"><ChevronRight className={isSidebarOpen ? 'rotate-180' : ''} /></button>
             <div className="flex flex-col">
-              <span className="font-black text-2xl tracking-tighter">{activeNote?.title || 'Void Stream'}</span>
-              <div className="flex items-center gap-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">
-                <FolderSync size={10} /> {activeNote?.activeBranch} branch
+              <div className="group flex items-center gap-3">
+                <span className="font-black text-2xl tracking-tighter">{activeNote?.title || 'Void Stream'}</span>
+                {activeNote && <button onClick={() => handleRenameNote(activeNote)} className="opacity-0 group-hover:opacity-100 p-1 text-slate-400 hover:text-brand-500 transition-all" title="Rename stream and update links"><Pencil size={14} /></button>}
               </div>
+              <button onClick={() => activeNote && setShowBranches(true)} className="flex items-center gap-2 text-[10px] font-black text-slate-400 hover:text-brand-500 uppercase tracking-widest transition-colors" title="Manage Branches">
+                <FolderSync size={10} /> {activeNote?.activeBranch} branch
+              </button>
             </div>
           </div>
           <div className="flex items-center gap-4">
              <div className="bg-slate-100 dark:bg-slate-800 p-1.5 rounded-2xl flex shadow-inner">
                <button onClick={() => setViewMode('text')} className={`px-6 py-2 text-xs font-black rounded-xl transition-all ${viewMode === 'text' ? 'bg-white dark:bg-slate-700 shadow-md text-brand-600 dark:text-brand-300' : 'text-slate-400'}`}>EDITOR</button>
                <button onClick={() => setViewMode('graph')} className={`px-6 py-2 text-xs font-black rounded-xl transition-all ${viewMode === 'graph' ? 'bg-white dark:bg-slate-700 shadow-md text-brand-600 dark:text-brand-300' : 'text-slate-400'}`}>SYNAPSE</button>
+               <button onClick={() => setViewMode('vault')} className={`px-6 py-2 text-xs font-black rounded-xl transition-all ${viewMode === 'vault' ? 'bg-white dark:bg-slate-700 shadow-md text-brand-600 dark:text-brand-300' : 'text-slate-400'}`}>VAULT</button>
              </div>
              <div className="w-px h-8 bg-slate-200 dark:bg-slate-800 mx-2" />
+             <button onClick={() => setShowTaxonomy(true)} className="p-3 text-slate-400 hover:text-brand-500 transition-all" title="Emotion Taxonomy"><Palette size={24} /></button>
              <button onClick={() => setIsDarkMode(!isDarkMode)} className="p-3 text-slate-400 hover:text-brand-500 transition-all">{isDarkMode ? <Sun size={24} /> : <Moon size={24} />}</button>
              <button onClick={() => activeNote && handleUpdate({ ...activeNote, config: { ...activeNote.config, is3D: !activeNote.config.is3D } })} className={`p-3 rounded-2xl transition-all ${activeNote?.config.is3D ? 'bg-brand-600 text-white shadow-lg' : 'bg-slate-100 dark:bg-slate-800 text-slate-400 hover:text-slate-600'}`} title="3D Visualization"><Box size={24} /></button>
           </div>
         </header>
 
         <div className="flex-1 overflow-hidden relative">
-          {activeNote ? (
+          {backgroundError && (
+            <div className="absolute top-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 p-4 rounded-2xl bg-red-500/10 border border-red-500/30 text-red-500 dark:text-red-300 text-xs font-bold backdrop-blur-xl">
+              <AlertTriangle size={16} /> {backgroundError}
+              <button onClick={() => setBackgroundError(null)} className="p-1 hover:text-red-700 dark:hover:text-white transition-colors" title="Dismiss"><X size={14} /></button>
+            </div>
+          )}
+          {viewMode === 'vault' ? (
+            <VaultGraph notes={notes} activeNoteId={activeNoteId} onOpenNote={(id) => { setActiveNoteId(id); setViewMode('text'); }} />
+          ) : activeNote ? (
             viewMode === 'text' ? (
-              <Editor note={activeNote} onUpdate={handleUpdate} />
+              <Editor 
+                note={activeNote} 
+                notes={notes} 
+                onUpdate={handleUpdate} 
+                onOpenNote={setActiveNoteId} 
+                focusCommitId={commitFocus?.noteId === activeNote.id ? commitFocus.commitId : null}
+                onFocusConsumed={() => setCommitFocus(null)}
+                onFocusNode={(nodeId) => { setGraphFocus({ noteId: activeNote.id, nodeId }); setViewMode('graph'); }} 
+              />
             ) : (
-              <NodeGraph note={activeNote} onUpdate={() => {}} is3D={activeNote.config.is3D} />
+              <NodeGraph 
+                key={activeNote.id}
+                note={activeNote} 
+                onUpdate={handleUpdate} 
+                onMoveNodes={handleMoveNodes}
+                is3D={activeNote.config.is3D} 
+                startEditing={activeNote.type === 'mindmap'}
+                focusNodeId={graphFocus?.noteId === activeNote.id ? graphFocus.nodeId : null} 
+                onFocusConsumed={() => setGraphFocus(null)}
+              />
             )
           ) : (
              <div className="h-full w-full flex flex-col items-center justify-center space-y-8 animate-in fade-in duration-1000">
                <div className="p-10 bg-brand-500/10 rounded-full shadow-[0_0_100px_rgba(139,92,246,0.1)]"><Brain size={100} className="text-brand-500 opacity-20" /></div>
                <h2 className="text-3xl font-black tracking-tighter text-slate-400">SELECT A COGNITIVE STREAM</h2>
-               <button onClick={handleAddNote} className="px-10 py-4 bg-brand-600 hover:bg-brand-700 text-white rounded-3xl font-black uppercase tracking-widest shadow-2xl transition-all active:scale-95">Open New Origin</button>
+               <button onClick={() => handleAddNote()} className="px-10 py-4 bg-brand-600 hover:bg-brand-700 text-white rounded-3xl font-black uppercase tracking-widest shadow-2xl transition-all active:scale-95">Open New Origin</button>
              </div>
           )}
         </div>
 
-        <ChatBot notes={notes} activeNote={activeNote} />
+        <ChatBot
+          notes={notes}
+          activeNote={activeNote}
+          onOpenCitation={(noteId, commitId) => { setActiveNoteId(noteId); setCommitFocus({ noteId, commitId }); setViewMode('text'); }}
+          onUpdateNote={handleUpdate}
+          onCreateNote={handleCreateNote}
+        />
+        {pendingImport && (
+          <div className="fixed inset-0 z-[100] bg-slate-950/95 backdrop-blur-3xl flex items-center justify-center p-12">
+            <div className="max-w-lg w-full bg-slate-900 text-white rounded-[3rem] border border-white/5 shadow-2xl p-10 space-y-6 animate-in zoom-in-95 duration-300">
+              <div className="flex items-center gap-4">
+                <div className="p-3 bg-brand-500/10 rounded-2xl"><ArchiveRestore className="text-brand-400" size={28} /></div>
+                <div><h2 className="font-extrabold text-xl leading-tight">Resolve Collisions</h2><p className="text-[10px] text-slate-500 font-black uppercase tracking-widest">{pendingImport.collisions} of {pendingImport.archive.notes.length} streams already exist</p></div>
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                {(['skip', 'overwrite', 'duplicate'] as CollisionStrategy[]).map(strategy => (
+                  <button key={strategy} onClick={() => applyImport(pendingImport.archive, strategy)} className="py-3 rounded-2xl bg-slate-800 hover:bg-brand-600 text-xs font-black uppercase tracking-widest transition-all">{strategy}</button>
+                ))}
+              </div>
+              <button onClick={() => setPendingImport(null)} className="w-full py-3 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-500 hover:text-white transition-all">Cancel</button>
+            </div>
+          </div>
+        )}
+        {showBranches && activeNote && (
+          <BranchManager note={activeNote} onUpdate={handleUpdate} onClose={() => setShowBranches(false)} />
+        )}
+        {showTaxonomy && (
+          <TaxonomySettings onSaved={() => mlEngine.setTrainingData(notes)} onClose={() => setShowTaxonomy(false)} />
+        )}
         {showMLStats && (
           <MLDashboard 
             onClose={() => setShowMLStats(false)} 
             analysis={activeNote ? activeNote.branches[activeNote.activeBranch].commits.slice(-1)[0].analysis : undefined} 
             globalIntel={globalIntel} 
+            notes={notes}
+            activeNote={activeNote}
           />
         )}
       </main>
@@ -0,0 +1,173 @@
+import React, { useMemo, useState } from 'react';
+import { X, GitBranch, GitFork, GitMerge, Check, AlertTriangle } from 'lucide-react';
+import { Note, Branch, MergeResult } from '../types';
+import { mlEngine } from '../services/mlEngine';
+import {
+  indexCommits, getHeadCommit, createBranch, switchBranch, mergeBranches, resolveMerge, commitMerge, unionAssets, ConflictChoice
+} from '../services/branching';
+
+interface BranchManagerProps {
+  note: Note;
+  onUpdate: (note: Note) => void;
+  onClose: () => void;
+}
+
+const BranchManager: React.FC<BranchManagerProps> = ({ note, onUpdate, onClose }) => {
+  const allCommits = useMemo(() => Array.from(indexCommits(note).values()).sort((a, b) => b.timestamp - a.timestamp), [note]);
+  const [forkFrom, setForkFrom] = useState(note.branches[note.activeBranch].head);
+  const [branchName, setBranchName] = useState('');
+  const [mergeSource, setMergeSource] = useState('');
+  const [merge, setMerge] = useState<MergeResult | null>(null);
+  const [choices, setChoices] = useState<ConflictChoice[]>([]);
+  const [isMerging, setIsMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const otherBranches = Object.keys(note.branches).filter(b => b !== note.activeBranch);
+
+  const run = (fn: () => void) => {
+    try { setError(null); fn(); } catch (err) { setError((err as Error).message); }
+  };
+
+  const handleFork = () => run(() => {
+    onUpdate(createBranch(note, branchName, forkFrom));
+    setBranchName('');
+    setMerge(null);
+  });
+
+  const handleSwitch = (name: string) => run(() => {
+    onUpdate(switchBranch(note, name));
+    setMerge(null);
+  });
+
+  const handlePreviewMerge = () => run(() => {
+    const result = mergeBranches(note, note.activeBranch, mergeSource);
+    setMerge(result);
+    setChoices(new Array(result.conflicts).fill('ours'));
+  });
+
+  const handleCommitMerge = async () => {
+    if (!merge || isMerging) return;
+    setIsMerging(true);
+    try {
+      const content = resolveMerge(merge.hunks, choices);
+      const assets = unionAssets(merge.ours.assets, merge.theirs.assets);
+      const analysis = await mlEngine.analyzeNote(content, note.config.preferredModel, assets);
+      const autoMap = mlEngine.generateHierarchicalMap(content, assets, analysis.spans, merge.ours.autoMap);
+      const clusters = analysis.emotions.filter(e => e.impact > 0.66).map(e => e.label);
+      const merged = commitMerge(note, note.activeBranch, mergeSource, {
+        id: crypto.randomUUID(), timestamp: Date.now(), content, author: 'User',
+        message: `Merge ${mergeSource} into ${note.activeBranch}`, assets, analysis, autoMap
+      });
+      onUpdate({ ...merged, clusters });
+      setMerge(null);
+      setMergeSource('');
+    } catch (err) {
+      setError((err as Error).message);
+    } finally { setIsMerging(false); }
+  };
+
+  let conflictIdx = -1;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-950/95 backdrop-blur-3xl flex items-center justify-center p-12">
+      <div className="max-w-5xl w-full max-h-full bg-slate-900 text-white rounded-[3rem] border border-white/5 shadow-2xl flex flex-col overflow-hidden animate-in zoom-in-95 duration-300">
+        <div className="p-8 border-b border-slate-800 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-brand-500/10 rounded-2xl"><GitBranch className="text-brand-400" size={28} /></div>
+            <div><h2 className="font-extrabold text-xl leading-tight">Branch Manager</h2><p className="text-[10px] text-slate-500 font-black uppercase tracking-widest">{note.title}</p></div>
+          </div>
+          <button onClick={onClose} className="p-2.5 hover:bg-white/5 rounded-xl"><X size={24} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-10 custom-scrollbar">
+          {error && (
+            <div className="flex items-center gap-3 p-4 rounded-2xl bg-red-500/10 border border-red-500/30 text-red-300 text-xs font-bold"><AlertTriangle size={16} /> {error}</div>
+          )}
+
+          <section className="space-y-4">
+            <h3 className="text-xs font-black text-slate-500 uppercase flex items-center gap-2"><GitBranch size={14} /> Branches</h3>
+            <div className="grid grid-cols-2 gap-4">
+              {(Object.values(note.branches) as Branch[]).map(b => {
+                const head = getHeadCommit(b);
+                const isActive = b.name === note.activeBranch;
+                return (
+                  <div key={b.name} className={`p-5 rounded-3xl border ${isActive ? 'border-brand-500/50 bg-brand-500/10' : 'border-slate-800 bg-slate-950/40'}`}>
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-sm font-black uppercase tracking-widest">{b.name}</span>
+                      {isActive
+                        ? <span className="text-[9px] font-black uppercase tracking-widest text-brand-400 flex items-center gap-1"><Check size={12} /> Checked out</span>
+                        : <button onClick={() => handleSwitch(b.name)} className="text-[10px] font-black uppercase tracking-widest px-3 py-1.5 rounded-xl bg-slate-800 hover:bg-brand-600 transition-all">Switch</button>}
+                    </div>
+                    <div className="text-[10px] text-slate-400 font-mono truncate">{head ? `${head.message} · ${new Date(head.timestamp).toLocaleString()}` : 'No commits'}</div>
+                    <div className="text-[9px] text-slate-500 font-bold uppercase tracking-widest mt-1">{b.commits.length} commits</div>
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+
+          <section className="space-y-4">
+            <h3 className="text-xs font-black text-slate-500 uppercase flex items-center gap-2"><GitFork size={14} /> Fork From Commit</h3>
+            <div className="flex gap-3">
+              <select value={forkFrom} onChange={e => setForkFrom(e.target.value)} className="flex-1 bg-slate-800 border border-slate-700 rounded-2xl px-4 py-3 text-xs font-mono outline-none focus:ring-2 focus:ring-brand-500">
+                {allCommits.map(c => (
+                  <option key={c.id} value={c.id}>{new Date(c.timestamp).toLocaleString()} · {c.message} · {c.id.slice(0, 8)}</option>
+                ))}
+              </select>
+              <input value={branchName} onChange={e => setBranchName(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleFork()} placeholder="new-branch" className="w-48 bg-slate-800 border border-slate-700 rounded-2xl px-4 py-3 text-xs font-bold outline-none focus:ring-2 focus:ring-brand-500" />
+              <button onClick={handleFork} className="px-6 py-3 bg-brand-600 hover:bg-brand-700 rounded-2xl text-xs font-black uppercase tracking-widest transition-all active:scale-95">Fork</button>
+            </div>
+          </section>
+
+          <section className="space-y-4">
+            <h3 className="text-xs font-black text-slate-500 uppercase flex items-center gap-2"><GitMerge size={14} /> Merge Into {note.activeBranch}</h3>
+            <div className="flex gap-3">
+              <select value={mergeSource} onChange={e => { setMergeSource(e.target.value); setMerge(null); }} className="flex-1 bg-slate-800 border border-slate-700 rounded-2xl px-4 py-3 text-xs font-bold outline-none focus:ring-2 focus:ring-brand-500">
+                <option value="">Select source branch...</option>
+                {otherBranches.map(b => <option key={b} value={b}>{b}</option>)}
+              </select>
+              <button onClick={handlePreviewMerge} disabled={!mergeSource} className="px-6 py-3 bg-slate-800 hover:bg-slate-700 rounded-2xl text-xs font-black uppercase tracking-widest transition-all disabled:opacity-40">Preview</button>
+            </div>
+
+            {merge && (
+              <div className="space-y-4">
+                <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                  Base: {merge.base ? `${merge.base.message} · ${merge.base.id.slice(0, 8)}` : 'none'} · {merge.conflicts === 0 ? <span className="text-emerald-400">Clean merge</span> : <span className="text-amber-400">{merge.conflicts} conflict(s)</span>}
+                </div>
+                {merge.hunks.map((h, hIdx) => {
+                  if (h.type === 'resolved') return null;
+                  const idx = ++conflictIdx;
+                  return (
+                    <div key={hIdx} className="rounded-3xl border border-amber-500/30 bg-slate-950/40 overflow-hidden">
+                      <div className="grid grid-cols-2 divide-x divide-slate-800">
+                        {(['ours', 'theirs'] as const).map(side => (
+                          <div key={side} className={`p-4 ${choices[idx] === side || choices[idx] === 'both' ? 'bg-brand-500/10' : ''}`}>
+                            <div className="text-[9px] font-black uppercase tracking-widest text-slate-500 mb-2">{side === 'ours' ? note.activeBranch : mergeSource}</div>
+                            <pre className="text-xs font-mono whitespace-pre-wrap text-slate-200">{(side === 'ours' ? h.ours : h.theirs).join('\n') || '(removed)'}</pre>
+                          </div>
+                        ))}
+                      </div>
+                      <div className="flex gap-2 p-3 border-t border-slate-800">
+                        {(['ours', 'theirs', 'both'] as ConflictChoice[]).map(c => (
+                          <button key={c} onClick={() => setChoices(prev => prev.map((p, i) => i === idx ? c : p))} className={`px-4 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${choices[idx] === c ? 'bg-brand-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}>
+                            {c === 'ours' ? `Keep ${note.activeBranch}` : c === 'theirs' ? `Take ${mergeSource}` : 'Keep both'}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+                <button onClick={handleCommitMerge} disabled={isMerging} className="w-full py-4 bg-brand-600 hover:bg-brand-700 rounded-2xl text-xs font-black uppercase tracking-[0.3em] flex items-center justify-center gap-3 transition-all active:scale-95 disabled:opacity-50">
+                  {isMerging ? <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" /> : <GitMerge size={18} />}
+                  Commit Merge
+                </button>
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BranchManager;
@@ -1,69 +1,204 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, Sparkles, X, Minimize2, MessageSquare, Terminal, Database, Shield } from 'lucide-react';
-import { Note } from '../types';
-import { mlEngine } from '../services/mlEngine';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Send, Bot, User, Sparkles, X, Minimize2, MessageSquare, Terminal, Database, Shield, FileText, Settings, Square, Cloud, History, Plus, Pencil, Trash2, Download, GitCommit, FilePlus, AlertTriangle } from 'lucide-react';
+import { Note, LLMSettings, ChatMessage, ChatThread } from '../types';
+import { VaultRetriever } from '../services/retrieval';
+import { respond, toCompletion, BotReply } from '../services/assistant';
+import { PROVIDERS, DEFAULT_LLM_SETTINGS, HAS_ENV_GEMINI_KEY, ChatTurn, loadLLMSettings, saveLLMSettings, createProvider, consentKey, isAbortError, localProvider } from '../services/llm';
+import { getAllThreadsFromDB, saveThreadToDB, deleteThreadFromDB } from '../services/db';
+import { createThread, titleThread, exportThreadMarkdown, answerAsCommit, answerAsNote } from '../services/chatThreads';
+import MarkdownText from './MarkdownText';
 
 interface ChatBotProps {
   notes: Note[];
   activeNote?: Note;
+  onOpenCitation?: (noteId: string, commitId: string) => void;
+  onUpdateNote: (note: Note) => void;
+  onCreateNote: (note: Note) => void;
 }
 
-const ChatBot: React.FC<ChatBotProps> = ({ notes, activeNote }) => {
+const ChatBot: React.FC<ChatBotProps> = ({ notes, activeNote, onOpenCitation, onUpdateNote, onCreateNote }) => {
   const [isOpen, setIsOpen] = useState(false);
-  const [messages, setMessages] = useState<{ role: 'user' | 'bot'; text: string; isInsight?: boolean }[]>([
-    { role: 'bot', text: "CogniBot Local Node initialized. My core is running privately on your device. I'm ready to synthesize your memory vault." }
-  ]);
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [thread, setThread] = useState<ChatThread>(() => createThread(null));
+  const [showThreads, setShowThreads] = useState(false);
+  const [savingIndex, setSavingIndex] = useState<number | null>(null);
   const [input, setInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  const [settings, setSettings] = useState<LLMSettings>(DEFAULT_LLM_SETTINGS);
+  const [draft, setDraft] = useState<LLMSettings | null>(null);
+  const [panelError, setPanelError] = useState<string | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const messages = thread.messages;
+  const setMessages = (update: (prev: ChatMessage[]) => ChatMessage[]) => setThread(t => ({ ...t, messages: update(t.messages) }));
 
   useEffect(() => { scrollRef.current?.scrollTo(0, scrollRef.current.scrollHeight); }, [messages]);
+  useEffect(() => {
+    loadLLMSettings()
+      .then(setSettings)
+      .catch(err => setPanelError(`Could not load the assistant settings, so replies stay local: ${(err as Error).message}`));
+  }, []);
+  useEffect(() => () => abortRef.current?.abort(), []);
 
-  const generateLocalResponse = (query: string): { text: string; isInsight: boolean } => {
-    const q = query.toLowerCase();
-    
-    // Detected Insight Request
-    if (q.includes('insight') || q.includes('report') || q.includes('analysis') || q.includes('analyze') || q.includes('summarize')) {
-      if (!activeNote) return { text: "To generate a cognitive report, please select a specific thought stream from the sidebar first.", isInsight: false };
-      return { text: mlEngine.synthesizeInsight(activeNote), isInsight: true };
-    }
+  // Pick up where the last conversation left off, unless a question was asked before the load finished; threads
+  // saved in the meantime are kept, whichever copy was updated last wins.
+  useEffect(() => {
+    getAllThreadsFromDB().then(stored => {
+      const latest = stored.reduce<ChatThread | undefined>((best, t) => !best || t.updatedAt > best.updatedAt ? t : best, undefined);
+      setThreads(prev => {
+        const byId = new Map<string, ChatThread>(stored.map(t => [t.id, t]));
+        prev.forEach(t => { if (!byId.has(t.id) || byId.get(t.id)!.updatedAt <= t.updatedAt) byId.set(t.id, t); });
+        return Array.from(byId.values()).sort((a, b) => b.updatedAt - a.updatedAt);
+      });
+      if (latest) setThread(current => current.messages.some(m => m.role === 'user') ? current : latest);
+    }).catch(err => console.error(err));
+  }, []);
 
-    // Conversational Responses (Human-like, Analytical Persona)
-    if (q.includes('hello') || q.includes('hi') || q.includes('hey')) {
-      return { text: "Hello. Synaptic monitoring is active. All local data streams are encrypted and stable.", isInsight: false };
-    }
-    if (q.includes('how are you')) {
-      return { text: "Operational efficiency is at 100%. I'm currently holding your cognitive vault in isolated RAM.", isInsight: false };
-    }
-    if (q.includes('who are you') || q.includes('what are you')) {
-      return { text: "I am CogniBot, a private local synthesizer. I use the Qwen-inspired local reasoning logic to process your cognitive data without ever touching the cloud.", isInsight: false };
-    }
-    if (q.includes('thank')) {
-      return { text: "Understood. Maintaining cognitive integrity is my primary directive.", isInsight: false };
-    }
-    if (q.includes('help')) {
-      return { text: "I can analyze your notes for emotional bias, generate structural mind maps, or provide a cross-vault synthesis. Ask for an 'insight report' to start.", isInsight: false };
-    }
+  // Saved once a reply has finished streaming; threads without a question yet are not worth keeping.
+  useEffect(() => {
+    if (isTyping || !thread.messages.some(m => m.role === 'user')) return;
+    saveThreadToDB(thread).catch(err => setPanelError(`Could not save this conversation: ${(err as Error).message}`));
+    setThreads(prev => [thread, ...prev.filter(t => t.id !== thread.id)].sort((a, b) => b.updatedAt - a.updatedAt));
+  }, [thread, isTyping]);
 
-    return { text: "System ready. If you require a deep neural analysis of the current stream, just request an 'insight report'.", isInsight: false };
-  };
+  const threadNote = thread.noteId ? notes.find(n => n.id === thread.noteId) : undefined;
+  const scopeLabel = (t: ChatThread) => t.noteId ? notes.find(n => n.id === t.noteId)?.title || 'Removed stream' : 'Whole vault';
+
+  // Rebuilt when the vault changes; small enough that indexing is cheaper than tracking edits.
+  const retriever = useMemo(() => new VaultRetriever(notes), [notes]);
+  const provider = useMemo(() => createProvider(settings), [settings]);
+
+  const updateLastBot = (update: (m: ChatMessage) => ChatMessage) =>
+    setMessages(prev => prev.map((m, i) => i === prev.length - 1 && m.role === 'bot' ? update(m) : m));
 
   const handleSend = async () => {
     if (!input.trim() || isTyping) return;
     const userMsg = input.trim();
-    setMessages(prev => [...prev, { role: 'user', text: userMsg }]);
+    const history: ChatTurn[] = messages.slice(1).map(m => ({ role: m.role === 'user' ? 'user' : 'assistant', content: m.text }));
+    // A note-scoped thread keeps talking about its note even after the editor moves on.
+    const subject = threadNote || activeNote;
+    const noteId = subject?.id || null;
+    setThread(t => titleThread({ ...t, updatedAt: Date.now(), messages: [...t.messages, { role: 'user', text: userMsg, timestamp: Date.now(), noteId }] }));
     setInput('');
     setIsTyping(true);
 
-    // Simulated "thinking" delay for the local synthesizer
-    setTimeout(() => {
-      const { text, isInsight } = generateLocalResponse(userMsg);
-      setMessages(prev => [...prev, { role: 'bot', text, isInsight }]);
+    // Yield a frame so the typing indicator paints before the index is searched.
+    await new Promise(r => setTimeout(r, 0));
+    let reply: BotReply;
+    try {
+      reply = respond(userMsg, { notes, activeNote: subject, retriever });
+    } catch (err) {
+      setMessages(prev => [...prev, { role: 'bot', text: `Something went wrong while searching: ${(err as Error).message}`, timestamp: Date.now(), noteId }]);
+      setIsTyping(false);
+      return;
+    }
+
+    // Only replies backed by sources go to the chosen provider; commands like help are answered locally.
+    const { context, ...shown } = reply;
+    const completion = toCompletion(userMsg, reply, history);
+    const llm = completion ? provider : localProvider;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let started = false;
+    const append = (chunk: string) => {
+      if (!started) {
+        started = true;
+        setMessages(prev => [...prev, { ...shown, role: 'bot', text: chunk, timestamp: Date.now(), noteId }]);
+      } else updateLastBot(m => ({ ...m, text: m.text + chunk }));
+    };
+    try {
+      for await (const chunk of llm.stream({ ...(completion || { system: '', messages: [] }), fallback: reply.text, signal: controller.signal })) append(chunk);
+      if (!started) append(reply.text);
+    } catch (err) {
+      if (isAbortError(err) || controller.signal.aborted) append(started ? ' [stopped]' : '[stopped]');
+      else if (started) append(`\n\n[${llm.label} failed: ${(err as Error).message}]`);
+      else append(`${reply.text}\n\n[${llm.label} unavailable: ${(err as Error).message}. Showing the local answer.]`);
+    } finally {
+      abortRef.current = null;
       setIsTyping(false);
-    }, 750);
+    }
+  };
+
+  const handleNewThread = (noteId: string | null) => {
+    setThread(createThread(noteId));
+    setShowThreads(false);
+  };
+
+  const handleRenameThread = async (t: ChatThread) => {
+    const title = prompt('Rename conversation to:', t.title)?.trim();
+    if (!title || title === t.title) return;
+    const renamed = { ...t, title };
+    try {
+      await saveThreadToDB(renamed);
+    } catch (err) {
+      setPanelError(`Could not rename the conversation: ${(err as Error).message}`);
+      return;
+    }
+    setThreads(prev => prev.map(x => x.id === t.id ? renamed : x));
+    if (thread.id === t.id) setThread(renamed);
+  };
+
+  const handleDeleteThread = async (t: ChatThread) => {
+    if (!confirm(`Delete the conversation "${t.title}"?`)) return;
+    try {
+      await deleteThreadFromDB(t.id);
+    } catch (err) {
+      setPanelError(`Could not delete the conversation: ${(err as Error).message}`);
+      return;
+    }
+    setThreads(prev => prev.filter(x => x.id !== t.id));
+    if (thread.id === t.id) setThread(createThread(null));
   };
 
+  const handleExportThread = (t: ChatThread) => {
+    const { blob, fileName } = exportThreadMarkdown(t, notes);
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleSaveAnswer = async (index: number, target: 'commit' | 'note') => {
+    const message = messages[index];
+    const note = threadNote || activeNote;
+    if (target === 'commit' && !note) return;
+    setSavingIndex(index);
+    try {
+      let saved: Note;
+      if (target === 'commit') {
+        saved = await answerAsCommit(note!, message);
+        onUpdateNote(saved);
+      } else {
+        const question = messages.slice(0, index).reverse().find(m => m.role === 'user')?.text;
+        saved = await answerAsNote(message, question ? `CogniBot: ${question.slice(0, 60)}` : thread.title);
+        onCreateNote(saved);
+      }
+      const savedAs = { noteId: saved.id, commitId: saved.branches[saved.activeBranch].head };
+      setMessages(prev => prev.map((m, i) => i === index ? { ...m, savedAs } : m));
+    } catch (err) {
+      alert(`Could not save the answer: ${(err as Error).message}`);
+    } finally { setSavingIndex(null); }
+  };
+
+  const handleSaveSettings = async () => {
+    if (!draft) return;
+    try {
+      await saveLLMSettings(draft);
+      setSettings(draft);
+      setDraft(null);
+      setPanelError(null);
+    } catch (err) {
+      setPanelError(`Could not save the assistant settings: ${(err as Error).message}`);
+    }
+  };
+
+  const draftKey = draft && consentKey(draft);
+  const inputClass = 'w-full mt-1.5 px-4 py-3 rounded-2xl bg-slate-100 dark:bg-slate-800 border dark:border-slate-700 text-sm dark:text-white focus:ring-2 focus:ring-brand-500/40 outline-none';
+
   if (!isOpen) return (
     <button onClick={() => setIsOpen(true)} className="fixed bottom-12 right-12 bg-slate-900 dark:bg-slate-900 hover:bg-slate-800 text-white p-6 rounded-full shadow-[0_25px_60px_rgba(0,0,0,0.5)] transition-all hover:scale-110 z-50 flex items-center justify-center group border border-white/10">
       <MessageSquare size={32} className="group-hover:rotate-6 transition-transform" />
@@ -77,14 +212,100 @@ const ChatBot: React.FC<ChatBotProps> = ({ notes, activeNote }) => {
           <div className="p-3 bg-brand-600 rounded-2xl text-white shadow-lg"><Bot size={24} /></div>
           <div>
             <h3 className="font-black text-lg uppercase tracking-widest text-white">CogniBot</h3>
-            <div className="flex items-center gap-2 text-[10px] text-emerald-400 uppercase font-black tracking-widest">
-               <Shield size={12} /> Local Offline Instance
-            </div>
+            <div className="text-[10px] text-slate-400 font-bold truncate max-w-[12rem]" title={scopeLabel(thread)}>{thread.title}</div>
+            {provider.remote ? (
+              <div className="flex items-center gap-2 text-[10px] text-amber-400 uppercase font-black tracking-widest">
+                 <Cloud size={12} /> <span className="truncate max-w-[12rem]">{provider.label}</span>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 text-[10px] text-emerald-400 uppercase font-black tracking-widest">
+                 <Shield size={12} /> Local Offline Instance
+              </div>
+            )}
           </div>
         </div>
-        <button onClick={() => setIsOpen(false)} className="p-3 hover:bg-white/10 rounded-2xl text-slate-400 transition-colors"><Minimize2 size={24} /></button>
+        <div className="flex items-center gap-1">
+          <button onClick={() => setShowThreads(!showThreads)} disabled={isTyping} className={`p-3 hover:bg-white/10 rounded-2xl transition-colors disabled:opacity-40 ${showThreads ? 'text-white' : 'text-slate-400'}`} title="Conversations"><History size={22} /></button>
+          <button onClick={() => setDraft(draft ? null : settings)} className={`p-3 hover:bg-white/10 rounded-2xl transition-colors ${draft ? 'text-white' : 'text-slate-400'}`} title="Assistant provider"><Settings size={22} /></button>
+          <button onClick={() => setIsOpen(false)} className="p-3 hover:bg-white/10 rounded-2xl text-slate-400 transition-colors"><Minimize2 size={24} /></button>
+        </div>
       </div>
 
+      {draft && (
+        <div className="p-7 border-b dark:border-slate-800 bg-white dark:bg-slate-900 space-y-5 max-h-[60%] overflow-y-auto">
+          <div className="flex gap-2">
+            {PROVIDERS.map(p => (
+              <button key={p.id} onClick={() => setDraft({ ...draft, provider: p.id })} className={`flex-1 px-3 py-2 rounded-xl font-black text-[10px] uppercase tracking-[0.2em] transition-all ${draft.provider === p.id ? 'bg-brand-600 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-500'}`}>{p.label}</button>
+            ))}
+          </div>
+          {draft.provider === 'gemini' && (
+            <div className="space-y-3">
+              <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400">Model
+                <input value={draft.gemini.model} onChange={e => setDraft({ ...draft, gemini: { ...draft.gemini, model: e.target.value } })} className={inputClass} />
+              </label>
+              <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400">API key
+                <input type="password" value={draft.gemini.apiKey} onChange={e => setDraft({ ...draft, gemini: { ...draft.gemini, apiKey: e.target.value } })} className={inputClass} placeholder={HAS_ENV_GEMINI_KEY ? 'Using the key from the environment' : ''} />
+              </label>
+            </div>
+          )}
+          {draft.provider === 'openai' && (
+            <div className="space-y-3">
+              <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400">Base URL
+                <input value={draft.openai.baseUrl} onChange={e => setDraft({ ...draft, openai: { ...draft.openai, baseUrl: e.target.value } })} className={inputClass} placeholder="http://localhost:11434/v1" />
+              </label>
+              <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400">Model
+                <input value={draft.openai.model} onChange={e => setDraft({ ...draft, openai: { ...draft.openai, model: e.target.value } })} className={inputClass} />
+              </label>
+              <label className="block text-[10px] font-black uppercase tracking-widest text-slate-400">API key (optional)
+                <input type="password" value={draft.openai.apiKey} onChange={e => setDraft({ ...draft, openai: { ...draft.openai, apiKey: e.target.value } })} className={inputClass} />
+              </label>
+            </div>
+          )}
+          {draftKey ? (
+            <label className="flex items-start gap-3 p-4 rounded-2xl bg-amber-50 dark:bg-amber-900/10 border border-amber-200 dark:border-amber-800/40 text-xs text-amber-800 dark:text-amber-300 leading-relaxed cursor-pointer">
+              <input type="checkbox" className="mt-0.5" checked={draft.consentFor === draftKey} onChange={e => setDraft({ ...draft, consentFor: e.target.checked ? draftKey : null })} />
+              <span>Send the passages behind each answer, and the active note for insight reports, to {draft.provider === 'gemini' ? 'Google Gemini' : draftKey.slice('openai:'.length)}. Until this is checked, every reply is generated on this device.</span>
+            </label>
+          ) : (
+            <p className="text-xs text-slate-500 leading-relaxed">Replies come from the built-in rules and never leave this device.</p>
+          )}
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setDraft(null)} className="px-4 py-2 rounded-xl font-black text-[10px] uppercase tracking-[0.2em] text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800">Cancel</button>
+            <button onClick={handleSaveSettings} className="px-4 py-2 rounded-xl font-black text-[10px] uppercase tracking-[0.2em] bg-brand-600 text-white hover:bg-brand-700">Save for this vault</button>
+          </div>
+        </div>
+      )}
+
+      {panelError && (
+        <div className="flex items-center gap-3 px-7 py-4 border-b dark:border-slate-800 bg-red-500/10 text-red-500 dark:text-red-300 text-xs font-bold">
+          <AlertTriangle size={16} className="shrink-0" /> <span className="flex-1">{panelError}</span>
+          <button onClick={() => setPanelError(null)} className="p-1 hover:text-red-700 dark:hover:text-white transition-colors" title="Dismiss"><X size={14} /></button>
+        </div>
+      )}
+
+      {showThreads && (
+        <div className="p-7 border-b dark:border-slate-800 bg-white dark:bg-slate-900 space-y-4 max-h-[60%] overflow-y-auto">
+          <div className="flex gap-2">
+            <button onClick={() => handleNewThread(null)} className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-xl font-black text-[10px] uppercase tracking-[0.2em] bg-brand-600 text-white hover:bg-brand-700"><Plus size={12} /> Vault thread</button>
+            {activeNote && (
+              <button onClick={() => handleNewThread(activeNote.id)} className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-xl font-black text-[10px] uppercase tracking-[0.2em] bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-brand-500" title={activeNote.title}><Plus size={12} /> This stream</button>
+            )}
+          </div>
+          {threads.length === 0 && <p className="text-xs text-slate-500">Conversations are saved here after the first question.</p>}
+          {threads.map(t => (
+            <div key={t.id} className={`group flex items-center gap-2 p-3 rounded-2xl border transition-all ${t.id === thread.id ? 'border-brand-400 bg-brand-50/50 dark:bg-brand-900/10' : 'border-slate-200 dark:border-slate-800 hover:border-brand-400'}`}>
+              <button onClick={() => { setThread(t); setShowThreads(false); }} className="flex-1 min-w-0 text-left">
+                <div className="text-sm font-bold truncate dark:text-white">{t.title}</div>
+                <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 truncate">{scopeLabel(t)} · {new Date(t.updatedAt).toLocaleDateString()} · {t.messages.length - 1} msgs</div>
+              </button>
+              <button onClick={() => handleRenameThread(t)} className="p-2 rounded-xl text-slate-400 hover:text-brand-500" title="Rename"><Pencil size={14} /></button>
+              <button onClick={() => handleExportThread(t)} className="p-2 rounded-xl text-slate-400 hover:text-emerald-500" title="Export Markdown"><Download size={14} /></button>
+              <button onClick={() => handleDeleteThread(t)} className="p-2 rounded-xl text-slate-400 hover:text-red-500" title="Delete"><Trash2 size={14} /></button>
+            </div>
+          ))}
+        </div>
+      )}
+
       <div ref={scrollRef} className="flex-1 overflow-y-auto p-8 space-y-8 scroll-smooth bg-slate-50 dark:bg-slate-950/50">
         {messages.map((m, i) => (
           <div key={i} className={`flex gap-4 ${m.role === 'user' ? 'flex-row-reverse' : ''}`}>
@@ -95,17 +316,53 @@ const ChatBot: React.FC<ChatBotProps> = ({ notes, activeNote }) => {
               m.role === 'user' 
                 ? 'bg-white dark:bg-slate-900 text-slate-700 dark:text-slate-200 rounded-tr-none border dark:border-slate-800' 
                 : m.isInsight 
-                  ? 'bg-slate-900 text-slate-200 border-2 border-brand-500/40 rounded-tl-none font-mono whitespace-pre-wrap leading-loose shadow-[0_10px_30px_rgba(139,92,246,0.1)]'
+                  ? 'bg-slate-900 text-slate-200 border-2 border-brand-500/40 rounded-tl-none font-mono leading-loose shadow-[0_10px_30px_rgba(139,92,246,0.1)]'
                   : 'bg-brand-50/50 dark:bg-brand-900/10 border border-brand-100 dark:border-brand-800/40 text-slate-800 dark:text-slate-200 rounded-tl-none'
             }`}>
-              {m.text}
+              {m.role === 'user' ? <span className="whitespace-pre-wrap">{m.text}</span> : <MarkdownText text={m.text} />}
+              {m.citations && m.citations.length > 0 && (
+                <div className="mt-5 space-y-2">
+                  {m.citations.map((c, ci) => (
+                    <button
+                      key={ci}
+                      onClick={() => onOpenCitation?.(c.noteId, c.commitId)}
+                      className="w-full text-left p-3 rounded-2xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 hover:border-brand-400 transition-all"
+                      title="Open this version of the stream"
+                    >
+                      <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-brand-600 dark:text-brand-400">
+                        <span>[{ci + 1}]</span><FileText size={12} /><span className="truncate">{c.title}</span>
+                        <span className="ml-auto shrink-0 font-mono text-slate-400 normal-case tracking-normal">{c.commitId.slice(0, 7)} · {new Date(c.timestamp).toLocaleDateString()}</span>
+                      </div>
+                      <p className="mt-1.5 text-[11px] leading-snug text-slate-500 dark:text-slate-400 line-clamp-3 whitespace-normal">{c.snippet}</p>
+                    </button>
+                  ))}
+                </div>
+              )}
+              {m.role === 'bot' && i > 0 && !(isTyping && i === messages.length - 1) && (
+                <div className="mt-4 flex items-center gap-2 text-[10px] font-black uppercase tracking-widest">
+                  {m.savedAs ? (
+                    <button onClick={() => onOpenCitation?.(m.savedAs!.noteId, m.savedAs!.commitId)} className="text-emerald-500 hover:underline truncate">
+                      Saved to {notes.find(n => n.id === m.savedAs!.noteId)?.title || 'a removed stream'}
+                    </button>
+                  ) : savingIndex === i ? (
+                    <span className="flex items-center gap-2 text-slate-400"><span className="w-3 h-3 border-2 border-brand-500/30 border-t-brand-500 rounded-full animate-spin" /> Saving</span>
+                  ) : (
+                    <>
+                      {(threadNote || activeNote) && (
+                        <button onClick={() => handleSaveAnswer(i, 'commit')} className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-xl text-slate-400 hover:text-brand-500 hover:bg-white/60 dark:hover:bg-slate-800" title={`Append to "${(threadNote || activeNote)!.title}" as a new commit`}><GitCommit size={12} /> Commit</button>
+                      )}
+                      <button onClick={() => handleSaveAnswer(i, 'note')} className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-xl text-slate-400 hover:text-brand-500 hover:bg-white/60 dark:hover:bg-slate-800" title="Save as a new stream"><FilePlus size={12} /> Note</button>
+                    </>
+                  )}
+                </div>
+              )}
             </div>
           </div>
         ))}
-        {isTyping && (
+        {isTyping && messages[messages.length - 1]?.role === 'user' && (
           <div className="flex items-center gap-4 px-2">
             <div className="p-3 bg-brand-600/10 rounded-2xl"><Sparkles size={18} className="text-brand-500 animate-spin-slow" /></div>
-            <div className="text-[10px] font-black uppercase text-brand-500 tracking-[0.4em] animate-pulse">Running Local Inference...</div>
+            <div className="text-[10px] font-black uppercase text-brand-500 tracking-[0.4em] animate-pulse">{provider.remote ? 'Waiting for Provider...' : 'Running Local Inference...'}</div>
           </div>
         )}
       </div>
@@ -117,10 +374,14 @@ const ChatBot: React.FC<ChatBotProps> = ({ notes, activeNote }) => {
             value={input} 
             onChange={(e) => setInput(e.target.value)} 
             onKeyDown={(e) => e.key === 'Enter' && handleSend()} 
-            placeholder="Search vault or ask for 'insight'..." 
+            placeholder="Ask your vault, or try 'what changed since yesterday'..." 
             className="flex-1 bg-transparent border-none text-sm focus:ring-0 px-2 placeholder-slate-400 dark:text-white" 
           />
-          <button onClick={handleSend} className="p-3.5 bg-brand-600 text-white rounded-2xl hover:bg-brand-700 transition-all shadow-lg active:scale-95"><Send size={20} /></button>
+          {isTyping ? (
+            <button onClick={() => abortRef.current?.abort()} className="p-3.5 bg-slate-700 text-white rounded-2xl hover:bg-slate-600 transition-all shadow-lg active:scale-95" title="Stop"><Square size={20} /></button>
+          ) : (
+            <button onClick={handleSend} className="p-3.5 bg-brand-600 text-white rounded-2xl hover:bg-brand-700 transition-all shadow-lg active:scale-95"><Send size={20} /></button>
+          )}
         </div>
       </div>
     </div>
@@ -1,37 +1,86 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { 
-  GitCommit, Mic, X, Zap, Cpu, Headphones, Video, FileUp, Download, Play, Camera, Eye, Trash2
+  GitCommit, Mic, X, Zap, Cpu, Headphones, Video, FileUp, Download, Play, Camera, Eye, Trash2, History, RotateCcw, FileText, Tag, Plus, Check, Link2, Captions, Quote, ScanEye
 } from 'lucide-react';
-import { Note, Commit, MLModelType, Asset, EmotionScore } from '../types';
+import { Note, Commit, MLModelType, Asset, EmotionScore, Branch } from '../types';
 import { mlEngine } from '../services/mlEngine';
+import { revertToCommit, indexCommits } from '../services/branching';
+import { persistAssets, resolveAssetUrl } from '../services/db';
+import { exportNoteMarkdown } from '../services/markdown';
+import { addTag, removeTag, renameTag, suggestTags } from '../services/tags';
+import { findBacklinks } from '../services/knowledgeGraph';
+import { transcriber, TranscriptionStatus, insertTranscript, formatTimestamp } from '../services/transcriber';
+import { vision } from '../services/vision';
+import HistoryPanel from './HistoryPanel';
 
 interface EditorProps {
   note: Note;
+  notes?: Note[];
   onUpdate: (note: Note) => void;
+  onFocusNode?: (nodeId: string) => void;
+  onOpenNote?: (id: string) => void;
+  focusCommitId?: string | null; // Opens this commit read-only, e.g. from a chat citation
+  onFocusConsumed?: () => void; // Called once focusCommitId has been applied so it is not applied again
 }
 
-const Editor: React.FC<EditorProps> = ({ note, onUpdate }) => {
+const Editor: React.FC<EditorProps> = ({ note, notes = [], onUpdate, onFocusNode, onOpenNote, focusCommitId, onFocusConsumed }) => {
   const [content, setContent] = useState('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isTextFocused, setIsTextFocused] = useState(false);
   const [showModelMenu, setShowModelMenu] = useState(false);
   const [assets, setAssets] = useState<Asset[]>([]);
   const [isRecording, setIsRecording] = useState(false);
   const [previewAsset, setPreviewAsset] = useState<Asset | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [viewingCommit, setViewingCommit] = useState<Commit | null>(null);
+  const [assetUrls, setAssetUrls] = useState<Record<string, string>>({});
+  const [tagInput, setTagInput] = useState('');
+  const [mediaJobs, setMediaJobs] = useState<Record<string, string>>({}); // Asset id to status line
+  const [mediaTime, setMediaTime] = useState(0);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const mediaRef = useRef<HTMLMediaElement | null>(null);
   
   const currentBranch = note.branches[note.activeBranch];
   const headCommit = currentBranch.commits.find(c => c.id === currentBranch.head);
   const mediaRecorder = useRef<MediaRecorder | null>(null);
   const audioChunks = useRef<Blob[]>([]);
+  // Media jobs outlive the render that started them, so they save through the latest notes and callback.
+  const latest = useRef({ note, notes, onUpdate });
+  latest.current = { note, notes, onUpdate };
+  const displayedCommit = viewingCommit || headCommit;
+  const displayedAssets = viewingCommit ? viewingCommit.assets || [] : assets;
+  const backlinks = useMemo(() => findBacklinks(notes, note), [notes, note]);
+  // The preview follows the live asset so a transcript that lands while it is open shows up.
+  const preview = previewAsset && (displayedAssets.find(a => a.id === previewAsset.id) || previewAsset);
 
   useEffect(() => {
     if (headCommit) {
       setContent(headCommit.content);
       setAssets(headCommit.assets || []);
     }
-  }, [note.id, note.activeBranch, headCommit]);
+  }, [note.id, note.activeBranch, headCommit?.id]);
+
+  useEffect(() => { setViewingCommit(null); }, [note.id, note.activeBranch]);
+
+  useEffect(() => {
+    if (!focusCommitId) return;
+    const commit = indexCommits(note).get(focusCommitId);
+    if (commit) setViewingCommit(commit.id === headCommit?.id ? null : commit);
+    onFocusConsumed?.();
+  }, [focusCommitId, note.id]);
+
+  useEffect(() => {
+    displayedAssets
+      .filter(a => !a.url && a.hash && !assetUrls[a.hash])
+      .forEach(a => resolveAssetUrl(a.hash!).then(url => {
+        if (url) setAssetUrls(prev => ({ ...prev, [a.hash!]: url }));
+      }));
+  }, [displayedAssets]);
+
+  const urlFor = (asset: Asset) => asset.url || (asset.hash && assetUrls[asset.hash]) || '';
 
   useEffect(() => {
     const rec = mlEngine.getRecommendation(content);
@@ -56,12 +105,23 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate }) => {
     }, 0);
   };
 
+  const handleCheckout = (commit: Commit) => {
+    setViewingCommit(commit.id === headCommit?.id ? null : commit);
+  };
+
+  const handleRevert = (commit: Commit) => {
+    if (!confirm(`Revert to "${commit.message}" as a new commit?`)) return;
+    onUpdate(revertToCommit(note, commit.id));
+    setViewingCommit(null);
+  };
+
   const handleSave = async () => {
-    if (isAnalyzing) return;
+    if (isAnalyzing || viewingCommit) return;
     setIsAnalyzing(true);
     try {
-      const analysis = await mlEngine.analyzeNote(content, note.config.preferredModel);
-      const autoMap = mlEngine.generateHierarchicalMap(content, assets);
+      const storedAssets = await persistAssets(assets);
+      const analysis = await mlEngine.analyzeNote(content, note.config.preferredModel, storedAssets);
+      const autoMap = mlEngine.generateHierarchicalMap(content, storedAssets, analysis.spans, headCommit?.autoMap);
       
       const clusters = analysis.emotions
         .filter(e => e.impact > 0.66)
@@ -72,7 +132,7 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate }) => {
         timestamp: Date.now(), 
         content, author: 'User', message: 'Neural Sync', 
         parentId: headCommit?.id || null, 
-        analysis, assets: [...assets], autoMap
+        analysis, assets: storedAssets, autoMap
       };
       
       const updatedBranch = { ...currentBranch, commits: [...currentBranch.commits, newCommit], head: newCommit.id };
@@ -96,6 +156,139 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate }) => {
     URL.revokeObjectURL(url);
   };
 
+  // Only labels the user picked count as confirmed; the first click starts an empty set, never the model's guesses.
+  const correctedLabels = (commit: Commit): string[] => commit.analysis!.userLabels || [];
+
+  const handleCorrectLabels = async (commit: Commit, labels: string[]) => {
+    const userLabels = Array.from(new Set(labels));
+    const branches = Object.fromEntries((Object.entries(note.branches) as [string, Branch][]).map(([name, b]) => [name, {
+      ...b,
+      commits: b.commits.map(c => c.id === commit.id ? { ...c, analysis: { ...c.analysis!, userLabels } } : c)
+    }]));
+    onUpdate({ ...note, branches });
+    if (viewingCommit?.id === commit.id) setViewingCommit({ ...commit, analysis: { ...commit.analysis!, userLabels } });
+    try {
+      await mlEngine.recordFeedback(note, commit, userLabels);
+    } catch (err) {
+      alert(`The correction was applied but could not be saved for fine-tuning: ${(err as Error).message}`);
+    }
+  };
+
+  // Sentence spans only line up with the text they were computed on, so unsaved edits hide them.
+  const displayedText = viewingCommit ? viewingCommit.content : content;
+  const highlightSpans = displayedCommit?.analysis?.spans && displayedText === displayedCommit.content
+    ? displayedCommit.analysis.spans.filter(sp => sp.kind === 'sentence' && sp.emotion !== 'Neutral')
+    : [];
+
+  // While the text is not being edited the highlights sit above it and a plain click opens the sentence's node;
+  // once the textarea has focus they step back so clicks place the caret, and ⌘/Ctrl-click does the same job.
+  const highlightsLinked = !viewingCommit && !!onFocusNode && !isTextFocused;
+
+  const renderHighlights = () => {
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    highlightSpans.forEach((sp, i) => {
+      if (sp.start > cursor) parts.push(displayedText.slice(cursor, sp.start));
+      // Faded with color-mix rather than a hex alpha suffix, which only works for #rrggbb colors.
+      const color = mlEngine.getEmotionColor(sp.emotion);
+      parts.push(
+        <mark
+          key={i}
+          onClick={highlightsLinked ? () => onFocusNode!(sp.nodeId) : undefined}
+          className={`rounded-md text-transparent ${highlightsLinked ? 'pointer-events-auto cursor-pointer hover:brightness-90' : ''}`}
+          style={{ backgroundColor: `color-mix(in srgb, ${color} ${Math.round(10 + sp.score * 22)}%, transparent)`, boxShadow: `inset 0 -2px 0 ${color}` }}
+          title={highlightsLinked ? `${sp.emotion} · open in the synapse map` : undefined}
+        >
+          {displayedText.slice(sp.start, sp.end)}
+        </mark>
+      );
+      cursor = sp.end;
+    });
+    parts.push(displayedText.slice(cursor) + '\n');
+    return parts;
+  };
+
+  const handleTextClick = (e: React.MouseEvent<HTMLTextAreaElement>) => {
+    if (!(e.metaKey || e.ctrlKey) || viewingCommit || !onFocusNode) return;
+    const pos = e.currentTarget.selectionStart;
+    const span = highlightSpans.find(sp => pos >= sp.start && pos <= sp.end);
+    if (span) onFocusNode(span.nodeId);
+  };
+
+  const tagSuggestions = headCommit?.analysis ? suggestTags(note, headCommit.analysis.keywords) : [];
+
+  const handleAddTag = (tag: string) => {
+    onUpdate(addTag(note, tag));
+    setTagInput('');
+  };
+
+  const handleRenameTag = (tag: string) => {
+    const next = prompt(`Rename tag "${tag}" on this stream to:`, tag);
+    if (next && next !== tag) onUpdate(renameTag(note, tag, next));
+  };
+
+  const handleExportMarkdown = async () => {
+    const { blob, fileName } = await exportNoteMarkdown(note);
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Background work on one asset; what it returns is saved onto that asset in every commit of the note it
+  // was started for, even if another note is open by then, and into the draft if this note still is.
+  const runMediaJob = async (asset: Asset, kind: string, job: (blob: Blob, setStatus: (line: string) => void) => Promise<Partial<Asset>>) => {
+    if (mediaJobs[asset.id]) return;
+    const noteId = note.id;
+    setMediaJobs(prev => ({ ...prev, [asset.id]: 'Queued' }));
+    try {
+      const blob = asset.blob || await (await fetch(urlFor(asset))).blob();
+      const result = await job(blob, line => setMediaJobs(prev => prev[asset.id] ? { ...prev, [asset.id]: line } : prev));
+      const merge = (list?: Asset[]) => list?.map(a => a.id === asset.id ? { ...a, ...result } : a);
+      const holds = (c: Commit) => !!c.assets?.some(a => a.id === asset.id);
+      const { note: open, notes: all, onUpdate: save } = latest.current;
+      if (open.id === noteId) setAssets(prev => merge(prev)!);
+      const owner = all.find(n => n.id === noteId) || (open.id === noteId ? open : undefined);
+      if (owner && (Object.values(owner.branches) as Branch[]).some(b => b.commits.some(holds))) {
+        const branches = Object.fromEntries((Object.entries(owner.branches) as [string, Branch][]).map(([name, b]) => [name, {
+          ...b,
+          commits: b.commits.map(c => holds(c) ? { ...c, assets: merge(c.assets) } : c)
+        }]));
+        await save({ ...owner, branches });
+      }
+    } catch (err) {
+      alert(`${kind} of ${asset.name} failed: ${(err as Error).message}`);
+    } finally {
+      setMediaJobs(prev => {
+        const { [asset.id]: _, ...rest } = prev;
+        return rest;
+      });
+    }
+  };
+
+  const transcriptionLabel = (status: TranscriptionStatus) =>
+    status.stage === 'loading' ? `Loading model ${Math.round(status.progress * 100)}%` : status.stage === 'queued' ? 'Queued' : 'Transcribing';
+
+  const handleTranscribe = (asset: Asset) => runMediaJob(asset, 'Transcription', async (blob, setStatus) => {
+    const { text, segments } = await transcriber.transcribe(blob, status => setStatus(transcriptionLabel(status)));
+    return { transcription: text, segments };
+  });
+
+  const handleAnalyzeImage = (asset: Asset) => runMediaJob(asset, 'Image analysis', async (blob, setStatus) => {
+    setStatus('Analyzing');
+    return { analysis: await vision.analyze(blob) };
+  });
+
+  const seekTo = (seconds: number) => {
+    const media = mediaRef.current;
+    if (!media) return;
+    media.currentTime = seconds;
+    // Rejects when autoplay is blocked or a later seek interrupts it; the position is set either way.
+    media.play().catch(() => undefined);
+  };
+
   const handleMicToggle = async () => {
     if (!isRecording) {
       try {
@@ -106,9 +299,10 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate }) => {
         mediaRecorder.current.onstop = () => {
           const blob = new Blob(audioChunks.current, { type: 'audio/webm' });
           const url = URL.createObjectURL(blob);
-          const id = `asset-audio-${Date.now()}`;
-          setAssets(prev => [...prev, { id, type: 'audio', url, name: 'Neural Voice', blob }]);
-          insertAtCursor(`\n[Asset Ref: ${id}]`);
+          const asset: Asset = { id: `asset-audio-${Date.now()}`, type: 'audio', url, name: 'Neural Voice', mimeType: blob.type, blob };
+          setAssets(prev => [...prev, asset]);
+          insertAtCursor(`\n[Asset Ref: ${asset.id}]`);
+          handleTranscribe(asset);
         };
         mediaRecorder.current.start();
         setIsRecording(true);
@@ -129,11 +323,13 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate }) => {
       const canvas = document.createElement('canvas');
       canvas.width = 1280; canvas.height = 720;
       canvas.getContext('2d')?.drawImage(video, 0, 0);
-      const dataUrl = canvas.toDataURL('image/jpeg');
-      const id = `asset-img-${Date.now()}`;
-      setAssets(prev => [...prev, { id, type: 'image', url: dataUrl, name: 'Neural Frame' }]);
-      insertAtCursor(`\n[Asset Ref: ${id}]`);
+      const blob = await new Promise<Blob | null>(r => canvas.toBlob(r, 'image/jpeg'));
+      if (!blob) throw new Error('Frame capture failed');
+      const asset: Asset = { id: `asset-img-${Date.now()}`, type: 'image', url: URL.createObjectURL(blob), name: 'Neural Frame', mimeType: blob.type, blob };
+      setAssets(prev => [...prev, asset]);
+      insertAtCursor(`\n[Asset Ref: ${asset.id}]`);
       stream.getTracks().forEach(t => t.stop());
+      handleAnalyzeImage(asset);
     } catch (err) { console.error(err); }
   };
 
@@ -146,28 +342,66 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate }) => {
     { id: 'k-means-clustering', label: 'K-Means', desc: 'Pattern focus' }
   ];
 
-  const getEmotionColor = (label: string) => {
-    const colors: Record<string, string> = {
-      'Love': '#f43f5e',
-      'Passion': '#fb923c',
-      'Caring': '#2dd4bf',
-      'Insight': '#ef4444',
-      'Openness': '#eab308',
-      'Sadness': '#3b82f6',
-      'Neutral': '#64748b'
-    };
-    return colors[label] || '#8b5cf6';
-  };
-
   return (
     <div className="flex h-full bg-white dark:bg-slate-950 relative">
       <div className="flex-1 flex flex-col p-10 overflow-y-auto pb-48">
         
         {/* REFACTORED: Radial Synapse Gauges */}
-        {headCommit?.analysis && (
+        {viewingCommit && (
+          <div className="flex items-center justify-between gap-6 mb-10 px-6 py-4 rounded-3xl border border-amber-500/30 bg-amber-500/5">
+            <div className="flex items-center gap-3 text-[10px] font-black uppercase tracking-widest text-amber-600 dark:text-amber-400">
+              <Eye size={16} /> Read-only · {viewingCommit.message} · {new Date(viewingCommit.timestamp).toLocaleString()}
+            </div>
+            <div className="flex gap-2">
+              <button onClick={() => handleRevert(viewingCommit)} className="flex items-center gap-1.5 px-4 py-2 rounded-2xl bg-brand-600 hover:bg-brand-700 text-white text-[10px] font-black uppercase tracking-widest transition-all"><RotateCcw size={12} /> Revert to this</button>
+              <button onClick={() => setViewingCommit(null)} className="px-4 py-2 rounded-2xl bg-slate-100 dark:bg-slate-800 text-[10px] font-black uppercase tracking-widest transition-all">Back to head</button>
+            </div>
+          </div>
+        )}
+
+        {/* Tag Bar */}
+        <div className="flex flex-wrap items-center gap-2 mb-10">
+          <Tag size={14} className="text-slate-400 mr-1" />
+          {note.tags.map(tag => (
+            <span key={tag} className="group flex items-center gap-1 text-[10px] font-black uppercase tracking-widest px-3 py-1.5 rounded-full bg-brand-500/10 text-brand-600 dark:text-brand-400 border border-brand-500/20">
+              <button onClick={() => handleRenameTag(tag)} title="Rename tag">#{tag}</button>
+              <button onClick={() => onUpdate(removeTag(note, tag))} className="opacity-40 group-hover:opacity-100 hover:text-red-500 transition-all" title="Remove tag"><X size={10} /></button>
+            </span>
+          ))}
+          <input 
+            value={tagInput} 
+            onChange={(e) => setTagInput(e.target.value)} 
+            onKeyDown={(e) => e.key === 'Enter' && tagInput.trim() && handleAddTag(tagInput)} 
+            placeholder="Add tag..." 
+            className="w-28 bg-transparent border-none text-[11px] font-bold focus:ring-0 placeholder-slate-300 dark:placeholder-slate-700" 
+          />
+          {tagSuggestions.map(tag => (
+            <button key={tag} onClick={() => handleAddTag(tag)} className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-widest px-3 py-1.5 rounded-full border border-dashed border-slate-300 dark:border-slate-700 text-slate-400 hover:text-brand-500 hover:border-brand-500/50 transition-all" title="Suggested from keywords">
+              <Plus size={10} /> {tag}
+            </button>
+          ))}
+        </div>
+
+        {/* Backlinks */}
+        <div className="mb-10 space-y-2">
+          <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+            <Link2 size={14} /> {backlinks.length ? `Linked from ${backlinks.length} stream${backlinks.length > 1 ? 's' : ''}` : `No backlinks · reference this stream with [[${note.title}]]`}
+          </div>
+          {backlinks.map(b => (
+            <button key={b.note.id} onClick={() => onOpenNote?.(b.note.id)} className="block w-full text-left px-5 py-3 rounded-2xl bg-slate-50 dark:bg-slate-900/40 border border-slate-200 dark:border-slate-800/50 hover:border-brand-500/40 transition-all group">
+              <div className="text-xs font-black uppercase tracking-tighter text-slate-700 dark:text-slate-200 group-hover:text-brand-500">{b.note.title}{b.count > 1 && <span className="ml-2 opacity-50">×{b.count}</span>}</div>
+              <p className="text-[11px] leading-snug text-slate-500 dark:text-slate-400 line-clamp-2">{b.snippet}</p>
+            </button>
+          ))}
+        </div>
+
+        {displayedCommit?.analysis && (
           <div className="flex gap-8 mb-12 overflow-x-auto pb-6 scrollbar-hide">
-            {headCommit.analysis.emotions.map((emo, idx) => {
-              const color = getEmotionColor(emo.label);
+            {displayedCommit.analysis.emotions.map((emo, idx) => {
+              const color = mlEngine.getEmotionColor(emo.label);
+              const userLabels = displayedCommit.analysis!.userLabels;
+              const isConfirmed = !!userLabels?.includes(emo.label);
+              const isRejected = !!userLabels && !isConfirmed;
               const strokeWidth = 8;
               const radius = 36;
               const circumference = 2 * Math.PI * radius;
@@ -176,7 +410,7 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate }) => {
               const isDominant = idx === 0;
 
               return (
-                <div key={idx} className="flex flex-col items-center gap-4 group transition-all duration-500">
+                <div key={idx} className={`flex flex-col items-center gap-4 group transition-all duration-500 ${isRejected ? 'opacity-30 grayscale' : ''}`}>
                   <div className="relative w-28 h-28 flex items-center justify-center">
                     {/* Background Soft Glow */}
                     <div className="absolute inset-0 rounded-full blur-2xl opacity-20 scale-75 group-hover:scale-100 transition-transform duration-700" style={{ backgroundColor: color }} />
@@ -220,45 +454,128 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate }) => {
                     <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">
                       Presence: {Math.round(emo.score * 100)}%
                     </span>
+                    {emo.label !== 'Neutral' && (
+                      <div className="flex gap-1 mt-2">
+                        <button 
+                          onClick={() => handleCorrectLabels(displayedCommit, [...correctedLabels(displayedCommit), emo.label])} 
+                          className={`p-1 rounded-full transition-all ${isConfirmed ? 'bg-emerald-500 text-white' : 'text-slate-400 hover:text-emerald-500'}`} 
+                          title="Confirm emotion"
+                        ><Check size={10} /></button>
+                        <button 
+                          onClick={() => handleCorrectLabels(displayedCommit, correctedLabels(displayedCommit).filter(l => l !== emo.label))} 
+                          className={`p-1 rounded-full transition-all ${isRejected ? 'bg-red-500 text-white' : 'text-slate-400 hover:text-red-500'}`} 
+                          title="Not this emotion"
+                        ><X size={10} /></button>
+                      </div>
+                    )}
                   </div>
                 </div>
               );
             })}
+            {mlEngine.getLabels().filter(l => !displayedCommit.analysis!.emotions.some(e => e.label === l)).length > 0 && (
+              <div className="flex flex-col items-center justify-center gap-2 min-w-[7rem]">
+                {(displayedCommit.analysis.userLabels || [])
+                  .filter(l => !displayedCommit.analysis!.emotions.some(e => e.label === l))
+                  .map(l => (
+                    <button key={l} onClick={() => handleCorrectLabels(displayedCommit, correctedLabels(displayedCommit).filter(x => x !== l))} className="flex items-center gap-1 text-[9px] font-black uppercase tracking-widest px-3 py-1 rounded-full text-white" style={{ backgroundColor: mlEngine.getEmotionColor(l) }} title="Remove added emotion">
+                      {l} <X size={9} />
+                    </button>
+                  ))}
+                <select 
+                  value="" 
+                  onChange={(e) => e.target.value && handleCorrectLabels(displayedCommit, [...correctedLabels(displayedCommit), e.target.value])} 
+                  className="bg-slate-100 dark:bg-slate-800 border-none rounded-full text-[9px] font-black uppercase tracking-widest text-slate-500 focus:ring-0"
+                >
+                  <option value="">+ Emotion</option>
+                  {mlEngine.getLabels()
+                    .filter(l => !displayedCommit.analysis!.emotions.some(e => e.label === l) && !displayedCommit.analysis!.userLabels?.includes(l))
+                    .map(l => <option key={l} value={l}>{l}</option>)}
+                </select>
+              </div>
+            )}
           </div>
         )}
 
         {/* Media Asset Bar */}
         <div className="flex flex-wrap gap-4 mb-10">
-          {assets.map(asset => (
+          {displayedAssets.map(asset => (
             <div key={asset.id} className="relative group p-4 bg-slate-50 dark:bg-slate-900/40 rounded-3xl border border-slate-200 dark:border-slate-800/50 w-56 shadow-sm transition-all hover:-translate-y-1 hover:shadow-xl">
                <div onClick={() => setPreviewAsset(asset)} className="cursor-pointer h-32 mb-3 bg-black/5 dark:bg-white/5 rounded-2xl flex items-center justify-center relative overflow-hidden">
-                 {asset.type === 'image' ? <img src={asset.url} className="w-full h-full object-cover" /> : 
+                 {asset.type === 'image' ? <img src={urlFor(asset)} className="w-full h-full object-cover" /> : 
                   asset.type === 'audio' ? <Headphones size={32} className="text-brand-500" /> : <Video size={32} className="text-blue-500" />}
                  <div className="absolute inset-0 bg-black/10 opacity-0 group-hover:opacity-100 flex items-center justify-center transition-opacity"><Play className="text-white drop-shadow-lg" size={32} /></div>
                </div>
                <div className="text-[9px] font-mono text-slate-400 truncate mb-1 px-1 tracking-tighter">REF: {asset.id}</div>
                <div className="text-[11px] font-black truncate text-slate-700 dark:text-slate-200 px-1 uppercase tracking-widest">{asset.name}</div>
-               <button onClick={() => setAssets(prev => prev.filter(a => a.id !== asset.id))} className="absolute -top-1.5 -right-1.5 bg-red-500 text-white rounded-full p-1.5 shadow-lg opacity-0 group-hover:opacity-100 transition-all"><X size={12} /></button>
+               {mediaJobs[asset.id] ? (
+                 <div className="flex items-center gap-2 mt-2 px-1 text-[9px] font-black uppercase tracking-widest text-brand-500">
+                   <div className="w-3 h-3 border-2 border-brand-500/30 border-t-brand-500 rounded-full animate-spin" /> {mediaJobs[asset.id]}
+                 </div>
+               ) : asset.analysis ? (
+                 <div className="mt-2 px-1">
+                   <p className="text-[10px] italic text-slate-500 line-clamp-2" title={asset.analysis.caption}>{asset.analysis.caption}</p>
+                   <div className="flex gap-1 mt-1.5">
+                     {asset.analysis.colors.map(c => <span key={c.hex} className="w-3 h-3 rounded-full border border-black/10" style={{ backgroundColor: c.hex }} title={`${c.hex} · ${Math.round(c.share * 100)}%`} />)}
+                   </div>
+                 </div>
+               ) : !viewingCommit && vision.canAnalyze(asset) ? (
+                 <button onClick={() => handleAnalyzeImage(asset)} className="mt-2 px-1 flex items-center gap-1.5 text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-brand-500"><ScanEye size={12} /> Analyze</button>
+               ) : asset.transcription !== undefined ? (
+                 <div className="mt-2 px-1">
+                   <p className="text-[10px] italic text-slate-500 line-clamp-2" title={asset.transcription}>{asset.transcription || 'No speech detected'}</p>
+                   {!viewingCommit && asset.transcription && !content.includes(asset.transcription) && (
+                     <button onClick={() => setContent(insertTranscript(content, asset))} className="mt-1.5 flex items-center gap-1.5 text-[9px] font-black uppercase tracking-widest text-brand-500 hover:text-brand-600" title="Insert the transcript after this asset's ref"><Quote size={10} /> Insert</button>
+                   )}
+                 </div>
+               ) : !viewingCommit && transcriber.canTranscribe(asset) && (
+                 <button onClick={() => handleTranscribe(asset)} className="mt-2 px-1 flex items-center gap-1.5 text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-brand-500" title="Transcribes on this device; the audio never leaves it."><Captions size={12} /> Transcribe</button>
+               )}
+               {!viewingCommit && <button onClick={() => setAssets(prev => prev.filter(a => a.id !== asset.id))} className="absolute -top-1.5 -right-1.5 bg-red-500 text-white rounded-full p-1.5 shadow-lg opacity-0 group-hover:opacity-100 transition-all"><X size={12} /></button>}
             </div>
           ))}
         </div>
 
-        <textarea 
-          ref={textareaRef} 
-          value={content} 
-          onChange={(e) => setContent(e.target.value)}
-          className="flex-1 w-full text-2xl leading-relaxed text-slate-800 dark:text-slate-100 border-none focus:ring-0 resize-none mono bg-transparent placeholder-slate-200 dark:placeholder-slate-800"
-          placeholder="Unfold your neural stream here..."
-        />
+        {highlightSpans.length > 0 && (
+          <div className="text-[9px] font-black uppercase tracking-widest text-slate-400 mb-3">
+            Sentence emotions highlighted{!viewingCommit && onFocusNode ? ' · click a sentence (⌘/Ctrl-click while typing) to open it in the synapse map' : ''}
+          </div>
+        )}
+        <div className="relative flex-1 flex">
+          {/* Highlight layer: same metrics as the textarea, transparent text, scrolled in sync */}
+          <div 
+            ref={highlightRef} 
+            aria-hidden 
+            className={`absolute inset-0 p-0 overflow-hidden whitespace-pre-wrap break-words text-2xl leading-relaxed mono text-transparent pointer-events-none ${highlightsLinked ? 'z-10' : ''}`}
+          >
+            {renderHighlights()}
+          </div>
+          <textarea 
+            ref={textareaRef} 
+            value={displayedText} 
+            readOnly={!!viewingCommit}
+            onChange={(e) => setContent(e.target.value)}
+            onClick={handleTextClick}
+            onFocus={() => setIsTextFocused(true)}
+            onBlur={() => setIsTextFocused(false)}
+            onScroll={(e) => { if (highlightRef.current) highlightRef.current.scrollTop = e.currentTarget.scrollTop; }}
+            className="relative flex-1 w-full p-0 text-2xl leading-relaxed text-slate-800 dark:text-slate-100 border-none focus:ring-0 resize-none mono bg-transparent placeholder-slate-200 dark:placeholder-slate-800"
+            placeholder="Unfold your neural stream here..."
+          />
+        </div>
 
         <input type="file" ref={fileInputRef} className="hidden" multiple onChange={(e) => {
           const files = e.target.files;
           if (files) {
-             Array.from(files).forEach(f => {
-               const id = `asset-file-${Date.now()}`;
-               const url = URL.createObjectURL(f);
-               setAssets(prev => [...prev, { id, type: f.type.startsWith('image') ? 'image' : f.type.startsWith('video') ? 'video' : 'audio', url, name: f.name }]);
-               insertAtCursor(`\n[Asset Ref: ${id}]`);
+             Array.from(files as FileList).forEach(f => {
+               const asset: Asset = {
+                 id: `asset-file-${Date.now()}-${crypto.randomUUID().slice(0, 8)}`,
+                 type: f.type.startsWith('image') ? 'image' : f.type.startsWith('video') ? 'video' : 'audio',
+                 url: URL.createObjectURL(f), name: f.name, mimeType: f.type, blob: f
+               };
+               setAssets(prev => [...prev, asset]);
+               insertAtCursor(`\n[Asset Ref: ${asset.id}]`);
+               if (transcriber.canTranscribe(asset)) handleTranscribe(asset);
+               if (vision.canAnalyze(asset)) handleAnalyzeImage(asset);
              });
           }
         }} />
@@ -269,6 +586,8 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate }) => {
           <button onClick={handleCameraCapture} className="p-4 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full text-slate-400" title="Capture Frame"><Camera size={22} /></button>
           <button onClick={() => fileInputRef.current?.click()} className="p-4 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full text-slate-400" title="Import Asset"><FileUp size={22} /></button>
           <button onClick={handleExport} className="p-4 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full text-emerald-500" title="Export Synthesis"><Download size={22} /></button>
+          <button onClick={handleExportMarkdown} className="p-4 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full text-emerald-500" title="Export Markdown"><FileText size={22} /></button>
+          <button onClick={() => setShowHistory(!showHistory)} className={`p-4 rounded-full transition-all ${showHistory ? 'bg-brand-600 text-white' : 'hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-400'}`} title="Commit Timeline"><History size={22} /></button>
           
           <div className="w-px h-8 bg-slate-200 dark:bg-slate-800 mx-3" />
 
@@ -309,7 +628,7 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate }) => {
           
           <button 
             onClick={handleSave} 
-            disabled={isAnalyzing} 
+            disabled={isAnalyzing || !!viewingCommit} 
             className="ml-3 bg-brand-600 hover:bg-brand-700 text-white px-10 py-4.5 rounded-full shadow-xl font-black text-xs uppercase tracking-[0.3em] flex items-center gap-3 active:scale-95 transition-all disabled:opacity-50"
           >
             {isAnalyzing ? <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" /> : <GitCommit size={22} />}
@@ -317,29 +636,82 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate }) => {
           </button>
         </div>
 
+        {showHistory && (
+          <HistoryPanel 
+            note={note} 
+            viewingCommitId={viewingCommit?.id || null} 
+            onCheckout={handleCheckout} 
+            onRevert={handleRevert} 
+            onClose={() => setShowHistory(false)} 
+          />
+        )}
+
         {/* Media Preview Modal */}
-        {previewAsset && (
+        {preview && (
           <div className="fixed inset-0 z-[100] bg-slate-950/95 backdrop-blur-3xl flex items-center justify-center p-12">
              <button onClick={() => setPreviewAsset(null)} className="absolute top-12 right-12 text-white/30 hover:text-white p-5 transition-colors"><X size={48} /></button>
-             <div className="max-w-4xl w-full flex flex-col items-center gap-10 animate-in zoom-in-95 duration-300">
+             <div className="max-w-4xl w-full max-h-full overflow-y-auto flex flex-col items-center gap-10 animate-in zoom-in-95 duration-300">
                 <div className="w-full bg-slate-900/40 p-12 rounded-[3.5rem] border border-white/5 flex flex-col items-center shadow-2xl">
-                  {previewAsset.type === 'image' && <img src={previewAsset.url} className="max-h-[60vh] w-auto object-contain rounded-2xl shadow-2xl" />}
-                  {previewAsset.type === 'audio' && (
+                  {preview.type === 'image' && (
+                    <div className="relative">
+                      <img src={urlFor(preview)} className="max-h-[60vh] w-auto object-contain rounded-2xl shadow-2xl" />
+                      {preview.analysis?.faces.map((f, i) => (
+                        <div key={i} className="absolute border-2 border-brand-400 rounded-xl" style={{ left: `${f.box[0] * 100}%`, top: `${f.box[1] * 100}%`, width: `${f.box[2] * 100}%`, height: `${f.box[3] * 100}%` }}>
+                          <span className="absolute -top-6 left-0 px-2 py-0.5 rounded-lg bg-brand-600 text-white text-[9px] font-black uppercase tracking-widest whitespace-nowrap">{f.expression} {Math.round(f.score * 100)}%</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {preview.type === 'audio' && (
                     <div className="flex flex-col items-center gap-8 w-full py-10">
                       <div className="p-10 bg-brand-500/10 rounded-full animate-pulse"><Headphones size={80} className="text-brand-400" /></div>
-                      <audio src={previewAsset.url} controls autoPlay className="w-full max-w-xl h-12" />
+                      <audio ref={mediaRef} src={urlFor(preview)} controls autoPlay onTimeUpdate={(e) => setMediaTime(e.currentTarget.currentTime)} className="w-full max-w-xl h-12" />
                     </div>
                   )}
-                  {previewAsset.type === 'video' && <video src={previewAsset.url} controls autoPlay className="w-full rounded-2xl shadow-2xl" />}
+                  {preview.type === 'video' && <video ref={mediaRef} src={urlFor(preview)} controls autoPlay onTimeUpdate={(e) => setMediaTime(e.currentTarget.currentTime)} className="w-full rounded-2xl shadow-2xl" />}
                 </div>
                 <div className="text-center text-white space-y-3">
-                   <h3 className="font-black text-3xl tracking-tight uppercase">{previewAsset.name}</h3>
+                   <h3 className="font-black text-3xl tracking-tight uppercase">{preview.name}</h3>
                    <div className="flex items-center justify-center gap-4 text-slate-500 font-mono text-xs">
-                      <span>ID: {previewAsset.id}</span>
+                      <span>ID: {preview.id}</span>
                       <div className="h-1.5 w-1.5 rounded-full bg-brand-500/40" />
                       <p className="text-brand-400/80 font-sans font-bold uppercase tracking-widest">Active Neural Link</p>
                    </div>
                 </div>
+                {preview.segments && preview.segments.length > 0 ? (
+                  <div className="w-full bg-slate-900/40 p-6 rounded-[2.5rem] border border-white/5 space-y-1">
+                    <div className="px-4 py-2 text-[10px] font-black uppercase text-slate-500 tracking-widest flex items-center gap-2"><Captions size={14} /> Transcript · click a line to jump to it</div>
+                    {preview.segments.map((seg, i) => {
+                      const active = mediaTime >= seg.start && mediaTime < seg.end;
+                      return (
+                        <button key={i} onClick={() => seekTo(seg.start)} className={`w-full text-left flex gap-4 px-4 py-2.5 rounded-2xl transition-all ${active ? 'bg-brand-600 text-white' : 'text-slate-300 hover:bg-white/5'}`}>
+                          <span className={`font-mono text-xs shrink-0 pt-0.5 ${active ? 'text-white/80' : 'text-brand-400'}`}>{formatTimestamp(seg.start)}</span>
+                          <span className="text-sm leading-relaxed">{seg.text}</span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                ) : preview.analysis ? (
+                  <div className="w-full bg-slate-900/40 p-8 rounded-[2.5rem] border border-white/5 space-y-5">
+                    <p className="text-sm leading-relaxed text-slate-300 flex items-start gap-3"><ScanEye size={16} className="text-brand-400 shrink-0 mt-0.5" /> {preview.analysis.caption}</p>
+                    <div className="flex flex-wrap gap-2">
+                      {preview.analysis.colors.map(c => (
+                        <div key={c.hex} className="flex items-center gap-2 px-3 py-1.5 rounded-xl bg-white/5 font-mono text-[10px] text-slate-400">
+                          <span className="w-4 h-4 rounded-md" style={{ backgroundColor: c.hex }} /> {c.hex} · {Math.round(c.share * 100)}%
+                        </div>
+                      ))}
+                    </div>
+                    {preview.analysis.objects.length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {preview.analysis.objects.map(o => (
+                          <span key={o.label} className="px-3 py-1.5 rounded-xl bg-brand-500/10 text-brand-300 text-[10px] font-black uppercase tracking-widest">{o.label}{o.count > 1 ? ` ×${o.count}` : ''}</span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ) : preview.transcription && (
+                  <p className="w-full bg-slate-900/40 p-8 rounded-[2.5rem] border border-white/5 text-sm leading-relaxed text-slate-300">{preview.transcription}</p>
+                )}
              </div>
           </div>
         )}
@@ -0,0 +1,145 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, History, Eye, RotateCcw, GitCompare, Plus, Minus, Sparkles } from 'lucide-react';
+import { Note, Commit, DiffOp } from '../types';
+import { mlEngine } from '../services/mlEngine';
+import { diffLines, pairLineChanges, diffAssets } from '../services/diff';
+import { InsightReport, compareCommits } from '../services/reports';
+import ReportView from './ReportView';
+
+interface HistoryPanelProps {
+  note: Note;
+  viewingCommitId: string | null;
+  onCheckout: (commit: Commit) => void;
+  onRevert: (commit: Commit) => void;
+  onClose: () => void;
+}
+
+const WordDiff: React.FC<{ words: DiffOp<string>[]; side: 'before' | 'after' }> = ({ words, side }) => (
+  <>
+    {words.map((w, i) => {
+      if (w.type === 'equal') return <span key={i}>{w.value}</span>;
+      if (side === 'before' && w.type === 'delete') return <span key={i} className="bg-red-500/40 rounded-sm">{w.value}</span>;
+      if (side === 'after' && w.type === 'insert') return <span key={i} className="bg-emerald-500/40 rounded-sm">{w.value}</span>;
+      return null;
+    })}
+  </>
+);
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ note, viewingCommitId, onCheckout, onRevert, onClose }) => {
+  const branch = note.branches[note.activeBranch];
+  const commits = useMemo(() => [...branch.commits].reverse(), [branch.commits]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [report, setReport] = useState<InsightReport | null>(null);
+
+  // The panel stays mounted across note and branch switches; a selection only means something on its own branch.
+  useEffect(() => {
+    setSelected([]);
+  }, [note.id, note.activeBranch]);
+
+  const toggleSelect = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id].slice(-2));
+  };
+
+  const comparison = useMemo(() => {
+    const picked = selected
+      .map(id => branch.commits.find(c => c.id === id))
+      .filter((c): c is Commit => !!c);
+    if (picked.length !== 2) return null;
+    const [before, after] = picked.sort((a, b) => a.timestamp - b.timestamp);
+    return {
+      before, after,
+      rows: pairLineChanges(diffLines(before.content, after.content)),
+      assets: diffAssets(before.assets, after.assets)
+    };
+  }, [selected, branch.commits]);
+
+  const handleReport = () => {
+    if (!comparison) return;
+    try {
+      setReport(compareCommits(note, comparison.before.id, comparison.after.id));
+    } catch (err) {
+      alert((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-y-0 right-0 w-[40rem] bg-slate-950 text-white shadow-2xl z-50 flex flex-col border-l border-slate-800">
+      <div className="p-8 border-b border-slate-800 flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <div className="p-3 bg-brand-500/10 rounded-2xl"><History className="text-brand-400" size={28} /></div>
+          <div><h2 className="font-extrabold text-xl leading-tight">Commit Timeline</h2><p className="text-[10px] text-slate-500 font-black uppercase tracking-widest">{note.activeBranch} branch · {branch.commits.length} commits</p></div>
+        </div>
+        <button onClick={onClose} className="p-2.5 hover:bg-white/5 rounded-xl"><X size={24} /></button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-8 space-y-10 custom-scrollbar">
+        <section className="space-y-3">
+          <h3 className="text-xs font-black text-slate-500 uppercase flex items-center gap-2"><GitCompare size={14} /> Select two commits to compare</h3>
+          {commits.map(c => {
+            const dominant = c.analysis?.emotions[0];
+            const isHead = c.id === branch.head;
+            const isSelected = selected.includes(c.id);
+            return (
+              <div key={c.id} className={`p-4 rounded-3xl border transition-all ${isSelected ? 'border-brand-500/60 bg-brand-500/10' : viewingCommitId === c.id ? 'border-amber-500/40 bg-amber-500/5' : 'border-slate-800 bg-slate-900'}`}>
+                <div className="flex items-start gap-4">
+                  <input type="checkbox" checked={isSelected} onChange={() => toggleSelect(c.id)} className="mt-1 accent-violet-500" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="text-xs font-black truncate">{c.message}</span>
+                      {isHead && <span className="text-[8px] font-black uppercase tracking-widest px-2 py-0.5 rounded-full bg-brand-600">Head</span>}
+                      {c.mergeParentId && <span className="text-[8px] font-black uppercase tracking-widest px-2 py-0.5 rounded-full bg-slate-700">Merge</span>}
+                    </div>
+                    <div className="text-[10px] text-slate-500 font-mono">{new Date(c.timestamp).toLocaleString()} · {c.author} · {c.id.slice(0, 8)}</div>
+                  </div>
+                  {dominant && (
+                    <span className="text-[9px] font-black uppercase tracking-widest px-2.5 py-1 rounded-full border" style={{ color: mlEngine.getEmotionColor(dominant.label), borderColor: `${mlEngine.getEmotionColor(dominant.label)}55` }}>
+                      {dominant.label}
+                    </span>
+                  )}
+                </div>
+                <div className="flex gap-2 mt-3 pl-8">
+                  <button onClick={() => onCheckout(c)} className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl bg-slate-800 hover:bg-slate-700 text-[10px] font-black uppercase tracking-widest transition-all"><Eye size={12} /> View</button>
+                  {!isHead && <button onClick={() => onRevert(c)} className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl bg-slate-800 hover:bg-brand-600 text-[10px] font-black uppercase tracking-widest transition-all"><RotateCcw size={12} /> Revert</button>}
+                </div>
+              </div>
+            );
+          })}
+        </section>
+
+        {comparison && (
+          <section className="space-y-6">
+            <div className="flex items-center justify-between">
+              <h3 className="text-xs font-black text-slate-500 uppercase flex items-center gap-2"><GitCompare size={14} /> {comparison.before.id.slice(0, 8)} → {comparison.after.id.slice(0, 8)}</h3>
+              <button onClick={handleReport} disabled={!comparison.before.analysis || !comparison.after.analysis} className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl bg-slate-800 hover:bg-brand-600 disabled:opacity-40 disabled:hover:bg-slate-800 text-[10px] font-black uppercase tracking-widest transition-all" title="Emotional shift, keywords and sentiment between these commits"><Sparkles size={12} /> Report</button>
+            </div>
+
+            <div className="bg-slate-900 p-5 rounded-3xl border border-slate-800 space-y-2">
+              <span className="text-[10px] text-slate-500 block uppercase font-bold">Assets</span>
+              {comparison.assets.added.length + comparison.assets.removed.length === 0 && <div className="text-xs text-slate-500">No asset changes ({comparison.assets.unchanged.length} unchanged)</div>}
+              {comparison.assets.added.map(a => <div key={a.id} className="flex items-center gap-2 text-xs text-emerald-400 font-mono"><Plus size={12} /> {a.name} · {a.id}</div>)}
+              {comparison.assets.removed.map(a => <div key={a.id} className="flex items-center gap-2 text-xs text-red-400 font-mono"><Minus size={12} /> {a.name} · {a.id}</div>)}
+            </div>
+
+            <div className="bg-slate-900 rounded-3xl border border-slate-800 overflow-hidden font-mono text-xs">
+              {comparison.rows.map((row, i) => {
+                if (row.type === 'equal') return <div key={i} className="px-5 py-1 text-slate-500 whitespace-pre-wrap">{row.before || ' '}</div>;
+                if (row.type === 'delete') return <div key={i} className="px-5 py-1 bg-red-500/10 text-red-300 whitespace-pre-wrap">- {row.before}</div>;
+                if (row.type === 'insert') return <div key={i} className="px-5 py-1 bg-emerald-500/10 text-emerald-300 whitespace-pre-wrap">+ {row.after}</div>;
+                return (
+                  <React.Fragment key={i}>
+                    <div className="px-5 py-1 bg-red-500/10 text-red-200 whitespace-pre-wrap">- <WordDiff words={row.words!} side="before" /></div>
+                    <div className="px-5 py-1 bg-emerald-500/10 text-emerald-200 whitespace-pre-wrap">+ <WordDiff words={row.words!} side="after" /></div>
+                  </React.Fragment>
+                );
+              })}
+              {comparison.rows.length === 0 && <div className="px-5 py-4 text-slate-500">Both commits are empty.</div>}
+            </div>
+          </section>
+        )}
+      </div>
+      {report && <ReportView report={report} onClose={() => setReport(null)} />}
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -1,16 +1,46 @@
 
 import React, { useMemo, useState } from 'react';
-import { X, Target, Brain, Cpu, Globe, Activity } from 'lucide-react';
-import { MLAnalysis, GlobalIntelligence } from '../types';
+import { X, Target, Brain, Cpu, Globe, Activity, Dumbbell, ThumbsUp } from 'lucide-react';
+import { MLAnalysis, GlobalIntelligence, MLModelType, Note, TrainReport, FineTuneReport } from '../types';
+import { mlEngine, MIN_HELD_OUT } from '../services/mlEngine';
+import TrendsPanel from './TrendsPanel';
 
 interface MLDashboardProps {
   onClose: () => void;
   analysis?: MLAnalysis;
   globalIntel: GlobalIntelligence | null;
+  notes: Note[];
+  activeNote?: Note;
 }
 
-const MLDashboard: React.FC<MLDashboardProps> = ({ onClose, analysis, globalIntel }) => {
-  const [tab, setTab] = useState<'current' | 'vault'>('current');
+const MLDashboard: React.FC<MLDashboardProps> = ({ onClose, analysis, globalIntel, notes, activeNote }) => {
+  const [tab, setTab] = useState<'current' | 'vault' | 'trends' | 'models'>('current');
+  const [reports, setReports] = useState<Partial<Record<MLModelType, TrainReport | null>>>(() =>
+    Object.fromEntries(mlEngine.getModelTypes().map(t => [t, mlEngine.getModelReport(t)]))
+  );
+  const [training, setTraining] = useState<MLModelType | null>(null);
+  const [fineTunes, setFineTunes] = useState<FineTuneReport[]>(() => mlEngine.getFineTuneHistory());
+
+  const handleTrain = async (type: MLModelType) => {
+    if (training) return;
+    setTraining(type);
+    try {
+      mlEngine.setTrainingData(notes);
+      const report = await mlEngine.trainModel(type);
+      setReports(prev => ({ ...prev, [type]: report }));
+    } finally { setTraining(null); }
+  };
+
+  const handleFineTune = async (type: MLModelType) => {
+    if (training) return;
+    setTraining(type);
+    try {
+      mlEngine.setTrainingData(notes);
+      await mlEngine.fineTune(type);
+      setReports(prev => ({ ...prev, [type]: mlEngine.getModelReport(type) }));
+      setFineTunes(mlEngine.getFineTuneHistory());
+    } finally { setTraining(null); }
+  };
 
   return (
     <div className="fixed inset-y-0 right-0 w-[28rem] bg-slate-950 text-white shadow-2xl z-50 flex flex-col border-l border-slate-800">
@@ -22,13 +52,76 @@ const MLDashboard: React.FC<MLDashboardProps> = ({ onClose, analysis, globalInte
         <button onClick={onClose} className="p-2.5 hover:bg-white/5 rounded-xl"><X size={24} /></button>
       </div>
 
-      <div className="flex gap-4 p-6 border-b border-slate-800 bg-slate-900/20">
+      <div className="flex gap-2 p-6 border-b border-slate-800 bg-slate-900/20">
         <button onClick={() => setTab('current')} className={`flex-1 py-2 rounded-xl text-xs font-bold transition-all ${tab === 'current' ? 'bg-brand-600 text-white shadow-lg' : 'text-slate-500'}`}>Mixed Emotions</button>
         <button onClick={() => setTab('vault')} className={`flex-1 py-2 rounded-xl text-xs font-bold transition-all ${tab === 'vault' ? 'bg-brand-600 text-white shadow-lg' : 'text-slate-500'}`}>Vault Synthesis</button>
+        <button onClick={() => setTab('trends')} className={`flex-1 py-2 rounded-xl text-xs font-bold transition-all ${tab === 'trends' ? 'bg-brand-600 text-white shadow-lg' : 'text-slate-500'}`}>Trends</button>
+        <button onClick={() => setTab('models')} className={`flex-1 py-2 rounded-xl text-xs font-bold transition-all ${tab === 'models' ? 'bg-brand-600 text-white shadow-lg' : 'text-slate-500'}`}>Models</button>
       </div>
 
       <div className="flex-1 overflow-y-auto p-8 space-y-10 custom-scrollbar">
-        {tab === 'current' ? (
+        {tab === 'trends' ? (
+          <TrendsPanel notes={notes} activeNote={activeNote} />
+        ) : tab === 'models' ? (
+          <section className="space-y-6">
+            <h3 className="text-xs font-black text-slate-500 uppercase flex items-center gap-2"><Dumbbell size={14} /> Local Classifiers</h3>
+            <p className="text-[11px] text-slate-500 leading-relaxed">Trained on a lexicon seed set plus {mlEngine.buildTrainingSet(notes).length} commits whose emotions you confirmed; about one in five is held out and scored separately. Loss is mean binary cross-entropy; accuracy is per-label.</p>
+            {mlEngine.getModelTypes().map(type => {
+              const report = reports[type];
+              return (
+                <div key={type} className="bg-slate-900 p-5 rounded-3xl border border-slate-800 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 mb-1"><Cpu size={14} className="text-brand-400" /><span className="text-xs font-bold text-slate-300 uppercase tracking-tighter">{type.replace(/-/g, ' ')}</span></div>
+                    <div className="text-[10px] font-mono text-slate-500">
+                      {report ? `loss ${report.loss.toFixed(3)} · acc ${(report.accuracy * 100).toFixed(0)}% · ${report.examples} ex` : 'Untrained (trains on first use)'}
+                    </div>
+                    {report && (
+                      <div className="text-[10px] font-mono text-slate-500">
+                        {report.heldOut ? `held out: acc ${(report.heldOut.accuracy * 100).toFixed(0)}% · ${report.heldOut.examples} ex` : 'held out: not enough confirmed examples yet'}
+                      </div>
+                    )}
+                  </div>
+                  <button onClick={() => handleTrain(type)} disabled={!!training} className="px-4 py-2 rounded-xl bg-slate-800 hover:bg-brand-600 text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-40 flex items-center gap-2">
+                    {training === type ? <div className="w-3 h-3 border-2 border-white/30 border-t-white rounded-full animate-spin" /> : null}
+                    Train
+                  </button>
+                </div>
+              );
+            })}
+
+            <h3 className="text-xs font-black text-slate-500 uppercase flex items-center gap-2 pt-4"><ThumbsUp size={14} /> Feedback Fine-Tuning</h3>
+            <p className="text-[11px] text-slate-500 leading-relaxed">{mlEngine.getFeedbackCount()} emotion corrections recorded. Every fifth is held out; once {MIN_HELD_OUT} are, accuracy on that split is measured before and after each fine-tune.</p>
+            <div className="flex flex-wrap gap-2">
+              {mlEngine.getModelTypes().filter(t => t !== 'symbolic').map(type => (
+                <button key={type} onClick={() => handleFineTune(type)} disabled={!!training || mlEngine.getFeedbackCount() === 0} className="px-3 py-1.5 rounded-xl bg-slate-800 hover:bg-brand-600 text-[9px] font-black uppercase tracking-widest transition-all disabled:opacity-40">
+                  {type.replace(/-/g, ' ')}
+                </button>
+              ))}
+            </div>
+            {fineTunes.length === 0 ? (
+              <div className="p-8 border border-dashed border-slate-800 text-center rounded-[2rem] text-slate-600 text-xs font-bold">No fine-tunes yet</div>
+            ) : fineTunes.slice().reverse().map((ft, i) => {
+              const measured = ft.before !== null && ft.after !== null && ft.heldOutSize >= MIN_HELD_OUT;
+              const delta = measured ? ft.after! - ft.before! : 0;
+              return (
+                <div key={i} className="bg-slate-900 p-4 rounded-2xl border border-slate-800 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="text-[10px] font-bold text-slate-300 uppercase tracking-tighter">{ft.model.replace(/-/g, ' ')}</div>
+                    <div className="text-[9px] font-mono text-slate-500">{new Date(ft.at).toLocaleString()} · {ft.trainSize} train / {ft.heldOutSize} held out</div>
+                  </div>
+                  <div className="text-[10px] font-mono text-right">
+                    {!measured ? <span className="text-slate-500">not enough held-out data</span> : (
+                      <>
+                        <span className="text-slate-400">{(ft.before! * 100).toFixed(0)}% → {(ft.after! * 100).toFixed(0)}%</span>
+                        <div className={delta >= 0 ? 'text-emerald-400' : 'text-red-400'}>{delta >= 0 ? '+' : ''}{(delta * 100).toFixed(1)} pts</div>
+                      </>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </section>
+        ) : tab === 'current' ? (
           <section className="space-y-6">
             <h3 className="text-xs font-black text-slate-500 uppercase flex items-center gap-2"><Target size={14} /> Inferred Profile</h3>
             {analysis ? (
@@ -37,6 +130,9 @@ const MLDashboard: React.FC<MLDashboardProps> = ({ onClose, analysis, globalInte
                   <div className="flex items-center gap-3 mb-2">
                     <Cpu size={16} className="text-brand-400" />
                     <span className="text-xs font-bold text-slate-300 uppercase tracking-tighter">{analysis.modelUsed.replace('-', ' ')}</span>
+                    <span className={`ml-auto text-[10px] font-black uppercase tracking-widest ${analysis.sentiment === 'positive' ? 'text-emerald-400' : analysis.sentiment === 'negative' ? 'text-red-400' : 'text-slate-500'}`}>
+                      {analysis.sentiment}{analysis.valence !== undefined ? ` ${analysis.valence >= 0 ? '+' : ''}${analysis.valence.toFixed(2)}` : ''}
+                    </span>
                   </div>
                   <div className="space-y-4">
                     {analysis.emotions.map((emo, i) => (
@@ -46,7 +142,7 @@ const MLDashboard: React.FC<MLDashboardProps> = ({ onClose, analysis, globalInte
                           <span className="text-brand-400">{(emo.score * 100).toFixed(0)}%</span>
                         </div>
                         <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
-                          <div className="h-full bg-brand-500 transition-all duration-700" style={{ width: `${emo.score * 100}%` }} />
+                          <div className="h-full transition-all duration-700" style={{ width: `${emo.score * 100}%`, backgroundColor: mlEngine.getEmotionColor(emo.label) }} />
                         </div>
                       </div>
                     ))}
@@ -65,17 +161,52 @@ const MLDashboard: React.FC<MLDashboardProps> = ({ onClose, analysis, globalInte
                 <div className="grid grid-cols-2 gap-4">
                    <div className="bg-slate-900 p-6 rounded-3xl border border-slate-800">
                       <span className="text-[10px] text-slate-500 block mb-1 uppercase font-bold">Synaptic Density</span>
-                      <span className="text-2xl font-black text-brand-400">{(globalIntel.synapticDensity * 10).toFixed(1)}</span>
+                      <span className="text-2xl font-black text-brand-400">{(globalIntel.synapticDensity * 100).toFixed(0)}%</span>
+                      <p className="text-[9px] text-slate-500 mt-2 leading-snug">Mean synapse-map nodes per stream head; 20+ nodes counts as 100%.</p>
                    </div>
                    <div className="bg-slate-900 p-6 rounded-3xl border border-slate-800">
-                      <span className="text-[10px] text-slate-500 block mb-1 uppercase font-bold">Health</span>
-                      <span className="text-2xl font-black text-green-400">{(globalIntel.vaultHealth * 100).toFixed(0)}%</span>
+                      <span className="text-[10px] text-slate-500 block mb-1 uppercase font-bold">Emotional Entropy</span>
+                      <span className="text-2xl font-black text-brand-400">{(globalIntel.emotionalEntropy * 100).toFixed(0)}%</span>
+                      <p className="text-[9px] text-slate-500 mt-2 leading-snug">Shannon entropy of summed emotion impact across heads ({globalIntel.entropyBits.toFixed(2)} bits), over log₂ of the taxonomy size. 0% = one emotion, 100% = perfectly even.</p>
+                   </div>
+                </div>
+
+                <div className="bg-slate-900 p-6 rounded-3xl border border-slate-800 space-y-4">
+                   <div className="flex items-baseline justify-between">
+                      <span className="text-[10px] text-slate-500 uppercase font-bold">Health</span>
+                      <span className={`text-2xl font-black ${globalIntel.vaultHealth >= 0.9 ? 'text-green-400' : globalIntel.vaultHealth >= 0.7 ? 'text-amber-400' : 'text-red-400'}`}>{(globalIntel.vaultHealth * 100).toFixed(0)}%</span>
                    </div>
+                   <p className="text-[9px] text-slate-500 leading-snug">Mean pass rate of the checks below, ignoring checks with nothing to check.</p>
+                   {globalIntel.healthChecks.map(h => (
+                      <div key={h.id} className="space-y-1">
+                         <div className="flex justify-between text-[10px] font-bold">
+                            <span className="text-slate-400">{h.label}</span>
+                            <span className={h.issues ? 'text-red-400' : 'text-slate-500'}>{h.checked - h.issues}/{h.checked}</span>
+                         </div>
+                         {h.examples.map((ex, i) => <div key={i} className="text-[9px] font-mono text-red-300/70 truncate">{ex}</div>)}
+                      </div>
+                   ))}
                 </div>
+
+                <div className="bg-slate-900 p-6 rounded-3xl border border-slate-800 space-y-3">
+                   <div className="flex items-baseline justify-between">
+                      <span className="text-[10px] text-slate-500 uppercase font-bold">Model Usage</span>
+                      <span className="text-[10px] font-mono text-slate-400">{globalIntel.totalInferences} inferences</span>
+                   </div>
+                   <p className="text-[9px] text-slate-500 leading-snug">Every analysis run is counted per model and kept in IndexedDB across sessions. Most used: <span className="text-brand-400 font-bold">{globalIntel.totalInferences ? globalIntel.mostUsedModel.replace(/-/g, ' ') : 'none yet'}</span>.</p>
+                   {(Object.entries(globalIntel.modelUsage) as [MLModelType, number][]).filter(([, n]) => n > 0).sort((a, b) => b[1] - a[1]).map(([model, n]) => (
+                      <div key={model} className="space-y-1">
+                         <div className="flex justify-between text-[10px] font-bold"><span className="text-slate-400 uppercase tracking-tighter">{model.replace(/-/g, ' ')}</span><span className="text-slate-500">{n}</span></div>
+                         <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden"><div className="h-full bg-brand-500" style={{ width: `${(n / globalIntel.totalInferences) * 100}%` }} /></div>
+                      </div>
+                   ))}
+                </div>
+
                 <div className="bg-slate-900 p-6 rounded-3xl border border-slate-800">
-                   <span className="text-xs font-bold text-slate-400 mb-4 block">Dominant Resonance</span>
+                   <span className="text-xs font-bold text-slate-400 mb-1 block">Dominant Resonance</span>
+                   <p className="text-[9px] text-slate-500 mb-4 leading-snug">Most frequent stream clusters (emotions above 66% impact at the last commit).</p>
                    <div className="flex flex-wrap gap-2">
-                      {globalIntel.dominantThemes.map(t => <span key={t} className="px-3 py-1 bg-brand-500/10 text-brand-400 rounded-full text-[10px] font-black border border-brand-500/20">{t}</span>)}
+                      {globalIntel.dominantThemes.map(t => <span key={t} className="px-3 py-1 rounded-full text-[10px] font-black border" style={{ color: mlEngine.getEmotionColor(t), borderColor: `${mlEngine.getEmotionColor(t)}33` }}>{t} · {globalIntel.clusters[t]}</span>)}
                    </div>
                 </div>
               </div>
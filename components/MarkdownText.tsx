@@ -0,0 +1,71 @@
+import React from 'react';
+
+interface MarkdownTextProps {
+  text: string;
+  className?: string;
+}
+
+type Block =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'list'; ordered: boolean; items: string[] }
+  | { kind: 'paragraph'; lines: string[] };
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const BULLET = /^\s*(?:[-*•])\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+
+// Just what chat replies and insight reports use: headings, lists, paragraphs and inline emphasis.
+const parseBlocks = (text: string): Block[] => {
+  const blocks: Block[] = [];
+  text.split('\n').forEach(line => {
+    const last = blocks[blocks.length - 1];
+    const heading = line.match(HEADING);
+    const item = line.match(BULLET) || line.match(NUMBERED);
+    if (heading) blocks.push({ kind: 'heading', level: heading[1].length, text: heading[2] });
+    else if (item) {
+      const ordered = !BULLET.test(line);
+      if (last?.kind === 'list' && last.ordered === ordered) last.items.push(item[1]);
+      else blocks.push({ kind: 'list', ordered, items: [item[1]] });
+    } else if (!line.trim()) {
+      if (last && !(last.kind === 'paragraph' && last.lines.length === 0)) blocks.push({ kind: 'paragraph', lines: [] });
+    } else if (last?.kind === 'paragraph') last.lines.push(line);
+    else blocks.push({ kind: 'paragraph', lines: [line] });
+  });
+  return blocks.filter(b => b.kind !== 'paragraph' || b.lines.length > 0);
+};
+
+const renderInline = (text: string): React.ReactNode[] =>
+  text.split(/(\*\*[^*]+\*\*|`[^`]+`|\*[^*\s][^*]*\*|_[^_\s][^_]*_)/g).filter(Boolean).map((part, i) => {
+    if (part.startsWith('**') && part.endsWith('**') && part.length > 4) return <strong key={i} className="font-black">{part.slice(2, -2)}</strong>;
+    if (part.startsWith('`') && part.endsWith('`') && part.length > 2) return <code key={i} className="px-1.5 py-0.5 rounded-md bg-slate-200/60 dark:bg-slate-800 font-mono text-[0.85em]">{part.slice(1, -1)}</code>;
+    if (/^([*_]).+\1$/.test(part)) return <em key={i}>{part.slice(1, -1)}</em>;
+    return <React.Fragment key={i}>{part}</React.Fragment>;
+  });
+
+const HEADING_CLASS: Record<number, string> = {
+  1: 'text-base font-black uppercase tracking-widest',
+  2: 'text-sm font-black uppercase tracking-widest',
+  3: 'text-sm font-black uppercase tracking-[0.2em] text-brand-500',
+};
+
+/** Renders the Markdown subset the assistant produces without injecting HTML. */
+const MarkdownText: React.FC<MarkdownTextProps> = ({ text, className = '' }) => (
+  <div className={`space-y-3 ${className}`}>
+    {parseBlocks(text).map((block, i) => {
+      if (block.kind === 'heading') {
+        return <div key={i} className={`${HEADING_CLASS[block.level] || 'text-xs font-black uppercase tracking-[0.2em] text-slate-400'} ${i > 0 ? 'pt-2' : ''}`}>{renderInline(block.text)}</div>;
+      }
+      if (block.kind === 'list') {
+        const List = block.ordered ? 'ol' : 'ul';
+        return (
+          <List key={i} className={`space-y-1.5 pl-5 ${block.ordered ? 'list-decimal' : 'list-disc'} marker:text-brand-500`}>
+            {block.items.map((item, j) => <li key={j}>{renderInline(item)}</li>)}
+          </List>
+        );
+      }
+      return <p key={i}>{block.lines.map((line, j) => <React.Fragment key={j}>{j > 0 && <br />}{renderInline(line)}</React.Fragment>)}</p>;
+    })}
+  </div>
+);
+
+export default MarkdownText;
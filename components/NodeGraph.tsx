@@ -1,41 +1,203 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { Note, NodeData } from '../types';
-import { Move, Rotate3d, Target, RefreshCw, ZoomIn, ZoomOut, Zap } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Note, NodeData, MapLayout } from '../types';
+import { mlEngine } from '../services/mlEngine';
+import { moveNode, renameNode, addChildNode, deleteNode, reparentNode, setHeadMap, ROOT_ID } from '../services/mindmap';
+import { LAYOUTS, computeLayout } from '../services/layouts';
+import { GraphScene, drawGraph, CARD_WIDTH, CARD_HEIGHT } from '../services/graphRenderer';
+import { toSVG, toPNG, toGraphML, toGEXF, toMermaid } from '../services/graphIO';
+import { Move, Rotate3d, Target, RefreshCw, ZoomIn, ZoomOut, Pencil, Plus, Trash2, Orbit, Network, Atom, Share2, Copy } from 'lucide-react';
 
 interface NodeGraphProps {
   note: Note;
   onUpdate: (note: Note) => void;
+  onMoveNodes?: (note: Note) => void; // Position-only saves; falls back to onUpdate
   is3D?: boolean;
+  focusNodeId?: string | null;
+  onFocusConsumed?: () => void; // Called once the view is centered on focusNodeId so later edits do not re-center it
+  startEditing?: boolean;
 }
 
-const NodeGraph: React.FC<NodeGraphProps> = ({ note, onUpdate, is3D = false }) => {
+const LAYOUT_ICONS: Record<MapLayout, typeof Orbit> = { radial: Orbit, tree: Network, force: Atom };
+
+const PNG_SIZES = [2048, 4096, 8192];
+const MOVE_SAVE_DELAY_MS = 600;
+
+const download = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const NodeGraph: React.FC<NodeGraphProps> = ({ note, onUpdate, onMoveNodes, is3D = false, focusNodeId = null, onFocusConsumed, startEditing = false }) => {
   const [nodes, setNodes] = useState<NodeData[]>([]);
+  const [focusedNode, setFocusedNode] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(startEditing);
+  const [isLayingOut, setIsLayingOut] = useState(false);
+  const [draggedNode, setDraggedNode] = useState<string | null>(null);
+  const [editingLabel, setEditingLabel] = useState<{ id: string; value: string } | null>(null);
   const [transform, setTransform] = useState({ x: 0, y: 0, scale: 0.5, rotateX: -15, rotateY: 15 });
   const [isDragging, setIsDragging] = useState(false);
   const [dragButton, setDragButton] = useState<number | null>(null);
-  const dragRef = useRef({ lastX: 0, lastY: 0 });
+  const [hoveredNode, setHoveredNode] = useState<string | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [, setOverlayTick] = useState(0);
+  const [showExport, setShowExport] = useState(false);
+  const dragRef = useRef({ lastX: 0, lastY: 0, moved: false });
   const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const branch = note.branches[note.activeBranch];
+  const head = branch.commits.find(c => c.id === branch.head);
+  const canEdit = isEditing && !is3D;
+  const layout: MapLayout = note.config.layout || 'radial';
   
   useEffect(() => {
-    const head = note.branches[note.activeBranch].commits.slice(-1)[0];
-    if (head?.autoMap && head.autoMap.length > 0) {
-      setNodes(head.autoMap);
+    const source: NodeData[] = head?.autoMap && head.autoMap.length > 0
+      ? head.autoMap
+      : [{ id: 'root', label: 'Genesis Core', type: 'paragraph', emotion: 'Genesis', color: '#8b5cf6', x: 0, y: 0, z: 0 }];
+    let cancelled = false;
+    setIsLayingOut(true);
+    computeLayout(source, layout, is3D)
+      // Colors follow the current taxonomy; the stored color covers labels it no longer knows.
+      .then(laidOut => { if (!cancelled) setNodes(laidOut.map(n => ({ ...n, color: mlEngine.getEmotionColor(n.emotion, n.color) }))); })
+      .catch(err => console.error(err))
+      .finally(() => { if (!cancelled) setIsLayingOut(false); });
+    return () => { cancelled = true; };
+  }, [note.id, note.activeBranch, head?.id, layout, is3D]);
+
+  // Center the node picked from the editor's sentence highlights.
+  useEffect(() => {
+    const target = nodes.find(n => n.id === focusNodeId);
+    if (!target) return;
+    setFocusedNode(target.id);
+    setTransform(p => {
+      const scale = Math.max(p.scale, 0.8);
+      return { ...p, scale, x: -target.x * scale, y: -target.y * scale };
+    });
+    onFocusConsumed?.();
+  }, [focusNodeId, nodes]);
+
+  // Drops that only move a node are saved together once dragging pauses, against the note as it is by then;
+  // pending moves are flushed when the graph closes and folded into any structural edit made before that.
+  const latest = useRef({ note, nodes, onMoveNodes, onUpdate });
+  latest.current = { note, nodes, onMoveNodes, onUpdate };
+  const moveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const flushMoves = () => {
+    if (!moveTimer.current) return;
+    clearTimeout(moveTimer.current);
+    moveTimer.current = null;
+    const { note: current, nodes: moved, onMoveNodes: save, onUpdate: update } = latest.current;
+    (save || update)(setHeadMap(current, moved));
+  };
+  useEffect(() => flushMoves, []);
+
+  const moveNodeTo = (id: string, x: number, y: number) => {
+    setNodes(current => moveNode(current, id, x, y));
+    if (moveTimer.current) clearTimeout(moveTimer.current);
+    moveTimer.current = setTimeout(flushMoves, MOVE_SAVE_DELAY_MS);
+  };
+
+  const commitNodes = (next: NodeData[]) => {
+    if (moveTimer.current) clearTimeout(moveTimer.current);
+    moveTimer.current = null;
+    setNodes(next);
+    onUpdate(setHeadMap(note, next));
+  };
+
+  const applyEdit = (fn: (current: NodeData[]) => NodeData[]) => {
+    try { commitNodes(fn(nodes)); } catch (err) { alert((err as Error).message); }
+  };
+
+  const scene = useMemo(() => new GraphScene(nodes), [nodes]);
+
+  // Particles are placed once; re-randomising on every render made them jump.
+  const particles = useMemo(() => [...Array(20)].map(() => ({
+    size: Math.random() * 300 + 100, top: Math.random() * 100, left: Math.random() * 100, delay: Math.random() * -20
+  })), []);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setSize({ width: container.clientWidth, height: container.clientHeight }));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !size.width) return;
+    const frame = requestAnimationFrame(() => {
+      const dpr = window.devicePixelRatio || 1;
+      if (canvas.width !== size.width * dpr || canvas.height !== size.height * dpr) {
+        canvas.width = size.width * dpr;
+        canvas.height = size.height * dpr;
+      }
+      const visible = scene.frame(transform, size.width, size.height, is3D);
+      drawGraph(ctx, scene, visible, transform, { ...size, is3D, focusId: focusedNode, hoverId: hoveredNode, draggedId: draggedNode });
+      setOverlayTick(t => t + 1);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [scene, transform, size, is3D, focusedNode, hoveredNode, draggedNode]);
+
+  const localPoint = (e: React.MouseEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  // Dropping onto another node reparents; anywhere else pins the new position.
+  const handleNodeDrop = (e: React.MouseEvent) => {
+    const id = draggedNode!;
+    setDraggedNode(null);
+    if (!dragRef.current.moved) return;
+    const { x, y } = localPoint(e);
+    const target = scene.hitTest(x, y, id)?.node;
+    const dropped = nodes.find(n => n.id === id)!;
+    if (target) {
+      applyEdit(current => moveNode(reparentNode(current, id, target.id), id, target.x + 260, target.y + 120));
     } else {
-      setNodes([{ id: 'root', label: 'Genesis Core', type: 'paragraph', emotion: 'Genesis', color: '#8b5cf6', x: 0, y: 0, z: 0 }]);
+      moveNodeTo(id, dropped.x, dropped.y);
     }
-  }, [note.id, note.activeBranch]);
+  };
+
+  const handleRename = () => {
+    if (!editingLabel) return;
+    const { id, value } = editingLabel;
+    setEditingLabel(null);
+    if (value.trim() && value.trim() !== nodes.find(n => n.id === id)?.label) applyEdit(current => renameNode(current, id, value));
+  };
 
   const handleMouseDown = (e: React.MouseEvent) => {
-    setIsDragging(true);
-    setDragButton(e.button);
-    dragRef.current = { lastX: e.clientX, lastY: e.clientY };
+    const { x, y } = localPoint(e);
+    // Only the canvas hit-tests; presses on the toolbar and overlays fall through to panning.
+    const hit = canEdit && !editingLabel && e.target === canvasRef.current ? scene.hitTest(x, y) : undefined;
+    if (hit) setDraggedNode(hit.node.id);
+    else {
+      setIsDragging(true);
+      setDragButton(e.button);
+    }
+    dragRef.current = { lastX: e.clientX, lastY: e.clientY, moved: false };
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
-    if (!isDragging) return;
     const deltaX = e.clientX - dragRef.current.lastX;
     const deltaY = e.clientY - dragRef.current.lastY;
+    if (draggedNode) {
+      setNodes(prev => prev.map(n => n.id === draggedNode ? { ...n, x: n.x + deltaX / transform.scale, y: n.y + deltaY / transform.scale } : n));
+      dragRef.current = { lastX: e.clientX, lastY: e.clientY, moved: true };
+      return;
+    }
+    if (!isDragging) {
+      if (e.target !== canvasRef.current) return;
+      const { x, y } = localPoint(e);
+      const hit = scene.hitTest(x, y)?.node.id || null;
+      if (hit !== hoveredNode) setHoveredNode(hit);
+      return;
+    }
     
     if (is3D) {
       if (dragButton === 2) {
@@ -46,33 +208,66 @@ const NodeGraph: React.FC<NodeGraphProps> = ({ note, onUpdate, is3D = false }) =
     } else {
       setTransform(p => ({ ...p, x: p.x + deltaX, y: p.y + deltaY }));
     }
-    dragRef.current = { lastX: e.clientX, lastY: e.clientY };
+    dragRef.current = { lastX: e.clientX, lastY: e.clientY, moved: true };
+  };
+
+  const handleExport = async (format: 'svg' | 'png' | 'graphml' | 'gexf' | 'mermaid', pngSize = 4096) => {
+    setShowExport(false);
+    const base = `MemoryLane_${note.title.replace(/\s+/g, '_')}_map`;
+    try {
+      if (format === 'svg') download(new Blob([toSVG(nodes)], { type: 'image/svg+xml' }), `${base}.svg`);
+      if (format === 'png') download(await toPNG(nodes, pngSize), `${base}_${pngSize}.png`);
+      if (format === 'graphml') download(new Blob([toGraphML(nodes, note.title)], { type: 'application/xml' }), `${base}.graphml`);
+      if (format === 'gexf') download(new Blob([toGEXF(nodes, note.title)], { type: 'application/xml' }), `${base}.gexf`);
+      if (format === 'mermaid') download(new Blob([toMermaid(nodes)], { type: 'text/plain' }), `${base}.mmd`);
+    } catch (err) {
+      alert(`Export failed: ${(err as Error).message}`);
+    }
+  };
+
+  const handleCopyMermaid = async () => {
+    setShowExport(false);
+    try {
+      await navigator.clipboard.writeText(toMermaid(nodes));
+    } catch (err) {
+      alert(`Copy failed: ${(err as Error).message}`);
+    }
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    if (!canEdit) return;
+    const { x, y } = localPoint(e);
+    const hit = scene.hitTest(x, y)?.node;
+    if (hit) setEditingLabel({ id: hit.id, value: hit.label });
   };
 
+  // DOM overlays (rename input, node actions) sit on the node's projected card from the last frame.
+  const overlayFor = (id: string | null | undefined) => {
+    const p = id ? scene.projected(id) : undefined;
+    if (!p) return null;
+    return { left: p.x - CARD_WIDTH * p.scale / 2, top: p.y - CARD_HEIGHT * p.scale / 2, width: CARD_WIDTH * p.scale, height: CARD_HEIGHT * p.scale };
+  };
+  const labelBox = overlayFor(editingLabel?.id);
+  const actionBox = canEdit && !draggedNode && !editingLabel ? overlayFor(hoveredNode) : null;
+
   return (
     <div 
       ref={containerRef}
-      className={`w-full h-full bg-slate-50 dark:bg-slate-950 relative overflow-hidden flex items-center justify-center cursor-grab active:cursor-grabbing ${is3D ? 'perspective-[2500px]' : ''}`}
+      className={`w-full h-full bg-slate-50 dark:bg-slate-950 relative overflow-hidden ${hoveredNode ? (canEdit ? 'cursor-move' : 'cursor-pointer') : 'cursor-grab active:cursor-grabbing'}`}
       onMouseDown={handleMouseDown} 
       onMouseMove={handleMouseMove} 
-      onMouseUp={() => setIsDragging(false)}
+      onMouseUp={(e) => { if (draggedNode) handleNodeDrop(e); setIsDragging(false); }}
+      onMouseLeave={(e) => { if (draggedNode) handleNodeDrop(e); setIsDragging(false); setHoveredNode(null); }}
+      onDoubleClick={handleDoubleClick}
       onWheel={(e) => setTransform(p => ({ ...p, scale: Math.min(Math.max(p.scale - e.deltaY * 0.001 * p.scale, 0.05), 5) }))}
       onContextMenu={(e) => is3D && e.preventDefault()}
     >
       <style>{`
-        @keyframes pulse-link {
-          0% { stroke-dashoffset: 100; opacity: 0.2; }
-          50% { opacity: 0.7; }
-          100% { stroke-dashoffset: 0; opacity: 0.2; }
-        }
         @keyframes float-particle {
           0% { transform: translate(0, 0); }
           50% { transform: translate(100px, 50px); }
           100% { transform: translate(0, 0); }
         }
-        .synapse-link {
-          animation: pulse-link 4s linear infinite;
-        }
         .neural-particle {
           animation: float-particle 20s ease-in-out infinite;
         }
@@ -80,17 +275,11 @@ const NodeGraph: React.FC<NodeGraphProps> = ({ note, onUpdate, is3D = false }) =
 
       {/* Atmospheric Neural Particles */}
       <div className="absolute inset-0 pointer-events-none opacity-20 dark:opacity-40">
-        {[...Array(20)].map((_, i) => (
+        {particles.map((p, i) => (
           <div 
             key={i}
             className="neural-particle absolute rounded-full bg-brand-500/20 blur-2xl"
-            style={{
-              width: Math.random() * 300 + 100,
-              height: Math.random() * 300 + 100,
-              top: `${Math.random() * 100}%`,
-              left: `${Math.random() * 100}%`,
-              animationDelay: `${Math.random() * -20}s`
-            }}
+            style={{ width: p.size, height: p.size, top: `${p.top}%`, left: `${p.left}%`, animationDelay: `${p.delay}s` }}
           />
         ))}
       </div>
@@ -99,75 +288,29 @@ const NodeGraph: React.FC<NodeGraphProps> = ({ note, onUpdate, is3D = false }) =
         className="absolute inset-0 bg-[radial-gradient(#8b5cf6_1.5px,transparent_1.5px)] [background-size:120px_120px] opacity-[0.06] pointer-events-none"
         style={{ transform: `scale(${transform.scale}) translate(${transform.x * 0.05}px, ${transform.y * 0.05}px)` }}
       />
-      
-      <div 
-        className="relative transform-style-3d transition-transform duration-150 ease-out"
-        style={{ 
-          transform: is3D 
-            ? `translateZ(-600px) rotateX(${transform.rotateX}deg) rotateY(${transform.rotateY}deg) translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`
-            : `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`
-        }}
-      >
-        <svg className="absolute top-0 left-0 w-0 h-0 pointer-events-none overflow-visible transform-style-3d">
-          <defs>
-            <filter id="neural-glow">
-              <feGaussianBlur stdDeviation="3" result="coloredBlur"/>
-              <feMerge>
-                <feMergeNode in="coloredBlur"/><feMergeNode in="SourceGraphic"/>
-              </feMerge>
-            </filter>
-          </defs>
-          {nodes.map(node => {
-            if (!node.parentId) return null;
-            const parent = nodes.find(n => n.id === node.parentId);
-            if (!parent) return null;
-            return (
-              <g key={`link-group-${node.id}`}>
-                <line 
-                  x1={parent.x} y1={parent.y} 
-                  x2={node.x} y2={node.y} 
-                  stroke={node.color} 
-                  strokeWidth="4" 
-                  strokeOpacity="0.08" 
-                  style={{ transform: is3D ? `translateZ(${node.z}px)` : '' }}
-                />
-                <line 
-                  className="synapse-link"
-                  x1={parent.x} y1={parent.y} 
-                  x2={node.x} y2={node.y} 
-                  stroke={node.color} 
-                  strokeWidth="2.5" 
-                  strokeDasharray="12, 20"
-                  filter="url(#neural-glow)"
-                  style={{ transform: is3D ? `translateZ(${node.z}px)` : '' }}
-                />
-              </g>
-            );
-          })}
-        </svg>
-
-        {nodes.map(node => (
-          <div 
-            key={node.id} 
-            style={{ 
-              transform: `translate(-50%, -50%) ${is3D ? `translateZ(${node.z}px)` : ''}`, 
-              left: node.x, 
-              top: node.y, 
-              backgroundColor: node.color, 
-              boxShadow: `0 0 60px ${node.color}33`, 
-              zIndex: Math.floor(node.z + 5000) 
-            }} 
-            className="absolute p-5 rounded-[2.5rem] min-w-[210px] border border-white/40 backdrop-blur-3xl transition-all hover:scale-110 hover:shadow-[0_0_90px_rgba(139,92,246,0.4)] group select-none cursor-pointer"
-          >
-            <div className="text-[10px] font-black uppercase text-white/70 mb-2 tracking-[0.25em]">{node.type}</div>
-            <div className="text-xs font-black text-white leading-tight mb-4 drop-shadow-lg">{node.label}</div>
-            <div className="flex items-center justify-between border-t border-white/10 pt-3">
-              <span className="text-[9px] font-black text-white/95 bg-black/40 px-3 py-1.5 rounded-full uppercase tracking-tighter shadow-inner border border-white/5">{node.emotion}</span>
-              <Zap size={15} className="text-white/50 opacity-0 group-hover:opacity-100 transition-opacity animate-pulse" />
-            </div>
-          </div>
-        ))}
-      </div>
+
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+
+      {labelBox && editingLabel && (
+        <input 
+          autoFocus 
+          value={editingLabel.value} 
+          onChange={(e) => setEditingLabel({ id: editingLabel.id, value: e.target.value })} 
+          onKeyDown={(e) => { if (e.key === 'Enter') handleRename(); if (e.key === 'Escape') setEditingLabel(null); }} 
+          onBlur={handleRename} 
+          onMouseDown={(e) => e.stopPropagation()} 
+          style={{ left: labelBox.left + 12, top: labelBox.top + labelBox.height / 2 - 16, width: Math.max(labelBox.width - 24, 160) }}
+          className="absolute z-40 bg-black/60 border border-white/30 rounded-xl px-2 py-1 text-xs font-black text-white focus:ring-0" 
+        />
+      )}
+      {actionBox && hoveredNode && (
+        <div className="absolute z-40 flex gap-1" style={{ left: actionBox.left + actionBox.width - 64, top: actionBox.top + actionBox.height - 34 }}>
+          <button onMouseDown={(e) => e.stopPropagation()} onClick={() => applyEdit(current => addChildNode(current, hoveredNode))} className="p-1.5 rounded-full bg-black/30 hover:bg-black/50 text-white" title="Add child"><Plus size={12} /></button>
+          {hoveredNode !== ROOT_ID && (
+            <button onMouseDown={(e) => e.stopPropagation()} onClick={() => { applyEdit(current => deleteNode(current, hoveredNode)); setHoveredNode(null); }} className="p-1.5 rounded-full bg-black/30 hover:bg-red-500 text-white" title="Delete node and children"><Trash2 size={12} /></button>
+          )}
+        </div>
+      )}
 
       <div className="absolute bottom-10 left-1/2 -translate-x-1/2 flex items-center gap-8 px-12 py-6 bg-slate-900/90 dark:bg-slate-900/80 backdrop-blur-3xl rounded-[3.5rem] border border-white/10 shadow-[0_25px_80px_rgba(0,0,0,0.4)] z-50 animate-in slide-in-from-bottom-10 duration-700">
         <div className="flex items-center gap-5">
@@ -183,6 +326,48 @@ const NodeGraph: React.FC<NodeGraphProps> = ({ note, onUpdate, is3D = false }) =
         <div className="flex items-center gap-4">
            <button onClick={() => setTransform(p => ({ ...p, scale: p.scale * 1.2 }))} className="p-2 text-slate-400 hover:text-white transition-colors"><ZoomIn size={22} /></button>
            <button onClick={() => setTransform(p => ({ ...p, scale: p.scale * 0.8 }))} className="p-2 text-slate-400 hover:text-white transition-colors"><ZoomOut size={22} /></button>
+           <div className="flex items-center bg-slate-800/60 rounded-2xl p-1">
+             {LAYOUTS.map(l => {
+               const Icon = LAYOUT_ICONS[l.id];
+               return (
+                 <button 
+                   key={l.id} 
+                   onClick={() => onUpdate({ ...note, config: { ...note.config, layout: l.id } })} 
+                   className={`px-3 py-2 rounded-xl transition-all font-black text-[10px] uppercase tracking-[0.2em] flex items-center gap-2 ${layout === l.id ? 'bg-brand-600 text-white' : 'text-slate-400 hover:text-white'}`} 
+                   title={`${l.label} layout`}
+                 >
+                   {layout === l.id && isLayingOut ? <div className="w-3.5 h-3.5 border-2 border-white/30 border-t-white rounded-full animate-spin" /> : <Icon size={14} />} {l.label}
+                 </button>
+               );
+             })}
+           </div>
+           <button 
+             onClick={() => setIsEditing(!isEditing)} 
+             disabled={is3D} 
+             className={`p-3.5 rounded-2xl transition-all font-black text-[10px] uppercase tracking-[0.2em] flex items-center gap-2 disabled:opacity-30 ${canEdit ? 'bg-brand-600 text-white' : 'text-slate-400 hover:text-white hover:bg-white/5'}`} 
+             title={is3D ? 'Switch to 2D to edit the map' : 'Drag to move, drop onto a node to reparent, double-click to rename'}
+           ><Pencil size={16} /> {canEdit ? 'Editing' : 'Edit Map'}</button>
+           <div className="relative">
+             <button onClick={() => setShowExport(!showExport)} className={`p-3.5 rounded-2xl transition-all font-black text-[10px] uppercase tracking-[0.2em] flex items-center gap-2 ${showExport ? 'bg-brand-600 text-white' : 'text-slate-400 hover:text-white hover:bg-white/5'}`}><Share2 size={16} /> Export</button>
+             {showExport && (
+               <div className="absolute bottom-full mb-6 left-1/2 -translate-x-1/2 w-60 bg-slate-900 border border-slate-800 rounded-[2rem] shadow-[0_20px_50px_rgba(0,0,0,0.4)] p-3 space-y-1 animate-in fade-in slide-in-from-bottom-6">
+                 <div className="px-3 py-2 text-[10px] font-black uppercase text-slate-500 tracking-widest">Image</div>
+                 <button onClick={() => handleExport('svg')} className="w-full text-left px-3 py-2 rounded-xl text-[11px] font-black uppercase tracking-widest text-slate-300 hover:bg-slate-800 transition-all">SVG</button>
+                 <div className="flex gap-1">
+                   {PNG_SIZES.map(px => (
+                     <button key={px} onClick={() => handleExport('png', px)} className="flex-1 px-2 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-300 hover:bg-slate-800 transition-all" title={`PNG, ${px}px on the longer side`}>PNG {px / 1024}K</button>
+                   ))}
+                 </div>
+                 <div className="px-3 py-2 text-[10px] font-black uppercase text-slate-500 tracking-widest">Graph data</div>
+                 <button onClick={() => handleExport('graphml')} className="w-full text-left px-3 py-2 rounded-xl text-[11px] font-black uppercase tracking-widest text-slate-300 hover:bg-slate-800 transition-all">GraphML</button>
+                 <button onClick={() => handleExport('gexf')} className="w-full text-left px-3 py-2 rounded-xl text-[11px] font-black uppercase tracking-widest text-slate-300 hover:bg-slate-800 transition-all">GEXF</button>
+                 <div className="flex gap-1">
+                   <button onClick={() => handleExport('mermaid')} className="flex-1 text-left px-3 py-2 rounded-xl text-[11px] font-black uppercase tracking-widest text-slate-300 hover:bg-slate-800 transition-all">Mermaid</button>
+                   <button onClick={handleCopyMermaid} className="px-3 py-2 rounded-xl text-slate-400 hover:text-white hover:bg-slate-800 transition-all" title="Copy Mermaid to clipboard"><Copy size={14} /></button>
+                 </div>
+               </div>
+             )}
+           </div>
            <button onClick={() => setTransform({ x: 0, y: 0, scale: 0.5, rotateX: -15, rotateY: 15 })} className="p-3.5 hover:bg-white/5 rounded-2xl text-brand-400 hover:text-brand-300 transition-all font-black text-[10px] uppercase tracking-[0.2em] flex items-center gap-2"><RefreshCw size={16} /> Recenter Matrix</button>
         </div>
       </div>
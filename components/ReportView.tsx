@@ -0,0 +1,40 @@
+import React from 'react';
+import { X, FileText, FileJson, Sparkles } from 'lucide-react';
+import { InsightReport, reportToMarkdown, exportReport } from '../services/reports';
+import MarkdownText from './MarkdownText';
+
+interface ReportViewProps {
+  report: InsightReport;
+  onClose: () => void;
+}
+
+const ReportView: React.FC<ReportViewProps> = ({ report, onClose }) => {
+  const download = (format: 'md' | 'json') => {
+    const { blob, fileName } = exportReport(report, format);
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-950/95 backdrop-blur-3xl flex items-center justify-center p-12">
+      <button onClick={onClose} className="absolute top-12 right-12 text-white/30 hover:text-white p-5 transition-colors"><X size={48} /></button>
+      <div className="max-w-3xl w-full max-h-full overflow-y-auto bg-slate-900/40 p-12 rounded-[3.5rem] border border-white/5 shadow-2xl text-slate-200 animate-in zoom-in-95 duration-300">
+        <div className="flex items-center justify-between gap-4 mb-8">
+          <div className="flex items-center gap-3 text-[10px] font-black uppercase tracking-[0.3em] text-brand-400"><Sparkles size={16} /> Insight report</div>
+          <div className="flex gap-2">
+            <button onClick={() => download('md')} className="flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-800 hover:bg-slate-700 font-black text-[10px] uppercase tracking-[0.2em] transition-all"><FileText size={12} /> Markdown</button>
+            <button onClick={() => download('json')} className="flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-800 hover:bg-slate-700 font-black text-[10px] uppercase tracking-[0.2em] transition-all"><FileJson size={12} /> JSON</button>
+          </div>
+        </div>
+        <MarkdownText text={reportToMarkdown(report)} className="font-mono text-sm leading-loose" />
+        <div className="mt-8 text-[10px] font-mono text-slate-500">Generated {new Date(report.generatedAt).toLocaleString()}</div>
+      </div>
+    </div>
+  );
+};
+
+export default ReportView;
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { X, Palette, Plus, Trash2, AlertTriangle, RotateCcw } from 'lucide-react';
+import { EmotionCategory, SentimentPolarity } from '../types';
+import { mlEngine, DEFAULT_TAXONOMY } from '../services/mlEngine';
+
+interface TaxonomySettingsProps {
+  onSaved: () => void;
+  onClose: () => void;
+}
+
+// Keywords are edited as one comma-separated string per category.
+type DraftCategory = Omit<EmotionCategory, 'keywords'> & { keywords: string };
+
+const toDraft = (categories: EmotionCategory[]): DraftCategory[] =>
+  categories.map(c => ({ ...c, keywords: c.keywords.join(', ') }));
+
+const POLARITIES: SentimentPolarity[] = ['positive', 'neutral', 'negative'];
+
+const TaxonomySettings: React.FC<TaxonomySettingsProps> = ({ onSaved, onClose }) => {
+  const [draft, setDraft] = useState<DraftCategory[]>(() => toDraft(mlEngine.getTaxonomy()));
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = (id: string, patch: Partial<DraftCategory>) =>
+    setDraft(prev => prev.map(c => c.id === id ? { ...c, ...patch } : c));
+
+  const handleAdd = () => setDraft(prev => [
+    ...prev, { id: crypto.randomUUID(), label: '', color: '#8b5cf6', polarity: 'neutral', keywords: '' }
+  ]);
+
+  const handleSave = async () => {
+    if (isSaving) return;
+    setIsSaving(true);
+    try {
+      setError(null);
+      await mlEngine.saveTaxonomy(draft.map(c => ({ ...c, keywords: c.keywords.split(',') })));
+      onSaved();
+      onClose();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally { setIsSaving(false); }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-950/95 backdrop-blur-3xl flex items-center justify-center p-12">
+      <div className="max-w-4xl w-full max-h-full bg-slate-900 text-white rounded-[3rem] border border-white/5 shadow-2xl flex flex-col overflow-hidden animate-in zoom-in-95 duration-300">
+        <div className="p-8 border-b border-slate-800 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-brand-500/10 rounded-2xl"><Palette className="text-brand-400" size={28} /></div>
+            <div><h2 className="font-extrabold text-xl leading-tight">Emotion Taxonomy</h2><p className="text-[10px] text-slate-500 font-black uppercase tracking-widest">{draft.length} categories</p></div>
+          </div>
+          <button onClick={onClose} className="p-2.5 hover:bg-white/5 rounded-xl"><X size={24} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-4 custom-scrollbar">
+          {error && (
+            <div className="flex items-center gap-3 p-4 rounded-2xl bg-red-500/10 border border-red-500/30 text-red-300 text-xs font-bold"><AlertTriangle size={16} /> {error}</div>
+          )}
+          <p className="text-[11px] text-slate-500 leading-relaxed">Keywords seed every local model and drive the synapse map. Removed categories stop being detected, but commits already labelled with them keep their color.</p>
+
+          {draft.map(c => (
+            <div key={c.id} className="grid grid-cols-[auto_10rem_1fr_8rem_auto] items-center gap-3 p-4 rounded-3xl bg-slate-950/40 border border-slate-800">
+              <input type="color" value={c.color} onChange={(e) => update(c.id, { color: e.target.value })} className="w-10 h-10 rounded-xl bg-transparent border-none cursor-pointer" />
+              <input value={c.label} onChange={(e) => update(c.id, { label: e.target.value })} placeholder="Name" className="bg-slate-800 border-none rounded-xl text-xs font-black uppercase tracking-widest focus:ring-2 focus:ring-brand-500" />
+              <input value={c.keywords} onChange={(e) => update(c.id, { keywords: e.target.value })} placeholder="keyword, keyword, ..." className="bg-slate-800 border-none rounded-xl text-xs font-mono focus:ring-2 focus:ring-brand-500" />
+              <select value={c.polarity} onChange={(e) => update(c.id, { polarity: e.target.value as SentimentPolarity })} className="bg-slate-800 border-none rounded-xl text-[10px] font-black uppercase tracking-widest focus:ring-2 focus:ring-brand-500">
+                {POLARITIES.map(p => <option key={p} value={p}>{p}</option>)}
+              </select>
+              <button onClick={() => setDraft(prev => prev.filter(x => x.id !== c.id))} className="p-2 text-slate-500 hover:text-red-500 transition-all" title="Delete category"><Trash2 size={16} /></button>
+            </div>
+          ))}
+
+          <div className="flex gap-3">
+            <button onClick={handleAdd} className="flex items-center gap-2 px-4 py-2 rounded-2xl bg-slate-800 hover:bg-brand-600 text-[10px] font-black uppercase tracking-widest transition-all"><Plus size={12} /> Add emotion</button>
+            <button onClick={() => setDraft(toDraft(DEFAULT_TAXONOMY))} className="flex items-center gap-2 px-4 py-2 rounded-2xl text-slate-500 hover:text-white text-[10px] font-black uppercase tracking-widest transition-all"><RotateCcw size={12} /> Restore defaults</button>
+          </div>
+        </div>
+
+        <div className="p-8 border-t border-slate-800 flex justify-end gap-3">
+          <button onClick={onClose} className="px-6 py-3 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-500 hover:text-white transition-all">Cancel</button>
+          <button onClick={handleSave} disabled={isSaving} className="px-6 py-3 rounded-2xl bg-brand-600 hover:bg-brand-700 text-xs font-black uppercase tracking-widest transition-all disabled:opacity-40">Save taxonomy</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TaxonomySettings;
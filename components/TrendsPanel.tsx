@@ -0,0 +1,189 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ResponsiveContainer, LineChart, Line, AreaChart, Area, XAxis, YAxis, Tooltip, CartesianGrid
+} from 'recharts';
+import { TrendingUp, Layers, CalendarDays, Sparkles } from 'lucide-react';
+import { Note } from '../types';
+import { mlEngine } from '../services/mlEngine';
+import {
+  TrendGranularity, DateRange, commitSeries, vaultEmotionBuckets, sentimentCalendar, calendarWeeks, daysAgo, startOfDay
+} from '../services/trends';
+import { InsightReport, noteReport, periodDigest } from '../services/reports';
+import ReportView from './ReportView';
+
+interface TrendsPanelProps {
+  notes: Note[];
+  activeNote?: Note;
+}
+
+const PRESETS: { label: string; days: number | null }[] = [
+  { label: '30d', days: 30 }, { label: '90d', days: 90 }, { label: '1y', days: 365 }, { label: 'All', days: null }
+];
+
+const toInputDate = (ts?: number) => ts === undefined ? '' : new Date(ts - new Date(ts).getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+const fromInputDate = (v: string, endOfDay = false): number | undefined => {
+  if (!v) return undefined;
+  const [y, m, d] = v.split('-').map(Number);
+  return endOfDay ? new Date(y, m - 1, d, 23, 59, 59, 999).getTime() : new Date(y, m - 1, d).getTime();
+};
+
+// Red for negative days, green for positive, slate when neutral; opacity grows with |valence|.
+const valenceColor = (v: number) => {
+  if (Math.abs(v) < 0.05) return 'rgba(100,116,139,0.5)';
+  const alpha = (0.25 + Math.min(Math.abs(v), 1) * 0.75).toFixed(2);
+  return v > 0 ? `rgba(34,197,94,${alpha})` : `rgba(239,68,68,${alpha})`;
+};
+
+const tooltipStyle = { backgroundColor: '#0f172a', border: '1px solid #1e293b', borderRadius: 16, fontSize: 10 };
+
+const TrendsPanel: React.FC<TrendsPanelProps> = ({ notes, activeNote }) => {
+  const [range, setRange] = useState<DateRange>({ from: daysAgo(90) });
+  const [granularity, setGranularity] = useState<TrendGranularity>('week');
+  const [report, setReport] = useState<InsightReport | null>(null);
+
+  const series = useMemo(() => activeNote ? commitSeries(activeNote, range) : [], [activeNote, range]);
+  const seriesEmotions = useMemo(() => Array.from(new Set(series.flatMap(p => Object.keys(p).filter(k => !['timestamp', 'label', 'valence'].includes(k))))), [series]);
+  const vault = useMemo(() => vaultEmotionBuckets(notes, granularity, range), [notes, granularity, range]);
+  const calendar = useMemo(() => sentimentCalendar(notes, range), [notes, range]);
+
+  // The heatmap spans the picked range, or the vault's first to last commit day when open-ended.
+  const calendarDays = Array.from(calendar.keys()) as number[];
+  const heatFrom = range.from ?? (calendarDays.length ? Math.min(...calendarDays) : daysAgo(90));
+  const heatTo = range.to ?? startOfDay(Date.now());
+  const weeks = calendarWeeks(heatFrom, heatTo);
+
+  const openReport = (build: () => InsightReport) => {
+    try {
+      setReport(build());
+    } catch (err) {
+      alert((err as Error).message);
+    }
+  };
+
+  const reportOptions: { label: string; build: () => InsightReport; disabled?: boolean }[] = [
+    { label: 'Stream', build: () => noteReport(activeNote!), disabled: !activeNote },
+    { label: '7d review', build: () => periodDigest(notes, { from: daysAgo(6), to: Date.now() }, 'over the last 7 days') },
+    { label: '30d review', build: () => periodDigest(notes, { from: daysAgo(29), to: Date.now() }, 'over the last 30 days') },
+    {
+      label: 'Range review',
+      build: () => periodDigest(notes, { from: range.from!, to: range.to ?? Date.now() }, `from ${toInputDate(range.from)} to ${toInputDate(range.to ?? Date.now())}`),
+      disabled: range.from === undefined
+    }
+  ];
+
+  return (
+    <section className="space-y-8">
+      <div className="space-y-3">
+        <div className="flex gap-2">
+          {PRESETS.map(p => (
+            <button
+              key={p.label}
+              onClick={() => setRange(p.days === null ? {} : { from: daysAgo(p.days) })}
+              className="flex-1 py-1.5 rounded-xl bg-slate-900 border border-slate-800 hover:border-brand-500/50 text-[10px] font-black uppercase tracking-widest text-slate-400 transition-all"
+            >{p.label}</button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500">
+          <input type="date" value={toInputDate(range.from)} onChange={(e) => setRange(r => ({ ...r, from: fromInputDate(e.target.value) }))} className="flex-1 bg-slate-900 border border-slate-800 rounded-xl text-[11px] text-slate-300 px-3 py-1.5 [color-scheme:dark]" />
+          <span>to</span>
+          <input type="date" value={toInputDate(range.to)} onChange={(e) => setRange(r => ({ ...r, to: fromInputDate(e.target.value, true) }))} className="flex-1 bg-slate-900 border border-slate-800 rounded-xl text-[11px] text-slate-300 px-3 py-1.5 [color-scheme:dark]" />
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <h3 className="text-xs font-black text-slate-500 uppercase flex items-center gap-2"><TrendingUp size={14} /> Revisions · {activeNote?.title || 'No stream'}</h3>
+        {series.length === 0 ? (
+          <div className="p-8 border border-dashed border-slate-800 text-center rounded-[2rem] text-slate-600 text-xs font-bold">No analysed commits in range</div>
+        ) : (
+          <div className="bg-slate-900 p-4 rounded-3xl border border-slate-800 h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={series}>
+                <CartesianGrid stroke="#1e293b" strokeDasharray="3 3" />
+                <XAxis dataKey="timestamp" tickFormatter={(ts: number) => new Date(ts).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} tick={{ fontSize: 9, fill: '#64748b' }} />
+                <YAxis domain={[0, 1]} tick={{ fontSize: 9, fill: '#64748b' }} width={28} />
+                <Tooltip contentStyle={tooltipStyle} labelFormatter={(ts: number) => new Date(ts).toLocaleString()} formatter={(v: number) => `${Math.round(v * 100)}%`} />
+                {seriesEmotions.map(e => (
+                  <Line key={e} type="monotone" dataKey={e} stroke={mlEngine.getEmotionColor(e)} strokeWidth={2} dot={{ r: 2 }} connectNulls isAnimationActive={false} />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xs font-black text-slate-500 uppercase flex items-center gap-2"><Layers size={14} /> Vault Emotions</h3>
+          <div className="flex bg-slate-900 rounded-xl p-1">
+            {(['day', 'week', 'month'] as TrendGranularity[]).map(g => (
+              <button key={g} onClick={() => setGranularity(g)} className={`px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${granularity === g ? 'bg-brand-600 text-white' : 'text-slate-500'}`}>{g}</button>
+            ))}
+          </div>
+        </div>
+        {vault.points.length === 0 ? (
+          <div className="p-8 border border-dashed border-slate-800 text-center rounded-[2rem] text-slate-600 text-xs font-bold">No analysed commits in range</div>
+        ) : (
+          <div className="bg-slate-900 p-4 rounded-3xl border border-slate-800 h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={vault.points}>
+                <CartesianGrid stroke="#1e293b" strokeDasharray="3 3" />
+                <XAxis dataKey="label" tick={{ fontSize: 9, fill: '#64748b' }} />
+                <YAxis tick={{ fontSize: 9, fill: '#64748b' }} width={28} />
+                <Tooltip contentStyle={tooltipStyle} formatter={(v: number) => v.toFixed(2)} />
+                {vault.emotions.map(e => (
+                  <Area key={e} type="monotone" dataKey={e} stackId="emotions" stroke={mlEngine.getEmotionColor(e)} fill={mlEngine.getEmotionColor(e)} fillOpacity={0.35} isAnimationActive={false} />
+                ))}
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <h3 className="text-xs font-black text-slate-500 uppercase flex items-center gap-2"><CalendarDays size={14} /> Sentiment Calendar</h3>
+        <div className="bg-slate-900 p-4 rounded-3xl border border-slate-800 overflow-x-auto custom-scrollbar">
+          <div className="flex gap-[3px] w-max">
+            {weeks.map(week => (
+              <div key={week[0]} className="flex flex-col gap-[3px]">
+                {week.map(day => {
+                  const entry = calendar.get(day);
+                  const outside = day < startOfDay(heatFrom) || day > heatTo;
+                  return (
+                    <div
+                      key={day}
+                      className={`w-3 h-3 rounded-[3px] ${outside ? 'opacity-0' : ''}`}
+                      style={{ backgroundColor: entry ? valenceColor(entry.valence) : '#1e293b' }}
+                      title={`${new Date(day).toLocaleDateString()}${entry ? ` · valence ${entry.valence.toFixed(2)} · ${entry.commits} commits` : ''}`}
+                    />
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center gap-2 mt-3 text-[9px] font-black uppercase tracking-widest text-slate-500">
+            <span>Negative</span>
+            {[-1, -0.5, 0, 0.5, 1].map(v => <div key={v} className="w-3 h-3 rounded-[3px]" style={{ backgroundColor: valenceColor(v) }} />)}
+            <span>Positive</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <h3 className="text-xs font-black text-slate-500 uppercase flex items-center gap-2"><Sparkles size={14} /> Insight Reports</h3>
+        <div className="grid grid-cols-2 gap-2">
+          {reportOptions.map(r => (
+            <button
+              key={r.label}
+              onClick={() => openReport(r.build)}
+              disabled={r.disabled}
+              className="py-2 rounded-xl bg-slate-900 border border-slate-800 hover:border-brand-500/50 disabled:opacity-40 disabled:hover:border-slate-800 text-[10px] font-black uppercase tracking-widest text-slate-400 transition-all"
+            >{r.label}</button>
+          ))}
+        </div>
+      </div>
+      {report && <ReportView report={report} onClose={() => setReport(null)} />}
+    </section>
+  );
+};
+
+export default TrendsPanel;
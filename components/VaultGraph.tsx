@@ -0,0 +1,140 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Globe, Link2, Hash, Sparkles, RefreshCw, ZoomIn, ZoomOut } from 'lucide-react';
+import { Note } from '../types';
+import { mlEngine } from '../services/mlEngine';
+import { buildVaultGraph, EdgeKind } from '../services/knowledgeGraph';
+import { forceLayout } from '../services/layouts';
+
+interface VaultGraphProps {
+  notes: Note[];
+  activeNoteId: string | null;
+  onOpenNote: (id: string) => void;
+}
+
+const EDGE_KINDS: { id: EdgeKind; label: string; icon: typeof Link2 }[] = [
+  { id: 'links', label: 'Links', icon: Link2 },
+  { id: 'keywords', label: 'Keywords', icon: Hash },
+  { id: 'clusters', label: 'Emotions', icon: Sparkles }
+];
+
+const VaultGraph: React.FC<VaultGraphProps> = ({ notes, activeNoteId, onOpenNote }) => {
+  const [kinds, setKinds] = useState<EdgeKind[]>(['links', 'keywords', 'clusters']);
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [transform, setTransform] = useState({ x: 0, y: 0, scale: 0.6 });
+  const [isDragging, setIsDragging] = useState(false);
+  const dragRef = useRef({ lastX: 0, lastY: 0 });
+
+  const edges = useMemo(() => buildVaultGraph(notes, kinds), [notes, kinds]);
+  const positions = useMemo(() => forceLayout(notes.map(n => n.id), edges), [notes, edges]);
+  const degree = useMemo(() => {
+    const counts = new Map<string, number>();
+    edges.forEach(e => [e.source, e.target].forEach(id => counts.set(id, (counts.get(id) || 0) + 1)));
+    return counts;
+  }, [edges]);
+  const neighbours = useMemo(() => {
+    if (!hovered) return null;
+    const ids = new Set([hovered]);
+    edges.forEach(e => { if (e.source === hovered) ids.add(e.target); if (e.target === hovered) ids.add(e.source); });
+    return ids;
+  }, [hovered, edges]);
+
+  const toggleKind = (kind: EdgeKind) =>
+    setKinds(prev => prev.includes(kind) ? prev.filter(k => k !== kind) : [...prev, kind]);
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (!isDragging) return;
+    const deltaX = e.clientX - dragRef.current.lastX;
+    const deltaY = e.clientY - dragRef.current.lastY;
+    setTransform(p => ({ ...p, x: p.x + deltaX, y: p.y + deltaY }));
+    dragRef.current = { lastX: e.clientX, lastY: e.clientY };
+  };
+
+  return (
+    <div
+      className="w-full h-full bg-slate-50 dark:bg-slate-950 relative overflow-hidden cursor-grab active:cursor-grabbing"
+      onMouseDown={(e) => { setIsDragging(true); dragRef.current = { lastX: e.clientX, lastY: e.clientY }; }}
+      onMouseMove={handleMouseMove}
+      onMouseUp={() => setIsDragging(false)}
+      onMouseLeave={() => setIsDragging(false)}
+      onWheel={(e) => setTransform(p => ({ ...p, scale: Math.min(Math.max(p.scale - e.deltaY * 0.001 * p.scale, 0.05), 5) }))}
+    >
+      <div className="absolute inset-0 bg-[radial-gradient(#8b5cf6_1.5px,transparent_1.5px)] [background-size:120px_120px] opacity-[0.06] pointer-events-none" />
+
+      <svg className="absolute inset-0 w-full h-full">
+        <g style={{ transform: `translate(50%, 50%) translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})` }}>
+          {edges.map(e => {
+            const a = positions.get(e.source)!, b = positions.get(e.target)!;
+            const dimmed = neighbours && !(neighbours.has(e.source) && neighbours.has(e.target));
+            const details = [
+              e.links ? `${e.links} link${e.links > 1 ? 's' : ''}` : '',
+              e.keywords.length ? `keywords: ${e.keywords.join(', ')}` : '',
+              e.clusters.length ? `emotions: ${e.clusters.join(', ')}` : ''
+            ].filter(Boolean).join(' · ');
+            return (
+              <line
+                key={`${e.source}-${e.target}`}
+                x1={a.x} y1={a.y} x2={b.x} y2={b.y}
+                stroke={e.links ? '#8b5cf6' : '#64748b'}
+                strokeWidth={1.5 + e.weight * 4}
+                strokeOpacity={dimmed ? 0.05 : e.links ? 0.7 : 0.3}
+                strokeDasharray={e.links ? undefined : '8 10'}
+              >
+                <title>{`weight ${e.weight.toFixed(2)} · ${details}`}</title>
+              </line>
+            );
+          })}
+          {notes.map(n => {
+            const p = positions.get(n.id)!;
+            const color = n.clusters[0] ? mlEngine.getEmotionColor(n.clusters[0]) : '#64748b';
+            const r = 22 + Math.min(degree.get(n.id) || 0, 12) * 2.5;
+            const dimmed = neighbours && !neighbours.has(n.id);
+            return (
+              <g
+                key={n.id}
+                transform={`translate(${p.x}, ${p.y})`}
+                className="cursor-pointer transition-opacity"
+                opacity={dimmed ? 0.2 : 1}
+                onMouseEnter={() => setHovered(n.id)}
+                onMouseLeave={() => setHovered(null)}
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={() => onOpenNote(n.id)}
+              >
+                <circle r={r + 14} fill={color} opacity={0.12} />
+                <circle r={r} fill={color} stroke={n.id === activeNoteId ? '#fff' : color} strokeOpacity={n.id === activeNoteId ? 1 : 0.55} strokeWidth={n.id === activeNoteId ? 6 : 3} />
+                <text y={r + 34} textAnchor="middle" className="fill-slate-700 dark:fill-slate-200 text-[22px] font-black uppercase tracking-tight select-none">{n.title}</text>
+              </g>
+            );
+          })}
+        </g>
+      </svg>
+
+      <div className="absolute bottom-10 left-1/2 -translate-x-1/2 flex items-center gap-8 px-12 py-6 bg-slate-900/90 dark:bg-slate-900/80 backdrop-blur-3xl rounded-[3.5rem] border border-white/10 shadow-[0_25px_80px_rgba(0,0,0,0.4)] z-50 animate-in slide-in-from-bottom-10 duration-700">
+        <div className="flex items-center gap-5">
+          <div className="p-4 rounded-2xl bg-slate-800"><Globe className="text-white" size={26} /></div>
+          <div className="flex flex-col">
+            <span className="text-[11px] font-black text-white uppercase tracking-[0.35em] leading-none">Vault Graph</span>
+            <span className="text-[9px] text-slate-400 uppercase tracking-widest font-bold mt-2">{notes.length} streams · {edges.length} connections</span>
+          </div>
+        </div>
+        <div className="w-px h-12 bg-white/10" />
+        <div className="flex items-center gap-4">
+          <button onClick={() => setTransform(p => ({ ...p, scale: p.scale * 1.2 }))} className="p-2 text-slate-400 hover:text-white transition-colors"><ZoomIn size={22} /></button>
+          <button onClick={() => setTransform(p => ({ ...p, scale: p.scale * 0.8 }))} className="p-2 text-slate-400 hover:text-white transition-colors"><ZoomOut size={22} /></button>
+          <div className="flex items-center bg-slate-800/60 rounded-2xl p-1">
+            {EDGE_KINDS.map(({ id, label, icon: Icon }) => (
+              <button
+                key={id}
+                onClick={() => toggleKind(id)}
+                className={`px-3 py-2 rounded-xl transition-all font-black text-[10px] uppercase tracking-[0.2em] flex items-center gap-2 ${kinds.includes(id) ? 'bg-brand-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                title={`Connect by ${label.toLowerCase()}`}
+              ><Icon size={14} /> {label}</button>
+            ))}
+          </div>
+          <button onClick={() => setTransform({ x: 0, y: 0, scale: 0.6 })} className="p-3.5 hover:bg-white/5 rounded-2xl text-brand-400 hover:text-brand-300 transition-all font-black text-[10px] uppercase tracking-[0.2em] flex items-center gap-2"><RefreshCw size={16} /> Recenter</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VaultGraph;
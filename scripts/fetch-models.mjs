@@ -0,0 +1,77 @@
+// Puts the model weights the app runs on-device under public/models so it serves them itself instead of loading
+// them from third-party hosts at runtime: the face and COCO-SSD image models, and Whisper tiny with the ONNX
+// runtime that executes it. Face models and the runtime ship in node_modules; the rest is downloaded once.
+// Files already present are left alone, so this is cheap to run before every dev or build.
+import { access, copyFile, mkdir, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+const OUT = path.resolve('public/models');
+
+const FACE_API_SOURCE = path.resolve('node_modules/@vladmandic/face-api/model');
+const FACE_API_FILES = [
+  'tiny_face_detector_model-weights_manifest.json', 'tiny_face_detector_model.bin',
+  'face_expression_model-weights_manifest.json', 'face_expression_model.bin'
+];
+
+const COCO_SSD_URL = 'https://storage.googleapis.com/tfjs-models/savedmodel/ssdlite_mobilenet_v2/';
+
+// transformers.js looks for models under <localModelPath>/<model id>/; the q8 ONNX files are what it loads on WASM.
+const WHISPER_MODEL = 'Xenova/whisper-tiny';
+const WHISPER_URL = `https://huggingface.co/${WHISPER_MODEL}/resolve/main/`;
+const WHISPER_FILES = [
+  'config.json', 'generation_config.json', 'preprocessor_config.json', 'tokenizer.json', 'tokenizer_config.json',
+  'onnx/encoder_model_quantized.onnx', 'onnx/decoder_model_merged_quantized.onnx'
+];
+
+const ONNX_RUNTIME_SOURCE = path.resolve('node_modules/@huggingface/transformers/dist');
+const ONNX_RUNTIME_FILES = ['ort-wasm-simd-threaded.jsep.mjs', 'ort-wasm-simd-threaded.jsep.wasm'];
+
+const exists = (file) => access(file).then(() => true, () => false);
+
+const download = async (url) => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`${url}: HTTP ${res.status}`);
+  return Buffer.from(await res.arrayBuffer());
+};
+
+// Written under a temporary name first, so an interrupted run never leaves a truncated file that looks complete.
+const writeAtomically = async (file, data) => {
+  await writeFile(`${file}.part`, data);
+  await rename(`${file}.part`, file);
+};
+
+const copyMissing = async (source, dir, files) => {
+  await mkdir(dir, { recursive: true });
+  for (const file of files) {
+    if (!(await exists(path.join(dir, file)))) await copyFile(path.join(source, file), path.join(dir, file));
+  }
+};
+
+// model.json is written last, so an interrupted download is retried on the next run.
+const fetchCocoSsd = async () => {
+  const dir = path.join(OUT, 'coco-ssd');
+  if (await exists(path.join(dir, 'model.json'))) return;
+  await mkdir(dir, { recursive: true });
+  const model = await download(`${COCO_SSD_URL}model.json`);
+  const shards = JSON.parse(model.toString('utf8')).weightsManifest.flatMap(group => group.paths);
+  for (const shard of shards) await writeAtomically(path.join(dir, shard), await download(COCO_SSD_URL + shard));
+  await writeAtomically(path.join(dir, 'model.json'), model);
+};
+
+const fetchWhisper = async () => {
+  const dir = path.join(OUT, WHISPER_MODEL);
+  await mkdir(path.join(dir, 'onnx'), { recursive: true });
+  for (const file of WHISPER_FILES) {
+    if (!(await exists(path.join(dir, file)))) await writeAtomically(path.join(dir, file), await download(WHISPER_URL + file));
+  }
+};
+
+try {
+  await copyMissing(FACE_API_SOURCE, path.join(OUT, 'face-api'), FACE_API_FILES);
+  await copyMissing(ONNX_RUNTIME_SOURCE, path.join(OUT, 'onnxruntime'), ONNX_RUNTIME_FILES);
+  await fetchCocoSsd();
+  await fetchWhisper();
+} catch (err) {
+  console.error(`Could not prepare the on-device models: ${err.message}`);
+  process.exit(1);
+}
@@ -0,0 +1,333 @@
+import { Note, Commit, Citation } from '../types';
+import { STOPWORDS } from './mlEngine';
+import { VaultRetriever, RetrievedPassage, termsOf } from './retrieval';
+import { getHeadCommit, getLineage, indexCommits } from './branching';
+import { findNoteByTitle } from './knowledgeGraph';
+import { diffLines } from './diff';
+import { DateRange, bucketStart, inRange, startOfDay } from './trends';
+import { ChatTurn, CompletionRequest } from './llm';
+import { InsightReport, noteReport, compareCommits, compareNotes, periodDigest, reportToMarkdown } from './reports';
+
+export interface BotReply {
+  text: string;
+  citations?: Citation[];
+  isInsight?: boolean;
+  context?: string[]; // Full source text behind each citation, for a language model to ground on
+}
+
+export interface AssistantContext {
+  notes: Note[];
+  activeNote?: Note;
+  retriever: VaultRetriever;
+  now?: number;
+}
+
+interface TimeFilter {
+  range: DateRange;
+  label: string;
+  rest: string; // The query with the time phrase removed
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SNIPPET_LENGTH = 180;
+const ANSWER_SENTENCES = 3;
+const CONTEXT_CHARS = 4000; // Per source handed to a language model
+
+const HELP = [
+  'I search every stream in the vault locally and answer with the passages I used, numbered so you can open them.',
+  '',
+  '• Ask anything — "when did I write about the move?"',
+  '• notes about <topic> [last month | this week | since 2024-05-01 …]',
+  '• compare this note with <title>',
+  '• compare versions — the open stream\'s head against its previous commit, or compare <commit> with <commit>',
+  '• what changed since yesterday / this week',
+  '• weekly review / monthly digest — which emotion clusters grew or faded',
+  '• insight report — deep analysis of the open stream'
+].join('\n');
+
+const words = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+/** Clips around the first query term so the quoted part is the relevant one. */
+const snippetOf = (text: string, terms: string[] = []) => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (flat.length <= SNIPPET_LENGTH) return flat;
+  const lower = flat.toLowerCase();
+  const hit = terms.map(t => lower.indexOf(t)).filter(i => i >= 0).sort((a, b) => a - b)[0] ?? 0;
+  const from = Math.max(0, Math.min(hit - 40, flat.length - SNIPPET_LENGTH));
+  return `${from > 0 ? '…' : ''}${flat.slice(from, from + SNIPPET_LENGTH).trim()}${from + SNIPPET_LENGTH < flat.length ? '…' : ''}`;
+};
+
+const cite = (p: { noteId: string; commitId: string; noteTitle: string; text: string; timestamp: number }, terms?: string[]): Citation =>
+  ({ noteId: p.noteId, commitId: p.commitId, title: p.noteTitle, snippet: snippetOf(p.text, terms), timestamp: p.timestamp });
+
+const clip = (text: string) => text.length > CONTEXT_CHARS ? `${text.slice(0, CONTEXT_CHARS)}…` : text;
+
+const formatDate = (ts: number) => new Date(ts).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+/** Pulls a relative or absolute time phrase out of the query. */
+export const parseTimeFilter = (query: string, now = Date.now()): TimeFilter | null => {
+  const today = startOfDay(now);
+  const week = bucketStart(now, 'week');
+  const month = bucketStart(now, 'month');
+  const prevMonth = new Date(month);
+  prevMonth.setMonth(prevMonth.getMonth() - 1);
+  const year = new Date(new Date(now).getFullYear(), 0, 1).getTime();
+
+  const phrases: [RegExp, (m: RegExpMatchArray) => DateRange | null][] = [
+    [/\bsince yesterday\b/, () => ({ from: today - DAY_MS })],
+    [/\b(?:since |from )?today\b/, () => ({ from: today })],
+    [/\byesterday\b/, () => ({ from: today - DAY_MS, to: today - 1 })],
+    [/\b(?:since |from )?this week\b/, () => ({ from: week })],
+    [/\blast week\b/, () => ({ from: week - 7 * DAY_MS, to: week - 1 })],
+    [/\b(?:since |from )?this month\b/, () => ({ from: month })],
+    [/\blast month\b/, () => ({ from: prevMonth.getTime(), to: month - 1 })],
+    [/\b(?:since |from )?this year\b/, () => ({ from: year })],
+    [/\b(?:in the |over the )?(?:last|past) (\d+) (day|week|month)s?\b/, m => ({ from: now - Number(m[1]) * { day: 1, week: 7, month: 30 }[m[2] as 'day' | 'week' | 'month'] * DAY_MS })],
+    [/\b(since|after|before) (\d{4}-\d{2}-\d{2}|\w+ \d{1,2}(?:,? \d{4})?)\b/, m => {
+      const ts = Date.parse(m[2]);
+      if (isNaN(ts)) return null;
+      return m[1] === 'before' ? { to: ts - 1 } : { from: ts };
+    }]
+  ];
+  const lower = query.toLowerCase();
+  for (const [pattern, toRange] of phrases) {
+    const m = lower.match(pattern);
+    const range = m && toRange(m);
+    if (!m || !range) continue;
+    return { range, label: m[0].trim(), rest: (lower.slice(0, m.index) + lower.slice(m.index! + m[0].length)).replace(/\s+/g, ' ').trim() };
+  }
+  return null;
+};
+
+/** Exact title first, then the title sharing the most words, then the note whose text best matches. */
+const resolveNote = (ctx: AssistantContext, phrase: string): Note | undefined => {
+  const name = phrase.replace(/^\[\[|\]\]$/g, '').replace(/^["'“”]+|["'“”?.!]+$/g, '').trim();
+  if (/^(this|the current|the open|current)( note| stream)?$/i.test(name)) return ctx.activeNote;
+  const exact = findNoteByTitle(ctx.notes, name);
+  if (exact) return exact;
+  const wanted = new Set(termsOf(name));
+  const byTitle = ctx.notes
+    .map(n => {
+      const terms = new Set(termsOf(n.title));
+      const shared = Array.from(wanted).filter(t => terms.has(t)).length;
+      return { note: n, score: shared / Math.max(new Set([...wanted, ...terms]).size, 1) };
+    })
+    .sort((a, b) => b.score - a.score)[0];
+  if (byTitle && byTitle.score >= 0.34) return byTitle.note;
+  const [best] = ctx.retriever.search(name, { limit: 1, minScore: 0.15 });
+  return best && ctx.notes.find(n => n.id === best.noteId);
+};
+
+const headOf = (note: Note): Commit | undefined => getHeadCommit(note.branches[note.activeBranch]);
+
+/** Extractive answer: the sentences from the top passages that share the most terms with the question. */
+const answer = (ctx: AssistantContext, question: string): BotReply => {
+  const passages = ctx.retriever.search(question, { limit: 6 });
+  if (passages.length === 0) {
+    return { text: ctx.retriever.size === 0
+      ? 'The vault is empty — write or import a stream and I can search it.'
+      : "I couldn't find anything in your vault about that. Try different words, or ask for notes about a topic." };
+  }
+  const qTerms = new Set(termsOf(question));
+  const sentences = passages.flatMap((p, pi) => (p.text.match(/[^.!?\n]+[.!?]*/g) || [p.text]).map(s => {
+    const terms = termsOf(s);
+    const hits = terms.filter(t => qTerms.has(t)).length;
+    return { text: s.trim(), passage: pi, score: hits / Math.sqrt(terms.length + 1) + p.score };
+  }))
+    .filter(s => s.text.length > 12)
+    .sort((a, b) => b.score - a.score);
+
+  const used: RetrievedPassage[] = [];
+  const lines: string[] = [];
+  for (const s of sentences) {
+    if (lines.length === ANSWER_SENTENCES) break;
+    if (lines.some(l => l.startsWith(s.text))) continue;
+    const p = passages[s.passage];
+    let n = used.indexOf(p) + 1;
+    if (n === 0) { used.push(p); n = used.length; }
+    lines.push(`${s.text} [${n}]`);
+  }
+  const notes = new Set(used.map(p => p.noteId)).size;
+  const surfaceTerms = Array.from(question.toLowerCase().matchAll(/\p{L}{3,}/gu), m => m[0]).filter(w => !STOPWORDS.has(w));
+  return {
+    text: `From ${used.length} passage${used.length > 1 ? 's' : ''} in ${notes} stream${notes > 1 ? 's' : ''}:\n\n${lines.join('\n\n')}`,
+    citations: used.map(p => cite(p, surfaceTerms)),
+    context: used.map(p => p.text)
+  };
+};
+
+const notesAbout = (ctx: AssistantContext, topic: string, time: TimeFilter | null): BotReply => {
+  const retriever = time ? new VaultRetriever(ctx.notes, time.range) : ctx.retriever;
+  const when = time ? ` ${time.label}` : '';
+  const hits = retriever.search(topic, { limit: 50 });
+  const best = new Map<string, RetrievedPassage>();
+  hits.forEach(p => { if (!best.has(p.noteId)) best.set(p.noteId, p); });
+  const top = Array.from(best.values()).slice(0, 6);
+  if (top.length === 0) return { text: `No streams about "${topic}"${when}.` };
+  const lines = top.map((p, i) => `[${i + 1}] ${p.noteTitle} — ${formatDate(p.timestamp)} (${Math.round(p.score * 100)}% match)`);
+  return {
+    text: `${top.length} stream${top.length > 1 ? 's' : ''} about "${topic}"${when}:\n\n${lines.join('\n')}`,
+    citations: top.map(p => cite(p, topic.toLowerCase().split(/\s+/))),
+    context: top.map(p => p.text)
+  };
+};
+
+/** Report as an insight message, citing the commits it was built from. */
+const reportReply = (ctx: AssistantContext, build: () => InsightReport): BotReply => {
+  let report: InsightReport;
+  try {
+    report = build();
+  } catch (err) {
+    return { text: (err as Error).message };
+  }
+  const sources = report.sources.flatMap(src => {
+    const note = ctx.notes.find(n => n.id === src.noteId);
+    const commit = note && indexCommits(note).get(src.commitId);
+    return commit ? [{ src, commit }] : [];
+  });
+  return {
+    text: reportToMarkdown(report, false),
+    isInsight: true,
+    citations: sources.map(({ src, commit }) => cite({ noteId: src.noteId, commitId: src.commitId, noteTitle: src.title, text: commit.content, timestamp: src.timestamp })),
+    context: sources.map(({ commit }) => clip(commit.content))
+  };
+};
+
+const compare = (ctx: AssistantContext, leftName: string, rightName: string): BotReply => {
+  const left = resolveNote(ctx, leftName), right = resolveNote(ctx, rightName);
+  if (!left || !right) {
+    const missing = !left ? leftName : rightName;
+    return { text: /^(this|current)/i.test(missing) ? 'Open a stream first, then ask me to compare it.' : `I couldn't find a stream matching "${missing}".` };
+  }
+  if (left.id === right.id) return { text: `Both names point to "${left.title}".` };
+  const a = headOf(left), b = headOf(right);
+  return reportReply(ctx, () => compareNotes(left, right, a && b ? ctx.retriever.similarity(a.content, b.content) : undefined));
+};
+
+// Commit ids are matched by prefix, as they are shown shortened everywhere.
+const findCommit = (note: Note, ref: string): Commit | undefined => {
+  const id = ref.trim().replace(/^[#@]/, '').toLowerCase();
+  if (!/^[0-9a-f-]{4,}$/.test(id)) return undefined;
+  return Array.from(indexCommits(note).values()).find(c => c.id.startsWith(id));
+};
+
+const compareVersions = (ctx: AssistantContext, refs?: [string, string]): BotReply => {
+  const note = ctx.activeNote;
+  if (!note) return { text: 'Open a stream first, then ask me to compare its versions.' };
+  if (refs) {
+    const [a, b] = refs.map(r => findCommit(note, r));
+    if (!a || !b) return { text: `I couldn't find commit "${!a ? refs[0] : refs[1]}" in "${note.title}".` };
+    return reportReply(ctx, () => compareCommits(note, a.id, b.id));
+  }
+  const head = headOf(note);
+  if (!head?.parentId) return { text: `"${note.title}" has only one commit so far.` };
+  return reportReply(ctx, () => compareCommits(note, head.parentId!, head.id));
+};
+
+const changesSince = (ctx: AssistantContext, time: TimeFilter): BotReply => {
+  const changed = ctx.notes.flatMap(note => {
+    const commits = Array.from(indexCommits(note).values()).filter(c => inRange(c.timestamp, time.range)).sort((x, y) => x.timestamp - y.timestamp);
+    if (commits.length === 0) return [];
+    const latest = commits[commits.length - 1];
+    const before = getLineage(note, latest.id).filter(c => time.range.from !== undefined && c.timestamp < time.range.from).pop();
+    let added = 0, removed = 0;
+    const addedLines: string[] = [];
+    diffLines(before?.content || '', latest.content).forEach(op => {
+      if (op.type === 'insert') { added += words(op.value); addedLines.push(op.value); }
+      if (op.type === 'delete') removed += words(op.value);
+    });
+    const mood = (c?: Commit) => c?.analysis?.emotions[0]?.label;
+    return [{ note, commits, latest, before, added, removed, addedText: addedLines.join(' '), moodBefore: mood(before), moodAfter: mood(latest) }];
+  }).sort((x, y) => y.latest.timestamp - x.latest.timestamp);
+
+  if (changed.length === 0) return { text: `Nothing changed ${time.label}.` };
+  const lines = changed.slice(0, 8).map((c, i) => {
+    const messages = Array.from(new Set(c.commits.map(m => m.message))).slice(0, 3).join(', ');
+    const mood = c.moodBefore && c.moodAfter && c.moodBefore !== c.moodAfter ? `, mood ${c.moodBefore} → ${c.moodAfter}` : '';
+    return `[${i + 1}] ${c.note.title}${c.before ? '' : ' (new)'} — ${c.commits.length} commit${c.commits.length > 1 ? 's' : ''} (${messages}), +${c.added}/−${c.removed} words${mood}`;
+  });
+  const total = changed.reduce((s, c) => s + c.commits.length, 0);
+  return {
+    text: `${total} commit${total > 1 ? 's' : ''} across ${changed.length} stream${changed.length > 1 ? 's' : ''} ${time.label}:\n\n${lines.join('\n')}${changed.length > 8 ? `\n\n…and ${changed.length - 8} more.` : ''}`,
+    citations: changed.slice(0, 8).map(c => cite({ noteId: c.note.id, commitId: c.latest.id, noteTitle: c.note.title, text: c.addedText || c.latest.content, timestamp: c.latest.timestamp })),
+    context: changed.slice(0, 8).map(c => clip(c.addedText ? `Added: ${c.addedText}` : c.latest.content))
+  };
+};
+
+/** Routes a chat message to a command or to retrieval over the vault. */
+export const respond = (query: string, ctx: AssistantContext): BotReply => {
+  const q = query.trim();
+  const lower = q.toLowerCase();
+  const now = ctx.now ?? Date.now();
+
+  if (/^(help|commands|what can you do)\b/.test(lower)) return { text: HELP };
+  if (/^(hi|hello|hey)\b[\s!.]*$/.test(lower)) return { text: `Hello. I have ${ctx.notes.length} stream${ctx.notes.length === 1 ? '' : 's'} indexed. Ask me anything about them, or type "help".` };
+
+  // Anchored like the other commands, so a question that merely mentions a review or digest still goes to retrieval.
+  const period = lower.match(/^(?:(daily|weekly|monthly) )?(?:vault )?(?:review|digest)\b/);
+  if (period) {
+    const time = parseTimeFilter(lower, now);
+    const days = period[1] === 'daily' ? 1 : period[1] === 'monthly' ? 30 : 7;
+    const range = time?.range.from !== undefined
+      ? { from: time.range.from, to: Math.min(time.range.to ?? now, now) }
+      : { from: startOfDay(now) - (days - 1) * DAY_MS, to: now };
+    return reportReply(ctx, () => periodDigest(ctx.notes, range, time?.label || `over the last ${days === 1 ? 'day' : `${days} days`}`));
+  }
+
+  const versions = q.match(/\bcompare\s+([#@]?[0-9a-f-]{4,})\s+(?:with|to|and|vs\.?|versus)\s+([#@]?[0-9a-f-]{4,})\s*$/i);
+  if (versions && ctx.activeNote && findCommit(ctx.activeNote, versions[1]) && findCommit(ctx.activeNote, versions[2])) {
+    return compareVersions(ctx, [versions[1], versions[2]]);
+  }
+  if (/\bcompare\b.*\b(versions?|commits?|revisions?)\b/.test(lower)) return compareVersions(ctx);
+
+  if (/\b(insight|report)\b/.test(lower) || /^(analy[sz]e|summari[sz]e)( this| the current)?( note| stream)?$/.test(lower)) {
+    if (!ctx.activeNote) return { text: 'To generate a cognitive report, please select a specific thought stream from the sidebar first.' };
+    const note = ctx.activeNote;
+    return reportReply(ctx, () => noteReport(note));
+  }
+
+  if (/\bwhat(?:'s| has| have)? changed\b|\bwhat(?:'s| is) new\b/.test(lower)) {
+    return changesSince(ctx, parseTimeFilter(lower, now) || { range: { from: startOfDay(now) - DAY_MS }, label: 'since yesterday', rest: '' });
+  }
+
+  const comparison = q.match(/\bcompare\s+(.+?)\s+(?:with|to|and|vs\.?|versus)\s+(.+)$/i);
+  if (comparison) return compare(ctx, comparison[1], comparison[2]);
+
+  const topic = q.match(/\b(?:notes?|streams?|entries|thoughts|writing)\s+(?:about|on|regarding|mentioning|related to)\s+(.+)$/i);
+  if (topic) {
+    const time = parseTimeFilter(topic[1], now);
+    const subject = (time ? time.rest : topic[1].toLowerCase()).replace(/[?.!]+$/, '').trim();
+    if (subject) return notesAbout(ctx, subject, time);
+  }
+
+  return answer(ctx, q);
+};
+
+const CHAT_SYSTEM = [
+  'You are CogniBot, the assistant inside MemoryLane, a private journaling app.',
+  'Answer only from the numbered sources in the message and cite them inline as [n].',
+  'If the sources do not contain the answer, say so plainly. Be concise and warm.'
+].join(' ');
+
+const INSIGHT_SYSTEM = [
+  'You are CogniBot, the assistant inside MemoryLane, a private journaling app.',
+  "Rewrite the local analysis report on the user's notes as a short reflective insight: emotional arc, recurring themes and one gentle suggestion.",
+  'Keep its numbers, do not invent new ones, and quote the numbered sources sparingly, citing them as [n].'
+].join(' ');
+
+/**
+ * Prompt for a language model: the question, the sources behind the local reply and the local reply itself
+ * as a baseline. Only replies with sources are worth sending; the rest stay rule-based.
+ */
+export const toCompletion = (query: string, reply: BotReply, history: ChatTurn[] = []): CompletionRequest | null => {
+  if (!reply.context?.length) return null;
+  const sources = reply.context.map((text, i) => `[${i + 1}] ${reply.citations?.[i]?.title || 'Source'}\n${text}`).join('\n\n');
+  return {
+    system: reply.isInsight ? INSIGHT_SYSTEM : CHAT_SYSTEM,
+    messages: [
+      ...history.slice(-6),
+      { role: 'user', content: `${query}\n\nSources:\n${sources}\n\nLocal analysis:\n${reply.text}` }
+    ],
+    fallback: reply.text
+  };
+};
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { createBranch, findCommonAncestor, mergeBranches, resolveMerge, threeWayMerge } from './branching';
+import { makeCommit, makeNote } from '../test/fixtures';
+
+describe('threeWayMerge', () => {
+  it('takes non-overlapping edits from both sides', () => {
+    const hunks = threeWayMerge('a\nb\nc', 'A\nb\nc', 'a\nb\nC');
+    expect(hunks).toEqual([{ type: 'resolved', lines: ['A', 'b', 'C'] }]);
+  });
+
+  it('accepts the same edit made on both sides', () => {
+    expect(threeWayMerge('a\nb', 'a\nx', 'a\nx')).toEqual([{ type: 'resolved', lines: ['a', 'x'] }]);
+  });
+
+  it('reports overlapping edits as a conflict with all three versions', () => {
+    const hunks = threeWayMerge('a\nb\nc', 'a\nours\nc', 'a\ntheirs\nc');
+    expect(hunks).toEqual([
+      { type: 'resolved', lines: ['a'] },
+      { type: 'conflict', base: ['b'], ours: ['ours'], theirs: ['theirs'] },
+      { type: 'resolved', lines: ['c'] }
+    ]);
+  });
+
+  it('keeps lines appended on one side', () => {
+    expect(threeWayMerge('a', 'a', 'a\nb')).toEqual([{ type: 'resolved', lines: ['a', 'b'] }]);
+  });
+});
+
+describe('resolveMerge', () => {
+  const hunks = threeWayMerge('a\nb\nc', 'a\nours\nc', 'a\ntheirs\nc');
+
+  it('applies one choice per conflict', () => {
+    expect(resolveMerge(hunks, ['theirs'])).toBe('a\ntheirs\nc');
+    expect(resolveMerge(hunks, ['both'])).toBe('a\nours\ntheirs\nc');
+  });
+
+  it('defaults to ours', () => {
+    expect(resolveMerge(hunks, [])).toBe('a\nours\nc');
+  });
+});
+
+describe('branches', () => {
+  const root = makeCommit('c1', 'a\nb\nc');
+  const ours = makeCommit('c2', 'A\nb\nc', { parentId: 'c1' });
+  const theirs = makeCommit('c3', 'a\nb\nC', { parentId: 'c1' });
+
+  it('finds the fork point as the common ancestor', () => {
+    expect(findCommonAncestor(makeNote('n1', { main: [root, ours], feature: [root, theirs] }), 'c2', 'c3')?.id).toBe('c1');
+  });
+
+  it('follows merge parents when looking for the ancestor', () => {
+    const merged = makeCommit('c4', 'A\nb\nC', { parentId: 'c2', mergeParentId: 'c3' });
+    const later = makeCommit('c5', 'A\nb\nC\nd', { parentId: 'c3' });
+    expect(findCommonAncestor(makeNote('n1', { main: [root, ours, merged], feature: [root, theirs, later] }), 'c4', 'c5')?.id).toBe('c3');
+  });
+
+  it('merges branch heads against their common ancestor', () => {
+    const result = mergeBranches(makeNote('n1', { main: [root, ours], feature: [root, theirs] }), 'main', 'feature');
+    expect(result.conflicts).toBe(0);
+    expect(resolveMerge(result.hunks, [])).toBe('A\nb\nC');
+  });
+
+  it('creates a branch from the lineage of a commit', () => {
+    const forked = createBranch(makeNote('n1', { main: [root, ours] }), ' draft ', 'c1');
+    expect(forked.activeBranch).toBe('draft');
+    expect(forked.branches.draft.commits.map(c => c.id)).toEqual(['c1']);
+    expect(() => createBranch(forked, 'draft', 'c1')).toThrow('already exists');
+  });
+});
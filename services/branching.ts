@@ -0,0 +1,180 @@
+import { Note, Commit, Branch, Asset, MergeHunk, MergeResult } from '../types';
+import { matchSequences, splitLines } from './diff';
+
+export type ConflictChoice = 'ours' | 'theirs' | 'both';
+
+/** Every commit reachable from any branch, keyed by id. */
+export const indexCommits = (note: Note): Map<string, Commit> => {
+  const index = new Map<string, Commit>();
+  Object.values(note.branches).forEach(b => b.commits.forEach(c => index.set(c.id, c)));
+  return index;
+};
+
+export const getHeadCommit = (branch: Branch): Commit | undefined =>
+  branch.commits.find(c => c.id === branch.head);
+
+/** Walks the first-parent chain back to the genesis commit, oldest first. */
+export const getLineage = (note: Note, commitId: string): Commit[] => {
+  const index = indexCommits(note);
+  const chain: Commit[] = [];
+  let cursor = index.get(commitId);
+  while (cursor) {
+    chain.unshift(cursor);
+    cursor = cursor.parentId ? index.get(cursor.parentId) : undefined;
+  }
+  return chain;
+};
+
+const ancestorsInOrder = (index: Map<string, Commit>, commitId: string): string[] => {
+  const seen = new Set<string>();
+  const order: string[] = [];
+  const queue = [commitId];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    order.push(id);
+    const c = index.get(id);
+    if (c?.parentId) queue.push(c.parentId);
+    if (c?.mergeParentId) queue.push(c.mergeParentId);
+  }
+  return order;
+};
+
+/** Nearest commit reachable from both heads, following both parents of merge commits. */
+export const findCommonAncestor = (note: Note, a: string, b: string): Commit | null => {
+  const index = indexCommits(note);
+  const fromA = new Set(ancestorsInOrder(index, a));
+  const shared = ancestorsInOrder(index, b).find(id => fromA.has(id));
+  return shared ? index.get(shared) || null : null;
+};
+
+export const createBranch = (note: Note, name: string, fromCommitId: string): Note => {
+  const branchName = name.trim();
+  if (!branchName) throw new Error('Branch name cannot be empty.');
+  if (note.branches[branchName]) throw new Error(`Branch "${branchName}" already exists.`);
+
+  const commits = getLineage(note, fromCommitId);
+  if (commits.length === 0) throw new Error(`Commit ${fromCommitId} not found.`);
+
+  return {
+    ...note,
+    activeBranch: branchName,
+    updatedAt: Date.now(),
+    branches: { ...note.branches, [branchName]: { name: branchName, commits, head: fromCommitId } }
+  };
+};
+
+export const switchBranch = (note: Note, name: string): Note => {
+  if (!note.branches[name]) throw new Error(`Branch "${name}" does not exist.`);
+  return { ...note, activeBranch: name };
+};
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((l, i) => l === b[i]);
+
+/** Classic diff3: stable regions are lines the base shares with both sides. */
+export const threeWayMerge = (base: string, ours: string, theirs: string): MergeHunk[] => {
+  const o = splitLines(base);
+  const a = splitLines(ours);
+  const b = splitLines(theirs);
+  const toOurs = matchSequences(o, a);
+  const toTheirs = matchSequences(o, b);
+
+  const hunks: MergeHunk[] = [];
+  const pushResolved = (lines: string[]) => {
+    if (lines.length === 0) return;
+    const last = hunks[hunks.length - 1];
+    if (last?.type === 'resolved') last.lines.push(...lines);
+    else hunks.push({ type: 'resolved', lines: [...lines] });
+  };
+
+  let i = 0, j = 0, k = 0;
+  while (i < o.length || j < a.length || k < b.length) {
+    let next = i;
+    while (next < o.length && (toOurs[next] === undefined || toTheirs[next] === undefined)) next++;
+    const nextA = next < o.length ? toOurs[next]! : a.length;
+    const nextB = next < o.length ? toTheirs[next]! : b.length;
+
+    if (next === i && nextA === j && nextB === k) {
+      pushResolved([o[i]]);
+      i++; j++; k++;
+      continue;
+    }
+
+    const baseChunk = o.slice(i, next);
+    const oursChunk = a.slice(j, nextA);
+    const theirsChunk = b.slice(k, nextB);
+    if (sameLines(oursChunk, baseChunk)) pushResolved(theirsChunk);
+    else if (sameLines(theirsChunk, baseChunk) || sameLines(oursChunk, theirsChunk)) pushResolved(oursChunk);
+    else hunks.push({ type: 'conflict', base: baseChunk, ours: oursChunk, theirs: theirsChunk });
+
+    i = next; j = nextA; k = nextB;
+  }
+  return hunks;
+};
+
+export const mergeBranches = (note: Note, target: string, source: string): MergeResult => {
+  const ours = note.branches[target] && getHeadCommit(note.branches[target]);
+  const theirs = note.branches[source] && getHeadCommit(note.branches[source]);
+  if (!ours || !theirs) throw new Error('Both branches need a head commit to merge.');
+
+  const base = findCommonAncestor(note, ours.id, theirs.id);
+  const hunks = threeWayMerge(base?.content || '', ours.content, theirs.content);
+  return { base, ours, theirs, hunks, conflicts: hunks.filter(h => h.type === 'conflict').length };
+};
+
+/** Applies one choice per conflict hunk, in hunk order. */
+export const resolveMerge = (hunks: MergeHunk[], choices: ConflictChoice[]): string => {
+  let conflictIdx = 0;
+  return hunks.flatMap(h => {
+    if (h.type === 'resolved') return h.lines;
+    const choice = choices[conflictIdx++] || 'ours';
+    if (choice === 'theirs') return h.theirs;
+    if (choice === 'both') return [...h.ours, ...h.theirs];
+    return h.ours;
+  }).join('\n');
+};
+
+/** Appends a two-parent commit to `target` and makes it the head. */
+export const commitMerge = (note: Note, target: string, source: string, merge: Omit<Commit, 'parentId' | 'mergeParentId'>): Note => {
+  const branch = note.branches[target];
+  const ours = getHeadCommit(branch);
+  const theirs = getHeadCommit(note.branches[source]);
+  const mergeCommit: Commit = { ...merge, parentId: ours?.id || null, mergeParentId: theirs?.id || null };
+  return {
+    ...note,
+    activeBranch: target,
+    updatedAt: Date.now(),
+    branches: { ...note.branches, [target]: { ...branch, commits: [...branch.commits, mergeCommit], head: mergeCommit.id } }
+  };
+};
+
+export const unionAssets = (...lists: (Asset[] | undefined)[]): Asset[] => {
+  const byId = new Map<string, Asset>();
+  lists.forEach(list => list?.forEach(a => { if (!byId.has(a.id)) byId.set(a.id, a); }));
+  return Array.from(byId.values());
+};
+
+/** Restores an older commit's snapshot as a new head commit, keeping history intact. */
+export const revertToCommit = (note: Note, commitId: string): Note => {
+  const target = indexCommits(note).get(commitId);
+  if (!target) throw new Error(`Commit ${commitId} not found.`);
+  const branch = note.branches[note.activeBranch];
+  const revert: Commit = {
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    content: target.content,
+    author: 'User',
+    message: `Revert to ${target.id.slice(0, 8)}`,
+    parentId: branch.head,
+    assets: [...(target.assets || [])],
+    analysis: target.analysis,
+    autoMap: target.autoMap
+  };
+  return {
+    ...note,
+    updatedAt: Date.now(),
+    clusters: target.analysis ? target.analysis.emotions.filter(e => e.impact > 0.66).map(e => e.label) : note.clusters,
+    branches: { ...note.branches, [note.activeBranch]: { ...branch, commits: [...branch.commits, revert], head: revert.id } }
+  };
+};
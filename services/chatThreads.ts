@@ -0,0 +1,101 @@
+import { Note, Commit, ChatThread, ChatMessage, Citation } from '../types';
+import { mlEngine } from './mlEngine';
+import { getHeadCommit } from './branching';
+import { slugify } from './markdown';
+
+export const GREETING = "CogniBot Local Node initialized. I search your whole vault privately on this device — ask a question, or type 'help' for commands.";
+
+const UNTITLED = 'New conversation';
+const TITLE_CHARS = 48;
+
+export const createThread = (noteId: string | null): ChatThread => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(), title: UNTITLED, noteId, createdAt: now, updatedAt: now,
+    messages: [{ role: 'bot', text: GREETING, timestamp: now }]
+  };
+};
+
+/** Threads keep their placeholder title until the first question, which then names them. */
+export const titleThread = (thread: ChatThread): ChatThread => {
+  if (thread.title !== UNTITLED) return thread;
+  const first = thread.messages.find(m => m.role === 'user')?.text.replace(/\s+/g, ' ').trim();
+  if (!first) return thread;
+  return { ...thread, title: first.length > TITLE_CHARS ? `${first.slice(0, TITLE_CHARS - 1)}…` : first };
+};
+
+const formatStamp = (ts: number) => new Date(ts).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const sourceLines = (citations: Citation[]) =>
+  citations.map((c, i) => `[${i + 1}] ${c.title} (${c.commitId.slice(0, 7)}, ${new Date(c.timestamp).toLocaleDateString()})`);
+
+export const threadToMarkdown = (thread: ChatThread, notes: Note[]): string => {
+  const scope = thread.noteId ? notes.find(n => n.id === thread.noteId)?.title || 'Removed stream' : 'Whole vault';
+  const lines = [`# ${thread.title}`, '', `*${scope} · started ${formatStamp(thread.createdAt)}*`];
+  thread.messages.filter(m => m.text !== GREETING).forEach(m => {
+    lines.push('', `## ${m.role === 'user' ? 'You' : 'CogniBot'} · ${formatStamp(m.timestamp)}`, '', m.text.trim());
+    if (m.citations?.length) lines.push('', ...sourceLines(m.citations).map(l => `- ${l}`));
+  });
+  return `${lines.join('\n')}\n`;
+};
+
+export const exportThreadMarkdown = (thread: ChatThread, notes: Note[]): { blob: Blob; fileName: string } => ({
+  blob: new Blob([threadToMarkdown(thread, notes)], { type: 'text/markdown' }),
+  fileName: `CogniBot_${slugify(thread.title)}.md`
+});
+
+// Citation markers only mean something next to the sources they point at.
+const answerText = (message: ChatMessage) =>
+  message.citations?.length ? `${message.text.trim()}\n\nSources:\n${sourceLines(message.citations).join('\n')}` : message.text.trim();
+
+const ANSWER_COMMIT = 'Saved chat answer';
+
+/** Appends a bot answer to the active branch as a new analyzed commit. */
+export const answerAsCommit = async (note: Note, message: ChatMessage): Promise<Note> => {
+  const branch = note.branches[note.activeBranch];
+  const head = getHeadCommit(branch);
+  const content = head?.content.trim() ? `${head.content.trimEnd()}\n\n${answerText(message)}` : answerText(message);
+  const assets = head?.assets || [];
+  const analysis = await mlEngine.analyzeNote(content, note.config.preferredModel, assets);
+  const commit: Commit = {
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    content,
+    author: 'CogniBot',
+    message: ANSWER_COMMIT,
+    parentId: branch.head,
+    assets: [...assets],
+    analysis,
+    autoMap: mlEngine.generateHierarchicalMap(content, assets, analysis.spans, head?.autoMap)
+  };
+  return {
+    ...note,
+    updatedAt: Date.now(),
+    clusters: analysis.emotions.filter(e => e.impact > 0.66).map(e => e.label),
+    branches: { ...note.branches, [note.activeBranch]: { ...branch, commits: [...branch.commits, commit], head: commit.id } }
+  };
+};
+
+/** A new single-commit note holding a bot answer, titled after the question it answered. */
+export const answerAsNote = async (message: ChatMessage, title: string): Promise<Note> => {
+  const content = answerText(message);
+  const analysis = await mlEngine.analyzeNote(content, 'lstm-neural');
+  const now = Date.now();
+  const cid = crypto.randomUUID();
+  const genesis: Commit = {
+    id: cid, timestamp: now, content, author: 'CogniBot', message: ANSWER_COMMIT, parentId: null,
+    assets: [], analysis, autoMap: mlEngine.generateHierarchicalMap(content, [], analysis.spans)
+  };
+  return {
+    id: crypto.randomUUID(),
+    title,
+    activeBranch: 'main',
+    tags: [],
+    clusters: analysis.emotions.filter(e => e.impact > 0.66).map(e => e.label),
+    createdAt: now,
+    updatedAt: now,
+    type: 'text',
+    config: { preferredModel: 'lstm-neural', recommendedModel: mlEngine.getRecommendation(content), is3D: false },
+    branches: { main: { name: 'main', head: cid, commits: [genesis] } }
+  };
+};
@@ -0,0 +1,483 @@
+import * as tf from '@tensorflow/tfjs';
+import { MLModelType, TrainingExample, TrainReport } from '../types';
+import { annotateTokens, stem } from './sentiment';
+
+/** Per-label probabilities, one-vs-rest, so a text can carry several emotions at once. */
+export type LabelProbabilities = Record<string, number>;
+
+export interface EmotionClassifier {
+  readonly type: MLModelType;
+  report: TrainReport | null;
+  train(examples: TrainingExample[], labels: string[]): Promise<TrainReport>;
+  predict(text: string): Promise<LabelProbabilities>;
+}
+
+const SEED = 1337;
+const EPS = 1e-7;
+
+// Deterministic PRNG so bootstraps, k-means seeds and TF.js initialisers repeat across runs.
+export const mulberry32 = (seed: number) => () => {
+  seed |= 0; seed = seed + 0x6D2B79F5 | 0;
+  let t = Math.imul(seed ^ seed >>> 15, 1 | seed);
+  t = t + Math.imul(t ^ t >>> 7, 61 | t) ^ t;
+  return ((t ^ t >>> 14) >>> 0) / 4294967296;
+};
+
+// Stemmed tokens; words in a negation scope become distinct "not_" features so "not sad" is not Sadness.
+export const tokenizeText = (text: string): string[] =>
+  annotateTokens(text)
+    .map(t => t.negated ? `not_${t.stem}` : t.stem)
+    .filter(w => w.length > 1);
+
+export class Vocabulary {
+  private index: Map<string, number>;
+
+  private constructor(words: string[]) {
+    this.index = new Map(words.map((w, i) => [w, i]));
+  }
+
+  static build(texts: string[], maxSize = 2000): Vocabulary {
+    const counts = new Map<string, number>();
+    texts.forEach(t => tokenizeText(t).forEach(w => counts.set(w, (counts.get(w) || 0) + 1)));
+    const words = Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, maxSize)
+      .map(([w]) => w);
+    return new Vocabulary(words);
+  }
+
+  get size() { return this.index.size; }
+
+  lookup(word: string): number | undefined { return this.index.get(word); }
+
+  /** Term ids present in the text (duplicates kept for frequency-based models). */
+  ids(text: string): number[] {
+    return tokenizeText(text).map(w => this.index.get(w)).filter((i): i is number => i !== undefined);
+  }
+
+  bag(text: string): Float32Array {
+    const vec = new Float32Array(this.size);
+    this.ids(text).forEach(i => { vec[i] = 1; });
+    return vec;
+  }
+
+  /** Ids shifted by 2: 0 is padding, 1 is out-of-vocabulary. */
+  sequences(text: string, length: number): number[][] {
+    const ids = tokenizeText(text).map(w => (this.index.get(w) ?? -1) + 2);
+    const windows: number[][] = [];
+    for (let start = 0; start < Math.max(ids.length, 1); start += length) {
+      const window = ids.slice(start, start + length);
+      windows.push([...window, ...new Array(length - window.length).fill(0)]);
+    }
+    return windows;
+  }
+}
+
+const labelMatrix = (examples: TrainingExample[], labels: string[]) =>
+  examples.map(e => labels.map(l => e.labels.includes(l) ? 1 : 0));
+
+/** Mean binary cross-entropy and label-wise accuracy of a classifier on a set of examples. */
+export const evaluateClassifier = async (classifier: EmotionClassifier, examples: TrainingExample[], labels: string[]) => {
+  let loss = 0;
+  let correct = 0;
+  let total = 0;
+  for (const example of examples) {
+    const probs = await classifier.predict(example.text);
+    labels.forEach(label => {
+      const truth = example.labels.includes(label) ? 1 : 0;
+      const p = Math.min(Math.max(probs[label] ?? 0, EPS), 1 - EPS);
+      loss -= truth * Math.log(p) + (1 - truth) * Math.log(1 - p);
+      if ((p >= 0.5 ? 1 : 0) === truth) correct++;
+      total++;
+    });
+  }
+  return { loss: total ? loss / total : 0, accuracy: total ? correct / total : 0 };
+};
+
+const finishReport = async (classifier: EmotionClassifier, examples: TrainingExample[], labels: string[]): Promise<TrainReport> => {
+  const { loss, accuracy } = await evaluateClassifier(classifier, examples, labels);
+  return { loss, accuracy, examples: examples.length, trainedAt: Date.now() };
+};
+
+const toRecord = (labels: string[], values: ArrayLike<number>): LabelProbabilities =>
+  Object.fromEntries(labels.map((l, i) => [l, values[i]]));
+
+const seededOrder = <T>(items: T[], rand: () => number): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(rand() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+// --- TF.js models ---
+
+abstract class TfClassifier implements EmotionClassifier {
+  abstract readonly type: MLModelType;
+  report: TrainReport | null = null;
+  protected model: tf.LayersModel | null = null;
+  protected vocab: Vocabulary = Vocabulary.build([]);
+  protected labels: string[] = [];
+
+  protected abstract buildModel(outputs: number): tf.LayersModel;
+  protected abstract encode(texts: string[]): tf.Tensor;
+  protected encodeForPredict(text: string): tf.Tensor { return this.encode([text]); }
+  protected abstract readonly epochs: number;
+
+  async train(examples: TrainingExample[], labels: string[]): Promise<TrainReport> {
+    this.labels = labels;
+    const ordered = seededOrder(examples, mulberry32(SEED));
+    this.vocab = Vocabulary.build(ordered.map(e => e.text));
+    this.model?.dispose();
+    this.model = this.buildModel(labels.length);
+    this.model.compile({ optimizer: tf.train.adam(0.02), loss: 'binaryCrossentropy' });
+
+    const xs = this.encode(ordered.map(e => e.text));
+    const ys = tf.tensor2d(labelMatrix(ordered, labels), [ordered.length, labels.length]);
+    try {
+      await this.model.fit(xs, ys, { epochs: this.epochs, batchSize: 16, shuffle: false, verbose: 0 });
+    } finally {
+      xs.dispose();
+      ys.dispose();
+    }
+    this.report = await finishReport(this, examples, labels);
+    return this.report;
+  }
+
+  async predict(text: string): Promise<LabelProbabilities> {
+    if (!this.model) return toRecord(this.labels, new Array(this.labels.length).fill(0));
+    const out = tf.tidy(() => {
+      const preds = this.model!.predict(this.encodeForPredict(text)) as tf.Tensor2D;
+      return preds.mean(0);
+    });
+    const values = await out.data();
+    out.dispose();
+    return toRecord(this.labels, values);
+  }
+}
+
+class LogisticRegressionClassifier extends TfClassifier {
+  readonly type = 'logistic-regression' as const;
+  protected readonly epochs = 80;
+
+  protected buildModel(outputs: number) {
+    return tf.sequential({
+      layers: [tf.layers.dense({
+        inputShape: [Math.max(this.vocab.size, 1)], units: outputs, activation: 'sigmoid',
+        kernelInitializer: tf.initializers.glorotUniform({ seed: SEED }),
+        kernelRegularizer: tf.regularizers.l2({ l2: 1e-4 })
+      })]
+    });
+  }
+
+  protected encode(texts: string[]) {
+    const width = Math.max(this.vocab.size, 1);
+    const data = new Float32Array(texts.length * width);
+    texts.forEach((t, i) => data.set(this.vocab.bag(t), i * width));
+    return tf.tensor2d(data, [texts.length, width]);
+  }
+}
+
+const SEQUENCE_LENGTH = 48;
+
+class LSTMClassifier extends TfClassifier {
+  readonly type = 'lstm-neural' as const;
+  protected readonly epochs = 30;
+
+  protected buildModel(outputs: number) {
+    return tf.sequential({
+      layers: [
+        tf.layers.embedding({
+          inputDim: this.vocab.size + 2, outputDim: 16, inputLength: SEQUENCE_LENGTH, maskZero: true,
+          embeddingsInitializer: tf.initializers.randomUniform({ minval: -0.05, maxval: 0.05, seed: SEED })
+        }),
+        tf.layers.lstm({
+          units: 16,
+          kernelInitializer: tf.initializers.glorotUniform({ seed: SEED + 1 }),
+          recurrentInitializer: tf.initializers.orthogonal({ gain: 1, seed: SEED + 2 })
+        }),
+        tf.layers.dense({ units: outputs, activation: 'sigmoid', kernelInitializer: tf.initializers.glorotUniform({ seed: SEED + 3 }) })
+      ]
+    });
+  }
+
+  // Training sees each text's first window; prediction averages over every window of a long text.
+  protected encode(texts: string[]) {
+    return tf.tensor2d(texts.map(t => this.vocab.sequences(t, SEQUENCE_LENGTH)[0]), [texts.length, SEQUENCE_LENGTH], 'int32');
+  }
+
+  protected encodeForPredict(text: string) {
+    const windows = this.vocab.sequences(text, SEQUENCE_LENGTH);
+    return tf.tensor2d(windows, [windows.length, SEQUENCE_LENGTH], 'int32');
+  }
+}
+
+// --- Classical models ---
+
+class NaiveBayesClassifier implements EmotionClassifier {
+  readonly type = 'naive-bayes' as const;
+  report: TrainReport | null = null;
+  private vocab: Vocabulary = Vocabulary.build([]);
+  private labels: string[] = [];
+  private logPrior: { pos: number; neg: number }[] = [];
+  private logLikelihood: { pos: Float64Array; neg: Float64Array }[] = [];
+
+  async train(examples: TrainingExample[], labels: string[]): Promise<TrainReport> {
+    this.labels = labels;
+    this.vocab = Vocabulary.build(examples.map(e => e.text));
+    const docs = examples.map(e => this.vocab.ids(e.text));
+    const v = this.vocab.size;
+
+    this.logPrior = [];
+    this.logLikelihood = [];
+    labels.forEach(label => {
+      const pos = new Float64Array(v).fill(1);
+      const neg = new Float64Array(v).fill(1);
+      let posDocs = 0;
+      examples.forEach((e, i) => {
+        const target = e.labels.includes(label) ? pos : neg;
+        if (target === pos) posDocs++;
+        docs[i].forEach(id => { target[id]++; });
+      });
+      const posTotal = pos.reduce((a, b) => a + b, 0);
+      const negTotal = neg.reduce((a, b) => a + b, 0);
+      this.logPrior.push({
+        pos: Math.log((posDocs + 1) / (examples.length + 2)),
+        neg: Math.log((examples.length - posDocs + 1) / (examples.length + 2))
+      });
+      this.logLikelihood.push({ pos: pos.map(c => Math.log(c / posTotal)), neg: neg.map(c => Math.log(c / negTotal)) });
+    });
+
+    this.report = await finishReport(this, examples, labels);
+    return this.report;
+  }
+
+  async predict(text: string): Promise<LabelProbabilities> {
+    const ids = this.vocab.ids(text);
+    // Likelihood ratios are tempered by sqrt(n) so long notes do not saturate to 0/1.
+    const temper = 1 / Math.sqrt(Math.max(ids.length, 1));
+    return toRecord(this.labels, this.labels.map((_, li) => {
+      const { pos, neg } = this.logLikelihood[li];
+      const evidence = ids.reduce((sum, id) => sum + pos[id] - neg[id], 0) * temper;
+      const logOdds = this.logPrior[li].pos - this.logPrior[li].neg + evidence;
+      return 1 / (1 + Math.exp(-logOdds));
+    }));
+  }
+}
+
+// Leaves carry only `p`; split nodes also name the feature and both subtrees.
+interface TreeNode { p: number; feature?: number; present?: TreeNode; absent?: TreeNode }
+
+interface TreeOptions { maxDepth: number; minSamples: number; featureFraction: number; rand: () => number }
+
+const gini = (pos: number, n: number) => n === 0 ? 0 : 1 - (pos / n) ** 2 - ((n - pos) / n) ** 2;
+
+/** CART over binary word-presence features with Gini impurity. */
+const growTree = (rows: number[], features: Set<number>[], y: number[], depth: number, opts: TreeOptions): TreeNode => {
+  const pos = rows.reduce((s, r) => s + y[r], 0);
+  const leaf: TreeNode = { p: (pos + 1) / (rows.length + 2) };
+  if (depth >= opts.maxDepth || rows.length < opts.minSamples || pos === 0 || pos === rows.length) return leaf;
+
+  const withFeature = new Map<number, { n: number; pos: number }>();
+  rows.forEach(r => features[r].forEach(f => {
+    const stat = withFeature.get(f) || { n: 0, pos: 0 };
+    stat.n++; stat.pos += y[r];
+    withFeature.set(f, stat);
+  }));
+
+  const parentImpurity = gini(pos, rows.length);
+  let best: { feature: number; gain: number } | null = null;
+  for (const [f, stat] of withFeature) {
+    if (opts.featureFraction < 1 && opts.rand() > opts.featureFraction) continue;
+    const restN = rows.length - stat.n;
+    if (stat.n === 0 || restN === 0) continue;
+    const impurity = (stat.n * gini(stat.pos, stat.n) + restN * gini(pos - stat.pos, restN)) / rows.length;
+    const gain = parentImpurity - impurity;
+    if (gain > 1e-9 && (!best || gain > best.gain)) best = { feature: f, gain };
+  }
+  if (!best) return leaf;
+
+  const present = rows.filter(r => features[r].has(best!.feature));
+  const absent = rows.filter(r => !features[r].has(best!.feature));
+  return {
+    p: leaf.p, feature: best.feature,
+    present: growTree(present, features, y, depth + 1, opts),
+    absent: growTree(absent, features, y, depth + 1, opts)
+  };
+};
+
+const walkTree = (node: TreeNode, features: Set<number>): number => {
+  while (node.feature !== undefined) node = features.has(node.feature) ? node.present! : node.absent!;
+  return node.p;
+};
+
+class DecisionTreeClassifier implements EmotionClassifier {
+  readonly type: MLModelType = 'decision-tree';
+  report: TrainReport | null = null;
+  protected vocab: Vocabulary = Vocabulary.build([]);
+  protected labels: string[] = [];
+  protected forests: TreeNode[][] = [];
+
+  protected growForLabel(rows: number[], features: Set<number>[], y: number[]): TreeNode[] {
+    return [growTree(rows, features, y, 0, { maxDepth: 8, minSamples: 2, featureFraction: 1, rand: mulberry32(SEED) })];
+  }
+
+  async train(examples: TrainingExample[], labels: string[]): Promise<TrainReport> {
+    this.labels = labels;
+    this.vocab = Vocabulary.build(examples.map(e => e.text), 600);
+    const features = examples.map(e => new Set(this.vocab.ids(e.text)));
+    const rows = examples.map((_, i) => i);
+    this.forests = labels.map(label => this.growForLabel(rows, features, examples.map(e => e.labels.includes(label) ? 1 : 0)));
+    this.report = await finishReport(this, examples, labels);
+    return this.report;
+  }
+
+  async predict(text: string): Promise<LabelProbabilities> {
+    const features = new Set(this.vocab.ids(text));
+    return toRecord(this.labels, this.forests.map(trees =>
+      trees.reduce((sum, t) => sum + walkTree(t, features), 0) / Math.max(trees.length, 1)
+    ));
+  }
+}
+
+class RandomForestClassifier extends DecisionTreeClassifier {
+  readonly type: MLModelType = 'random-forest-lite';
+  private static readonly TREES = 15;
+
+  protected growForLabel(rows: number[], features: Set<number>[], y: number[]): TreeNode[] {
+    const rand = mulberry32(SEED + y.reduce((s, v, i) => s + v * (i + 1), 0));
+    const featureFraction = Math.min(1, 1 / Math.sqrt(Math.max(this.vocab.size, 1)) * 4);
+    return Array.from({ length: RandomForestClassifier.TREES }, () => {
+      const bootstrap = rows.map(() => rows[Math.floor(rand() * rows.length)]);
+      return growTree(bootstrap, features, y, 0, { maxDepth: 10, minSamples: 2, featureFraction, rand });
+    });
+  }
+}
+
+class KMeansClassifier implements EmotionClassifier {
+  readonly type = 'k-means-clustering' as const;
+  report: TrainReport | null = null;
+  private vocab: Vocabulary = Vocabulary.build([]);
+  private labels: string[] = [];
+  private idf: Float32Array = new Float32Array(0);
+  private centroids: Float32Array[] = [];
+  private clusterLabels: number[][] = [];
+
+  private vectorize(text: string): Float32Array {
+    const vec = new Float32Array(this.vocab.size);
+    this.vocab.ids(text).forEach(i => { vec[i] += this.idf[i]; });
+    const norm = Math.sqrt(vec.reduce((s, v) => s + v * v, 0)) || 1;
+    return vec.map(v => v / norm);
+  }
+
+  private static cosine(a: Float32Array, b: Float32Array) {
+    let dot = 0;
+    for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+    return dot;
+  }
+
+  async train(examples: TrainingExample[], labels: string[]): Promise<TrainReport> {
+    this.labels = labels;
+    this.vocab = Vocabulary.build(examples.map(e => e.text));
+    const df = new Float32Array(this.vocab.size);
+    examples.forEach(e => new Set(this.vocab.ids(e.text)).forEach(i => { df[i]++; }));
+    this.idf = df.map(d => Math.log((1 + examples.length) / (1 + d)) + 1);
+    const vectors = examples.map(e => this.vectorize(e.text));
+
+    // k-means++ seeding, then Lloyd iterations on unit vectors (spherical k-means).
+    const rand = mulberry32(SEED);
+    const k = Math.min(labels.length + 1, vectors.length);
+    this.centroids = vectors.length ? [vectors[Math.floor(rand() * vectors.length)]] : [];
+    while (this.centroids.length < k) {
+      const dists = vectors.map(v => Math.min(...this.centroids.map(c => 1 - KMeansClassifier.cosine(v, c))));
+      const total = dists.reduce((a, b) => a + b, 0);
+      let target = rand() * total;
+      const idx = dists.findIndex(d => (target -= d) <= 0);
+      this.centroids.push(vectors[idx === -1 ? vectors.length - 1 : idx]);
+    }
+
+    let assignment = new Array(vectors.length).fill(-1);
+    for (let iter = 0; iter < 25; iter++) {
+      const next = vectors.map(v => this.nearest(v));
+      if (next.every((c, i) => c === assignment[i])) break;
+      assignment = next;
+      this.centroids = this.centroids.map((c, ci) => {
+        const members = vectors.filter((_, i) => assignment[i] === ci);
+        if (members.length === 0) return c;
+        const sum = new Float32Array(c.length);
+        members.forEach(m => m.forEach((v, i) => { sum[i] += v; }));
+        const norm = Math.sqrt(sum.reduce((s, v) => s + v * v, 0)) || 1;
+        return sum.map(v => v / norm);
+      });
+    }
+
+    const targets = labelMatrix(examples, labels);
+    this.clusterLabels = this.centroids.map((_, ci) => {
+      const members = targets.filter((_, i) => assignment[i] === ci);
+      return labels.map((_, li) => (members.reduce((s, t) => s + t[li], 0) + 0.5) / (members.length + 1));
+    });
+
+    this.report = await finishReport(this, examples, labels);
+    return this.report;
+  }
+
+  private nearest(v: Float32Array): number {
+    let best = 0;
+    let bestSim = -Infinity;
+    this.centroids.forEach((c, i) => {
+      const sim = KMeansClassifier.cosine(v, c);
+      if (sim > bestSim) { bestSim = sim; best = i; }
+    });
+    return best;
+  }
+
+  async predict(text: string): Promise<LabelProbabilities> {
+    if (this.centroids.length === 0) return toRecord(this.labels, new Array(this.labels.length).fill(0));
+    const v = this.vectorize(text);
+    // Soft assignment: softmax over cosine similarity, then blend the clusters' label rates.
+    const weights = this.centroids.map(c => Math.exp(10 * KMeansClassifier.cosine(v, c)));
+    const total = weights.reduce((a, b) => a + b, 0);
+    return toRecord(this.labels, this.labels.map((_, li) =>
+      this.clusterLabels.reduce((s, rates, ci) => s + rates[li] * weights[ci] / total, 0)
+    ));
+  }
+}
+
+export interface LexiconEntry { label: string; keywords: string[] }
+
+/** Keyword lexicon matched on stems outside negation scopes; "training" only measures it against the examples. */
+class SymbolicClassifier implements EmotionClassifier {
+  readonly type = 'symbolic' as const;
+  report: TrainReport | null = null;
+  private labels: string[] = [];
+
+  constructor(private lexicon: LexiconEntry[]) {}
+
+  async train(examples: TrainingExample[], labels: string[]): Promise<TrainReport> {
+    this.labels = labels;
+    this.report = await finishReport(this, examples, labels);
+    return this.report;
+  }
+
+  async predict(text: string): Promise<LabelProbabilities> {
+    const tokens = annotateTokens(text).filter(t => !t.negated);
+    return toRecord(this.labels, this.labels.map(label => {
+      const stems = new Set((this.lexicon.find(l => l.label === label)?.keywords || []).map(stem));
+      const hits = tokens.filter(t => stems.has(t.stem)).reduce((sum, t) => sum + t.intensity, 0);
+      return 1 - Math.exp(-0.9 * hits);
+    }));
+  }
+}
+
+export const createClassifier = (type: MLModelType, lexicon: LexiconEntry[]): EmotionClassifier => {
+  switch (type) {
+    case 'symbolic': return new SymbolicClassifier(lexicon);
+    case 'logistic-regression': return new LogisticRegressionClassifier();
+    case 'lstm-neural': return new LSTMClassifier();
+    case 'naive-bayes': return new NaiveBayesClassifier();
+    case 'decision-tree': return new DecisionTreeClassifier();
+    case 'random-forest-lite': return new RandomForestClassifier();
+    case 'k-means-clustering': return new KMeansClassifier();
+  }
+};
@@ -1,9 +1,13 @@
 
-import { Note } from '../types';
+import { Note, Asset, StoredAsset, FeedbackExample, ChatThread } from '../types';
 
 const DB_NAME = 'MemoryLaneDB';
 const STORE_NAME = 'notes';
-const DB_VERSION = 1;
+const ASSET_STORE = 'assets';
+const FEEDBACK_STORE = 'feedback';
+const META_STORE = 'meta';
+const CHAT_STORE = 'chats';
+const DB_VERSION = 4;
 
 export const openDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
@@ -13,20 +17,66 @@ export const openDB = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME, { keyPath: 'id' });
       }
+      // v2: media blobs live in their own store, deduplicated by content hash.
+      // Legacy inline blobs/data URLs are moved over by migrateLegacyAssets.
+      if (!db.objectStoreNames.contains(ASSET_STORE)) {
+        db.createObjectStore(ASSET_STORE, { keyPath: 'hash' });
+      }
+      // v3: user-corrected emotion labels and small engine state (fine-tune history etc).
+      if (!db.objectStoreNames.contains(FEEDBACK_STORE)) {
+        db.createObjectStore(FEEDBACK_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+      // v4: assistant conversations, global or scoped to a note.
+      if (!db.objectStoreNames.contains(CHAT_STORE)) {
+        db.createObjectStore(CHAT_STORE, { keyPath: 'id' });
+      }
     };
     request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
   });
 };
 
-export const saveNoteToDB = async (note: Note) => {
+// Note and asset writes run one at a time in call order, so a garbage collection queued behind them always sees
+// the store they leave behind rather than a half-written one.
+let writeQueue: Promise<unknown> = Promise.resolve();
+const queueWrite = <T>(write: () => Promise<T>): Promise<T> => {
+  const run = writeQueue.then(write);
+  writeQueue = run.catch(() => undefined);
+  return run;
+};
+
+// Blobs stored for a note that has not been saved yet (an Editor save persists them before it analyzes);
+// collection leaves them alone until a saved note references them.
+const unsavedHashes = new Set<string>();
+
+const noteHashes = (note: Note): string[] =>
+  Object.values(note.branches).flatMap(b => b.commits.flatMap(c => (c.assets || []).map(a => a.hash).filter((h): h is string => !!h)));
+
+// Blobs and object URLs never go into the notes store; hashed assets are rehydrated on demand.
+const stripAssets = (assets?: Asset[]): Asset[] | undefined =>
+  assets?.map(({ blob, ...a }) => a.hash ? { ...a, url: '' } : a);
+
+export const serializeNote = (note: Note): Note => ({
+  ...note,
+  branches: Object.fromEntries(Object.entries(note.branches).map(([name, b]) => [
+    name, { ...b, commits: b.commits.map(c => ({ ...c, assets: stripAssets(c.assets) })) }
+  ]))
+});
+
+export const saveNoteToDB = (note: Note) => queueWrite(async () => {
   const db = await openDB();
   const tx = db.transaction(STORE_NAME, 'readwrite');
-  tx.objectStore(STORE_NAME).put(note);
-  return new Promise((resolve) => {
+  tx.objectStore(STORE_NAME).put(serializeNote(note));
+  await new Promise((resolve, reject) => {
     tx.oncomplete = () => resolve(true);
+    tx.onerror = () => reject(tx.error);
   });
-};
+  noteHashes(note).forEach(hash => unsavedHashes.delete(hash));
+  return true;
+});
 
 export const getAllNotesFromDB = async (): Promise<Note[]> => {
   const db = await openDB();
@@ -38,11 +88,209 @@ export const getAllNotesFromDB = async (): Promise<Note[]> => {
   });
 };
 
-export const deleteNoteFromDB = async (id: string) => {
+export const deleteNoteFromDB = (id: string) => queueWrite(async () => {
   const db = await openDB();
   const tx = db.transaction(STORE_NAME, 'readwrite');
   tx.objectStore(STORE_NAME).delete(id);
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve(true);
+    tx.onerror = () => reject(tx.error);
+  });
+});
+
+export const saveFeedbackToDB = async (example: FeedbackExample) => {
+  const db = await openDB();
+  const tx = db.transaction(FEEDBACK_STORE, 'readwrite');
+  tx.objectStore(FEEDBACK_STORE).put(example);
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve(true);
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const getAllFeedbackFromDB = async (): Promise<FeedbackExample[]> => {
+  const db = await openDB();
+  const request = db.transaction(FEEDBACK_STORE, 'readonly').objectStore(FEEDBACK_STORE).getAll();
   return new Promise((resolve) => {
+    request.onsuccess = () => resolve(request.result);
+  });
+};
+
+export const saveMetaToDB = async <T>(key: string, value: T) => {
+  const db = await openDB();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(value, key);
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve(true);
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const getMetaFromDB = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDB();
+  const request = db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(key);
+  return new Promise((resolve) => {
+    request.onsuccess = () => resolve(request.result);
+  });
+};
+
+export const saveThreadToDB = async (thread: ChatThread) => {
+  const db = await openDB();
+  const tx = db.transaction(CHAT_STORE, 'readwrite');
+  tx.objectStore(CHAT_STORE).put(thread);
+  return new Promise((resolve, reject) => {
     tx.oncomplete = () => resolve(true);
+    tx.onerror = () => reject(tx.error);
   });
 };
+
+export const getAllThreadsFromDB = async (): Promise<ChatThread[]> => {
+  const db = await openDB();
+  const request = db.transaction(CHAT_STORE, 'readonly').objectStore(CHAT_STORE).getAll();
+  return new Promise((resolve) => {
+    request.onsuccess = () => resolve(request.result);
+  });
+};
+
+export const deleteThreadFromDB = async (id: string) => {
+  const db = await openDB();
+  const tx = db.transaction(CHAT_STORE, 'readwrite');
+  tx.objectStore(CHAT_STORE).delete(id);
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve(true);
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const hashBlob = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const saveAssetBlob = async (blob: Blob): Promise<string> => {
+  const hash = await hashBlob(blob);
+  unsavedHashes.add(hash);
+  return queueWrite(() => putAssetBlob(hash, blob));
+};
+
+const putAssetBlob = async (hash: string, blob: Blob): Promise<string> => {
+  const db = await openDB();
+  const tx = db.transaction(ASSET_STORE, 'readwrite');
+  const store = tx.objectStore(ASSET_STORE);
+  const existing = store.getKey(hash);
+  existing.onsuccess = () => {
+    if (existing.result === undefined) {
+      const record: StoredAsset = { hash, blob, mimeType: blob.type, size: blob.size, createdAt: Date.now() };
+      store.put(record);
+    }
+  };
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve(hash);
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const getAssetBlob = async (hash: string): Promise<Blob | undefined> => {
+  const db = await openDB();
+  const request = db.transaction(ASSET_STORE, 'readonly').objectStore(ASSET_STORE).get(hash);
+  return new Promise((resolve) => {
+    request.onsuccess = () => resolve((request.result as StoredAsset | undefined)?.blob);
+  });
+};
+
+export const getAssetHashes = async (): Promise<string[]> => {
+  const db = await openDB();
+  const request = db.transaction(ASSET_STORE, 'readonly').objectStore(ASSET_STORE).getAllKeys();
+  return new Promise((resolve) => {
+    request.onsuccess = () => resolve(request.result as string[]);
+  });
+};
+
+const urlCache = new Map<string, string>();
+
+/** Lazily turns a stored blob back into an object URL, reusing one URL per hash. */
+export const resolveAssetUrl = async (hash: string): Promise<string | undefined> => {
+  const cached = urlCache.get(hash);
+  if (cached) return cached;
+  const blob = await getAssetBlob(hash);
+  if (!blob) return undefined;
+  const url = URL.createObjectURL(blob);
+  urlCache.set(hash, url);
+  return url;
+};
+
+/** Moves draft blobs into the assets store and returns the assets keyed by hash. */
+export const persistAssets = async (assets: Asset[]): Promise<Asset[]> => {
+  return Promise.all(assets.map(async (asset) => {
+    if (!asset.blob) return asset;
+    const hash = await saveAssetBlob(asset.blob);
+    if (asset.url) urlCache.set(hash, asset.url);
+    const { blob, ...rest } = asset;
+    return { ...rest, hash, mimeType: blob.type };
+  }));
+};
+
+let queuedCollection: Promise<number> | null = null;
+
+/**
+ * Deletes blobs that no commit in the vault references any more. Runs after every write queued before it;
+ * calls made while one is still waiting share that run.
+ */
+export const collectAssetGarbage = (): Promise<number> => {
+  queuedCollection ??= queueWrite(() => {
+    queuedCollection = null;
+    return sweepAssets();
+  });
+  return queuedCollection;
+};
+
+const sweepAssets = async (): Promise<number> => {
+  const referenced = new Set<string>(unsavedHashes);
+  (await getAllNotesFromDB()).forEach(n => Object.values(n.branches).forEach(b =>
+    b.commits.forEach(c => c.assets?.forEach(a => a.hash && referenced.add(a.hash)))
+  ));
+
+  const db = await openDB();
+  const tx = db.transaction(ASSET_STORE, 'readwrite');
+  const store = tx.objectStore(ASSET_STORE);
+  const keysRequest = store.getAllKeys();
+  let removed = 0;
+  keysRequest.onsuccess = () => {
+    (keysRequest.result as string[]).filter(hash => !referenced.has(hash)).forEach(hash => {
+      store.delete(hash);
+      const url = urlCache.get(hash);
+      if (url) { URL.revokeObjectURL(url); urlCache.delete(hash); }
+      removed++;
+    });
+  };
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve(removed);
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+/**
+ * One-time move of v1 assets (inline blobs and base64 data URLs) into the assets store.
+ * Assets that only had a session object URL are already dead and are left untouched.
+ */
+export const migrateLegacyAssets = async (notes: Note[]): Promise<Note[]> => {
+  return Promise.all(notes.map(async (note) => {
+    let changed = false;
+    const branches = Object.fromEntries(await Promise.all(Object.entries(note.branches).map(async ([name, b]) => {
+      const commits = await Promise.all(b.commits.map(async (c) => {
+        if (!c.assets?.some(a => !a.hash && (a.blob || a.url.startsWith('data:')))) return c;
+        changed = true;
+        const assets = await persistAssets(await Promise.all(c.assets.map(async (a) => {
+          if (a.hash || a.blob || !a.url.startsWith('data:')) return a;
+          return { ...a, blob: await (await fetch(a.url)).blob(), url: '' };
+        })));
+        return { ...c, assets };
+      }));
+      return [name, { ...b, commits }] as const;
+    })));
+    if (!changed) return note;
+    const migrated = { ...note, branches };
+    await saveNoteToDB(migrated);
+    return migrated;
+  }));
+};
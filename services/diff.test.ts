@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { DiffOp } from '../types';
+import { diffLines, diffSequences, diffWords, matchSequences, pairLineChanges } from './diff';
+
+const apply = <T>(ops: DiffOp<T>[]) => ({
+  before: ops.filter(o => o.type !== 'insert').map(o => o.value),
+  after: ops.filter(o => o.type !== 'delete').map(o => o.value)
+});
+
+// Reference LCS length from the textbook table.
+const lcsLength = <T>(a: T[], b: T[]) => {
+  const row = new Array(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    let diag = 0;
+    for (let j = 1; j <= b.length; j++) {
+      const up = row[j];
+      row[j] = a[i - 1] === b[j - 1] ? diag + 1 : Math.max(row[j], row[j - 1]);
+      diag = up;
+    }
+  }
+  return row[b.length];
+};
+
+// Small deterministic PRNG so failures reproduce.
+const random = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+  return seed / 0x7fffffff;
+};
+
+describe('diffSequences', () => {
+  it('reconstructs both inputs and keeps a longest common subsequence', () => {
+    const next = random(42);
+    for (let run = 0; run < 300; run++) {
+      const seq = () => Array.from({ length: Math.floor(next() * 30) }, () => 'abcd'[Math.floor(next() * 4)]);
+      const a = seq();
+      const b = seq();
+      const ops = diffSequences(a, b);
+      expect(apply(ops)).toEqual({ before: a, after: b });
+      expect(ops.filter(o => o.type === 'equal').length).toBe(lcsLength(a, b));
+    }
+  });
+
+  it('handles empty sides', () => {
+    expect(diffSequences([], ['x'])).toEqual([{ type: 'insert', value: 'x' }]);
+    expect(diffSequences(['x'], [])).toEqual([{ type: 'delete', value: 'x' }]);
+    expect(diffSequences([], [])).toEqual([]);
+  });
+
+  it('diffs long inputs without a quadratic table', () => {
+    const a = Array.from({ length: 20000 }, (_, i) => `line ${i}`);
+    const b = a.filter((_, i) => i % 100 !== 0);
+    const ops = diffSequences(a, b);
+    expect(ops.filter(o => o.type === 'delete')).toHaveLength(200);
+    expect(ops.filter(o => o.type === 'insert')).toHaveLength(0);
+  });
+});
+
+describe('matchSequences', () => {
+  it('maps matched indexes and leaves removed ones undefined', () => {
+    expect(matchSequences(['a', 'b', 'c'], ['a', 'c'])).toEqual([0, undefined, 1]);
+  });
+});
+
+describe('diffLines and pairLineChanges', () => {
+  it('pairs a changed line with its replacement and word-diffs it', () => {
+    const rows = pairLineChanges(diffLines('one\ntwo\nthree', 'one\n2\nthree\nfour'));
+    expect(rows.map(r => r.type)).toEqual(['equal', 'modify', 'equal', 'insert']);
+    expect(rows[1]).toMatchObject({ before: 'two', after: '2' });
+  });
+});
+
+describe('diffWords', () => {
+  it('keeps whitespace runs as tokens', () => {
+    expect(diffWords('a  b', 'a  c')).toEqual([
+      { type: 'equal', value: 'a' },
+      { type: 'equal', value: '  ' },
+      { type: 'delete', value: 'b' },
+      { type: 'insert', value: 'c' }
+    ]);
+  });
+
+  it('shows very long lines as a whole removal and addition', () => {
+    const long = Array.from({ length: 3000 }, (_, i) => `w${i}`).join(' ');
+    const ops = diffWords(long, `${long} end`);
+    expect(ops.some(o => o.type === 'equal')).toBe(false);
+    expect(apply(ops).after.join('')).toBe(`${long} end`);
+  });
+});
@@ -0,0 +1,149 @@
+import { DiffOp, LineDiffRow, AssetDiff, Asset } from '../types';
+
+// Myers' O(ND) diff in linear space: the forward and backward searches meet in the middle of a shortest edit
+// script, and each half is solved the same way. Memory stays O(n + m) however different the inputs are, where a
+// full LCS table needed O(n·m). Common prefix and suffix are matched first so typical edits stay cheap.
+const collectPairs = <T>(a: T[], aLo: number, aHi: number, b: T[], bLo: number, bHi: number, out: [number, number][]) => {
+  while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) out.push([aLo++, bLo++]);
+  let suffix = 0;
+  while (aHi > aLo && bHi > bLo && a[aHi - 1] === b[bHi - 1]) { aHi--; bHi--; suffix++; }
+  if (aLo < aHi && bLo < bHi) {
+    const split = middleOfEditScript(a, aLo, aHi, b, bLo, bHi);
+    if (split) {
+      collectPairs(a, aLo, split[0], b, bLo, split[1], out);
+      collectPairs(a, split[0], aHi, b, split[1], bHi, out);
+    }
+  }
+  for (let k = 0; k < suffix; k++) out.push([aHi + k, bHi + k]);
+};
+
+// A point on a shortest edit script between the two ranges, or null when they have nothing in common.
+const middleOfEditScript = <T>(a: T[], aLo: number, aHi: number, b: T[], bLo: number, bHi: number): [number, number] | null => {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD;
+  const forward = new Int32Array(2 * maxD + 2).fill(-1);
+  const backward = new Int32Array(2 * maxD + 2).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+  const delta = n - m;
+  // With an odd delta the forward search is the one that can overlap the backward one first.
+  const checkForward = delta % 2 !== 0;
+  let fStart = 0, fEnd = 0, bStart = 0, bEnd = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    for (let k = -d + fStart; k <= d - fEnd; k += 2) {
+      const i = offset + k;
+      let x = k === -d || (k !== d && forward[i - 1] < forward[i + 1]) ? forward[i + 1] : forward[i - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) { x++; y++; }
+      forward[i] = x;
+      if (x > n) fEnd += 2;
+      else if (y > m) fStart += 2;
+      else if (checkForward) {
+        const j = offset + delta - k;
+        if (j >= 0 && j < forward.length && backward[j] !== -1 && x >= n - backward[j]) return [aLo + x, bLo + y];
+      }
+    }
+    for (let k = -d + bStart; k <= d - bEnd; k += 2) {
+      const j = offset + k;
+      let x = k === -d || (k !== d && backward[j - 1] < backward[j + 1]) ? backward[j + 1] : backward[j - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aHi - x - 1] === b[bHi - y - 1]) { x++; y++; }
+      backward[j] = x;
+      if (x > n) bEnd += 2;
+      else if (y > m) bStart += 2;
+      else if (!checkForward) {
+        const i = offset + delta - k;
+        if (i >= 0 && i < forward.length && forward[i] !== -1) {
+          const fx = forward[i];
+          if (fx >= n - x) return [aLo + fx, bLo + fx - (i - offset)];
+        }
+      }
+    }
+  }
+  return null;
+};
+
+const lcsPairs = <T>(a: T[], b: T[]): [number, number][] => {
+  const pairs: [number, number][] = [];
+  collectPairs(a, 0, a.length, b, 0, b.length, pairs);
+  return pairs;
+};
+
+/** Maps each index of `a` to its matched index in `b` (or undefined). */
+export const matchSequences = <T>(a: T[], b: T[]): (number | undefined)[] => {
+  const matches: (number | undefined)[] = new Array(a.length).fill(undefined);
+  lcsPairs(a, b).forEach(([i, j]) => { matches[i] = j; });
+  return matches;
+};
+
+export const diffSequences = <T>(a: T[], b: T[]): DiffOp<T>[] => {
+  const ops: DiffOp<T>[] = [];
+  let i = 0, j = 0;
+  for (const [mi, mj] of lcsPairs(a, b)) {
+    while (i < mi) ops.push({ type: 'delete', value: a[i++] });
+    while (j < mj) ops.push({ type: 'insert', value: b[j++] });
+    ops.push({ type: 'equal', value: a[i] });
+    i++; j++;
+  }
+  while (i < a.length) ops.push({ type: 'delete', value: a[i++] });
+  while (j < b.length) ops.push({ type: 'insert', value: b[j++] });
+  return ops;
+};
+
+export const splitLines = (text: string): string[] => text.length === 0 ? [] : text.split('\n');
+
+export const diffLines = (a: string, b: string): DiffOp<string>[] => diffSequences(splitLines(a), splitLines(b));
+
+// Past this many tokens on a side a changed line is shown as a plain removal and addition.
+const MAX_WORD_TOKENS = 4000;
+
+/** Word-level diff that keeps whitespace runs as their own tokens. */
+export const diffWords = (a: string, b: string): DiffOp<string>[] => {
+  const tokenize = (s: string) => s.split(/(\s+)/).filter(t => t.length > 0);
+  const before = tokenize(a);
+  const after = tokenize(b);
+  if (before.length > MAX_WORD_TOKENS || after.length > MAX_WORD_TOKENS) {
+    return [...before.map(value => ({ type: 'delete' as const, value })), ...after.map(value => ({ type: 'insert' as const, value }))];
+  }
+  return diffSequences(before, after);
+};
+
+/** Groups a line diff into rows, pairing removed and added lines so edits can be word-diffed. */
+export const pairLineChanges = (ops: DiffOp<string>[]): LineDiffRow[] => {
+  const rows: LineDiffRow[] = [];
+  let idx = 0;
+  while (idx < ops.length) {
+    if (ops[idx].type === 'equal') {
+      rows.push({ type: 'equal', before: ops[idx].value, after: ops[idx].value });
+      idx++;
+      continue;
+    }
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (idx < ops.length && ops[idx].type !== 'equal') {
+      (ops[idx].type === 'delete' ? removed : added).push(ops[idx].value);
+      idx++;
+    }
+    for (let n = 0; n < Math.max(removed.length, added.length); n++) {
+      const before = removed[n];
+      const after = added[n];
+      if (before !== undefined && after !== undefined) rows.push({ type: 'modify', before, after, words: diffWords(before, after) });
+      else if (before !== undefined) rows.push({ type: 'delete', before });
+      else rows.push({ type: 'insert', after });
+    }
+  }
+  return rows;
+};
+
+export const diffAssets = (before: Asset[] = [], after: Asset[] = []): AssetDiff => {
+  const beforeIds = new Set(before.map(a => a.id));
+  const afterIds = new Set(after.map(a => a.id));
+  return {
+    added: after.filter(a => !beforeIds.has(a.id)),
+    removed: before.filter(a => !afterIds.has(a.id)),
+    unchanged: after.filter(a => beforeIds.has(a.id))
+  };
+};
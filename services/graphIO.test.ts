@@ -0,0 +1,96 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import { outlineToNodes, parseMermaidMindmap, parseOPML, toMermaid } from './graphIO';
+import { DEFAULT_TAXONOMY } from './mlEngine';
+import { makeNode } from '../test/fixtures';
+
+describe('parseMermaidMindmap', () => {
+  it('builds the outline from indentation and strips node shapes', () => {
+    const items = parseMermaidMindmap([
+      '```mermaid',
+      'mindmap',
+      '  root((Holiday))',
+      '    a[Beach]',
+      '      Sunscreen',
+      '    b("Museum")',
+      '```'
+    ].join('\n'));
+    expect(items).toEqual([{
+      label: 'Holiday', children: [
+        { label: 'Beach', children: [{ label: 'Sunscreen', children: [] }] },
+        { label: 'Museum', children: [] }
+      ]
+    }]);
+  });
+
+  it('reads emotions from class lines and the legend', () => {
+    const [root] = parseMermaidMindmap('mindmap\n  n0((Day))\n  :::emotion-joy\n    n1(Rain)\n    :::emotion-deep-sadness\n%% emotion-joy: Joy #facc15\n');
+    expect(root.emotion).toBe('Joy');
+    expect(root.children[0].emotion).toBe('Deep Sadness');
+  });
+
+  it('rejects text that is not a mindmap', () => {
+    expect(() => parseMermaidMindmap('graph TD\n  A --> B')).toThrow('Not a Mermaid mindmap');
+    expect(() => parseMermaidMindmap('')).toThrow('Not a Mermaid mindmap');
+  });
+
+  it('reads back what toMermaid writes', () => {
+    const nodes = [
+      makeNode('root', { label: 'Plans', emotion: 'Joy' }),
+      makeNode('x', { label: 'Call Mum', emotion: 'Calm', parentId: 'root' }),
+      makeNode('y', { label: 'Pack', emotion: 'Joy', parentId: 'x' })
+    ];
+    expect(parseMermaidMindmap(toMermaid(nodes))).toEqual([{
+      label: 'Plans', emotion: 'Joy', children: [
+        { label: 'Call Mum', emotion: 'Calm', children: [{ label: 'Pack', emotion: 'Joy', children: [] }] }
+      ]
+    }]);
+  });
+
+  it('drops shape delimiters from exported labels', () => {
+    expect(parseMermaidMindmap(toMermaid([makeNode('root', { label: 'Plans (draft) "v2"' })]))[0].label).toBe('Plans draft v2');
+  });
+});
+
+describe('parseOPML', () => {
+  it('reads the title and nested outlines', () => {
+    const parsed = parseOPML(`<?xml version="1.0"?>
+      <opml version="2.0">
+        <head><title> Ideas </title></head>
+        <body>
+          <outline text="Garden" emotion="Joy"><outline title="Tomatoes"/></outline>
+          <outline/>
+        </body>
+      </opml>`);
+    expect(parsed).toEqual({
+      title: 'Ideas',
+      items: [
+        { label: 'Garden', emotion: 'Joy', children: [{ label: 'Tomatoes', emotion: undefined, children: [] }] },
+        { label: 'Untitled', emotion: undefined, children: [] }
+      ]
+    });
+  });
+
+  it('rejects malformed or non-OPML XML', () => {
+    expect(() => parseOPML('<opml><body>')).toThrow('Not a valid OPML outline.');
+    expect(() => parseOPML('<html><body/></html>')).toThrow('Not a valid OPML outline.');
+  });
+});
+
+describe('outlineToNodes', () => {
+  it('hangs several top-level items under a root named after the file', () => {
+    const nodes = outlineToNodes([{ label: 'A', children: [] }, { label: 'B', children: [] }], 'Imported');
+    expect(nodes[0]).toMatchObject({ id: 'root', label: 'Imported', emotion: 'Genesis' });
+    expect(nodes.slice(1).map(n => [n.label, n.parentId])).toEqual([['A', 'root'], ['B', 'root']]);
+  });
+
+  it('lets children inherit their parent emotion and color', () => {
+    const love = DEFAULT_TAXONOMY.find(c => c.label === 'Love')!;
+    const nodes = outlineToNodes([{ label: 'Day', emotion: 'Love', children: [{ label: 'Walk', children: [] }] }], 'x');
+    expect(nodes[1]).toMatchObject({ emotion: 'Love', color: love.color, manual: { created: true } });
+  });
+
+  it('refuses an empty outline', () => {
+    expect(() => outlineToNodes([], 'x')).toThrow('The outline has no nodes.');
+  });
+});
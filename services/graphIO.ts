@@ -0,0 +1,274 @@
+import { Note, NodeData } from '../types';
+import { mlEngine } from './mlEngine';
+import { ROOT_ID } from './mindmap';
+import { layoutNodes } from './layouts';
+import { CARD_WIDTH, CARD_HEIGHT } from './graphRenderer';
+
+export interface OutlineItem {
+  label: string;
+  emotion?: string;
+  children: OutlineItem[];
+}
+
+const PADDING = 80;
+const BACKGROUND = '#020617';
+
+const escapeXml = (s: string) =>
+  s.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c]!));
+
+const edgesOf = (nodes: NodeData[]) => {
+  const ids = new Set(nodes.map(n => n.id));
+  return nodes.filter(n => n.parentId && ids.has(n.parentId)).map(n => ({ source: n.parentId!, target: n.id, color: n.color }));
+};
+
+const bounds = (nodes: NodeData[]) => {
+  const minX = Math.min(...nodes.map(n => n.x)) - CARD_WIDTH / 2 - PADDING;
+  const minY = Math.min(...nodes.map(n => n.y)) - CARD_HEIGHT / 2 - PADDING;
+  const maxX = Math.max(...nodes.map(n => n.x)) + CARD_WIDTH / 2 + PADDING;
+  const maxY = Math.max(...nodes.map(n => n.y)) + CARD_HEIGHT / 2 + PADDING;
+  return { minX, minY, width: maxX - minX, height: maxY - minY };
+};
+
+// SVG text does not wrap, so labels are split by character count.
+const wrapLabel = (label: string, width = 24, maxLines = 2): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of label.split(/\s+/).filter(Boolean)) {
+    if (line && (line + ' ' + word).length > width) {
+      lines.push(line);
+      line = word;
+    } else line = line ? `${line} ${word}` : word;
+  }
+  if (line) lines.push(line);
+  if (lines.length > maxLines) lines.splice(maxLines - 1, lines.length, `${lines[maxLines - 1]}…`);
+  return lines;
+};
+
+/** Standalone SVG in the map's 2D positions, with the cards drawn the way the graph shows them. */
+export const toSVG = (nodes: NodeData[]): string => {
+  const { minX, minY, width, height } = bounds(nodes);
+  const byId = new Map(nodes.map(n => [n.id, n] as const));
+  const font = 'font-family="ui-sans-serif, system-ui, sans-serif" font-weight="900"';
+  const x0 = -CARD_WIDTH / 2 + 22, y0 = -CARD_HEIGHT / 2;
+
+  const lines = edgesOf(nodes).map(e => {
+    const a = byId.get(e.source)!, b = byId.get(e.target)!;
+    return `<line x1="${a.x}" y1="${a.y}" x2="${b.x}" y2="${b.y}" stroke="${e.color}" stroke-opacity="0.4" stroke-width="2"/>`;
+  });
+  const cards = nodes.map(n => {
+    const label = wrapLabel(n.label).map((l, i) => `<text x="${x0}" y="${y0 + 48 + i * 15}" font-size="12" fill="#fff" ${font}>${escapeXml(l)}</text>`).join('');
+    return `<g transform="translate(${n.x} ${n.y})">`
+      + `<rect x="${-CARD_WIDTH / 2}" y="${y0}" width="${CARD_WIDTH}" height="${CARD_HEIGHT}" rx="36" fill="${n.color}" stroke="#fff" stroke-opacity="0.4" stroke-width="2"/>`
+      + `<text x="${x0}" y="${y0 + 26}" font-size="9" fill="#fff" fill-opacity="0.7" ${font}>${escapeXml(n.type.toUpperCase())}</text>`
+      + label
+      + `<text x="${x0}" y="${y0 + CARD_HEIGHT - 18}" font-size="8" fill="#fff" ${font}>${escapeXml(n.emotion.toUpperCase())}</text>`
+      + `</g>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>\n`
+    + `<svg xmlns="http://www.w3.org/2000/svg" width="${Math.ceil(width)}" height="${Math.ceil(height)}" viewBox="${minX} ${minY} ${width} ${height}">\n`
+    + `<rect x="${minX}" y="${minY}" width="${width}" height="${height}" fill="${BACKGROUND}"/>\n`
+    + `${lines.join('\n')}\n${cards.join('\n')}\n</svg>\n`;
+};
+
+// Browsers refuse to allocate canvases much past this many pixels.
+const MAX_PNG_PIXELS = 16384 * 16384;
+
+/** Rasterises the SVG export so its longer side is `longEdge` pixels. */
+export const toPNG = async (nodes: NodeData[], longEdge: number): Promise<Blob> => {
+  const { width, height } = bounds(nodes);
+  const scale = longEdge / Math.max(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  if (canvas.width * canvas.height > MAX_PNG_PIXELS) throw new Error('That resolution is too large to render; pick a smaller one.');
+
+  const url = URL.createObjectURL(new Blob([toSVG(nodes)], { type: 'image/svg+xml' }));
+  try {
+    const img = new Image();
+    await new Promise<void>((resolve, reject) => {
+      img.onload = () => resolve();
+      img.onerror = () => reject(new Error('The map could not be rendered.'));
+      img.src = url;
+    });
+    canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed.')), 'image/png'));
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const toGraphML = (nodes: NodeData[], title = 'Synapse Map'): string => {
+  const keys: [string, string][] = [['label', 'string'], ['type', 'string'], ['emotion', 'string'], ['color', 'string'], ['x', 'double'], ['y', 'double'], ['z', 'double']];
+  const data = (n: NodeData) => keys.map(([k]) => `<data key="${k}">${escapeXml(String(n[k as keyof NodeData]))}</data>`).join('');
+  return `<?xml version="1.0" encoding="UTF-8"?>\n`
+    + `<graphml xmlns="http://graphml.graphdrawing.org/xmlns">\n`
+    + keys.map(([k, type]) => `  <key id="${k}" for="node" attr.name="${k}" attr.type="${type}"/>`).join('\n') + '\n'
+    + `  <graph id="${escapeXml(title)}" edgedefault="directed">\n`
+    + nodes.map(n => `    <node id="${escapeXml(n.id)}">${data(n)}</node>`).join('\n') + '\n'
+    + edgesOf(nodes).map((e, i) => `    <edge id="e${i}" source="${escapeXml(e.source)}" target="${escapeXml(e.target)}"/>`).join('\n') + '\n'
+    + `  </graph>\n</graphml>\n`;
+};
+
+const hexToRgb = (hex: string) => {
+  const m = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  const v = m ? parseInt(m[1], 16) : 0x64748b;
+  return { r: (v >> 16) & 255, g: (v >> 8) & 255, b: v & 255 };
+};
+
+export const toGEXF = (nodes: NodeData[], title = 'Synapse Map'): string => {
+  const node = (n: NodeData) => {
+    const { r, g, b } = hexToRgb(n.color);
+    return `      <node id="${escapeXml(n.id)}" label="${escapeXml(n.label)}">`
+      + `<attvalues><attvalue for="type" value="${n.type}"/><attvalue for="emotion" value="${escapeXml(n.emotion)}"/></attvalues>`
+      + `<viz:color r="${r}" g="${g}" b="${b}"/><viz:position x="${n.x}" y="${n.y}" z="${n.z}"/></node>`;
+  };
+  return `<?xml version="1.0" encoding="UTF-8"?>\n`
+    + `<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">\n`
+    + `  <meta><creator>MemoryLane</creator><description>${escapeXml(title)}</description></meta>\n`
+    + `  <graph defaultedgetype="directed" mode="static">\n`
+    + `    <attributes class="node"><attribute id="type" title="type" type="string"/><attribute id="emotion" title="emotion" type="string"/></attributes>\n`
+    + `    <nodes>\n${nodes.map(node).join('\n')}\n    </nodes>\n`
+    + `    <edges>\n${edgesOf(nodes).map((e, i) => `      <edge id="e${i}" source="${escapeXml(e.source)}" target="${escapeXml(e.target)}"/>`).join('\n')}\n    </edges>\n`
+    + `  </graph>\n</gexf>\n`;
+};
+
+const emotionClass = (emotion: string) => `emotion-${emotion.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+
+// Mermaid node text cannot hold its own shape delimiters.
+const mermaidText = (label: string) => label.replace(/[()[\]{}"]/g, ' ').replace(/\s+/g, ' ').trim() || '…';
+
+/**
+ * Mermaid `mindmap` text. Emotions travel as `:::emotion-*` classes, with a comment legend of labels and
+ * colors at the end that the importer reads back.
+ */
+export const toMermaid = (nodes: NodeData[]): string => {
+  const children = new Map<string, NodeData[]>();
+  nodes.forEach(n => n.parentId && children.set(n.parentId, [...(children.get(n.parentId) || []), n]));
+  const ids = new Set(nodes.map(n => n.id));
+  const roots = nodes.filter(n => !n.parentId || !ids.has(n.parentId));
+  const lines = ['mindmap'];
+  const seen = new Set<string>();
+  let counter = 0;
+  const emit = (n: NodeData, depth: number) => {
+    if (seen.has(n.id)) return;
+    seen.add(n.id);
+    const indent = '  '.repeat(depth);
+    const text = mermaidText(n.label);
+    lines.push(`${indent}n${counter++}${depth === 1 ? `((${text}))` : `(${text})`}`);
+    lines.push(`${indent}:::${emotionClass(n.emotion)}`);
+    (children.get(n.id) || []).forEach(c => emit(c, depth + 1));
+  };
+  // Mermaid allows a single root; extra roots hang under the first.
+  const [first, ...rest] = roots;
+  if (first) {
+    emit(first, 1);
+    rest.forEach(r => emit(r, 2));
+  }
+  const emotions = new Map(nodes.map(n => [n.emotion, n.color] as const));
+  emotions.forEach((color, emotion) => lines.push(`%% ${emotionClass(emotion)}: ${emotion} ${color}`));
+  return lines.join('\n') + '\n';
+};
+
+const SHAPES = [/^\(\((.*)\)\)$/, /^\{\{(.*)\}\}$/, /^\)\)(.*)\(\($/, /^\[(.*)\]$/, /^\((.*)\)$/, /^\)(.*)\($/];
+
+const parseMermaidNode = (raw: string): string => {
+  const idMatch = /^[\w-]+(?=[([{)])/.exec(raw);
+  const body = idMatch ? raw.slice(idMatch[0].length).trim() : raw;
+  for (const shape of SHAPES) {
+    const m = shape.exec(body);
+    if (m) return m[1].replace(/^["`]+|["`]+$/g, '').trim();
+  }
+  return raw.replace(/^["`]+|["`]+$/g, '').trim();
+};
+
+export const parseMermaidMindmap = (text: string): OutlineItem[] => {
+  const lines = text.replace(/^```(?:mermaid)?\s*$/gm, '').split('\n');
+  const legend = new Map<string, string>();
+  lines.forEach(l => {
+    const m = /^\s*%%\s*(emotion-[\w-]+):\s*(.+?)\s+#[0-9a-f]{6}\s*$/i.exec(l);
+    if (m) legend.set(m[1], m[2]);
+  });
+
+  const roots: OutlineItem[] = [];
+  const stack: { indent: number; item: OutlineItem }[] = [];
+  let started = false;
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('%%')) continue;
+    if (!started) {
+      if (trimmed !== 'mindmap') throw new Error('Not a Mermaid mindmap: the text must start with "mindmap".');
+      started = true;
+      continue;
+    }
+    if (trimmed.startsWith('::icon(')) continue;
+    const classes = /^(.*?)\s*:::(.*)$/.exec(trimmed);
+    if (classes) {
+      const target = classes[1] ? null : stack[stack.length - 1]?.item;
+      const cls = classes[2].split(/\s+/).find(c => c.startsWith('emotion-'));
+      if (target && cls) target.emotion = legend.get(cls) || cls.slice('emotion-'.length).replace(/-/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+      if (!classes[1]) continue;
+    }
+    const indent = line.replace(/\t/g, '    ').search(/\S/);
+    const item: OutlineItem = { label: parseMermaidNode(classes ? classes[1] : trimmed), children: [] };
+    while (stack.length && stack[stack.length - 1].indent >= indent) stack.pop();
+    if (stack.length) stack[stack.length - 1].item.children.push(item); else roots.push(item);
+    stack.push({ indent, item });
+  }
+  if (!started) throw new Error('Not a Mermaid mindmap: the text must start with "mindmap".');
+  return roots;
+};
+
+export const parseOPML = (xml: string): { title?: string; items: OutlineItem[] } => {
+  const doc = new DOMParser().parseFromString(xml, 'text/xml');
+  const body = doc.querySelector('opml > body');
+  if (doc.querySelector('parsererror') || !body) throw new Error('Not a valid OPML outline.');
+  const walk = (el: Element): OutlineItem => ({
+    label: (el.getAttribute('text') || el.getAttribute('title') || 'Untitled').trim(),
+    emotion: el.getAttribute('emotion') || undefined,
+    children: Array.from(el.children).filter(c => c.tagName === 'outline').map(walk)
+  });
+  return {
+    title: doc.querySelector('opml > head > title')?.textContent?.trim() || undefined,
+    items: Array.from(body.children).filter(c => c.tagName === 'outline').map(walk)
+  };
+};
+
+/** Outline to map nodes under a single root; children without an emotion inherit their parent's. */
+export const outlineToNodes = (items: OutlineItem[], title: string): NodeData[] => {
+  if (items.length === 0) throw new Error('The outline has no nodes.');
+  const root: OutlineItem = items.length === 1 ? items[0] : { label: title, children: items };
+  const nodes: NodeData[] = [];
+  const add = (item: OutlineItem, parent?: NodeData) => {
+    const emotion = item.emotion || parent?.emotion || 'Genesis';
+    const node: NodeData = {
+      id: parent ? `m-${crypto.randomUUID().slice(0, 8)}` : ROOT_ID,
+      label: item.label || 'Untitled', type: 'group', emotion,
+      color: mlEngine.getEmotionColor(emotion, parent?.color || '#8b5cf6'),
+      parentId: parent?.id, x: 0, y: 0, z: 0,
+      manual: parent ? { created: true } : { label: true }
+    };
+    nodes.push(node);
+    item.children.forEach(c => add(c, node));
+  };
+  add(root);
+  return layoutNodes(nodes, 'tree', false);
+};
+
+/** Reads a Mermaid mindmap (.mmd, .md) or OPML outline into a new mind-map note. */
+export const importGraphFile = async (file: File): Promise<Note> => {
+  const text = await file.text();
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  const isOPML = /\.(opml|xml)$/i.test(file.name) || /<opml[\s>]/i.test(text);
+  const parsed = isOPML ? parseOPML(text) : { title: undefined, items: parseMermaidMindmap(text) };
+  const autoMap = outlineToNodes(parsed.items, parsed.title || baseName);
+  const now = Date.now();
+  const cid = crypto.randomUUID();
+  return {
+    id: crypto.randomUUID(),
+    title: parsed.title || autoMap[0].label || baseName,
+    activeBranch: 'main', tags: [], clusters: [], createdAt: now, updatedAt: now, type: 'mindmap',
+    config: { preferredModel: 'lstm-neural', recommendedModel: 'lstm-neural', is3D: false, layout: 'tree' },
+    branches: { main: { name: 'main', head: cid, commits: [{ id: cid, timestamp: now, content: '', author: 'User', message: `${isOPML ? 'OPML' : 'Mermaid'} Import`, parentId: null, assets: [], autoMap }] } }
+  };
+};
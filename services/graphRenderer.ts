@@ -0,0 +1,211 @@
+import { NodeData } from '../types';
+import { SpatialGrid } from './spatialIndex';
+
+export interface Camera {
+  x: number;
+  y: number;
+  scale: number;
+  rotateX: number; // Degrees
+  rotateY: number;
+}
+
+export interface ProjectedNode {
+  node: NodeData;
+  x: number; // Screen centre in CSS pixels
+  y: number;
+  scale: number; // Screen pixels per map unit at this node
+  depth: number; // Larger is nearer the viewer
+}
+
+// Card footprint in map units.
+export const CARD_WIDTH = 210;
+export const CARD_HEIGHT = 110;
+
+// Same perspective and camera distance the CSS 3D view used, so controls feel unchanged.
+const PERSPECTIVE = 2500;
+const CAMERA_DEPTH = 600;
+
+// Level of detail by on-screen card width.
+const DOT_BELOW = 24;
+const TEXT_FROM = 110;
+
+const WORLD_CELL = CARD_WIDTH * 2;
+const SCREEN_CELL = 128;
+
+const rad = (deg: number) => deg * Math.PI / 180;
+
+/**
+ * Map point to screen, applying scale, pan, then the Y and X rotations and perspective in the order the CSS
+ * transform chain did. Returns null for points behind the camera.
+ */
+export const projectPoint = (p: { x: number; y: number; z: number }, camera: Camera, width: number, height: number, is3D: boolean) => {
+  let x = p.x * camera.scale + camera.x;
+  let y = p.y * camera.scale + camera.y;
+  if (!is3D) return { x: width / 2 + x, y: height / 2 + y, scale: camera.scale, depth: 0 };
+
+  let z = p.z * camera.scale;
+  const ry = rad(camera.rotateY), rx = rad(camera.rotateX);
+  [x, z] = [x * Math.cos(ry) + z * Math.sin(ry), -x * Math.sin(ry) + z * Math.cos(ry)];
+  [y, z] = [y * Math.cos(rx) - z * Math.sin(rx), y * Math.sin(rx) + z * Math.cos(rx)];
+  z -= CAMERA_DEPTH;
+  const distance = PERSPECTIVE - z;
+  if (distance < 1) return null;
+  const f = PERSPECTIVE / distance;
+  return { x: width / 2 + x * f, y: height / 2 + y * f, scale: camera.scale * f, depth: z };
+};
+
+/**
+ * Holds a map's nodes with a world-space grid for viewport culling in 2D. Each frame projects the visible
+ * nodes and indexes their screen boxes, which is what hit testing runs against.
+ */
+export class GraphScene {
+  readonly byId: Map<string, NodeData>;
+  private world = new SpatialGrid<NodeData>(WORLD_CELL);
+  private screen = new SpatialGrid<ProjectedNode>(SCREEN_CELL);
+  private visible: ProjectedNode[] = [];
+
+  constructor(readonly nodes: NodeData[]) {
+    this.byId = new Map(nodes.map(n => [n.id, n] as const));
+    nodes.forEach(n => this.world.insert(n, n.x - CARD_WIDTH / 2, n.y - CARD_HEIGHT / 2, n.x + CARD_WIDTH / 2, n.y + CARD_HEIGHT / 2));
+  }
+
+  /** Projects and culls; the result is drawn back to front. */
+  frame(camera: Camera, width: number, height: number, is3D: boolean): ProjectedNode[] {
+    let candidates = this.nodes;
+    if (!is3D) {
+      const left = (-width / 2 - camera.x) / camera.scale, top = (-height / 2 - camera.y) / camera.scale;
+      candidates = this.world.query(left, top, left + width / camera.scale, top + height / camera.scale);
+    }
+    const onScreen = (p: ProjectedNode) => {
+      const hw = CARD_WIDTH * p.scale / 2, hh = CARD_HEIGHT * p.scale / 2;
+      return p.x + hw >= 0 && p.x - hw <= width && p.y + hh >= 0 && p.y - hh <= height;
+    };
+    this.visible = candidates
+      .map(node => {
+        const p = projectPoint(node, camera, width, height, is3D);
+        return p && { node, ...p };
+      })
+      .filter((p): p is ProjectedNode => !!p && onScreen(p));
+    if (is3D) this.visible.sort((a, b) => a.depth - b.depth);
+
+    this.screen = new SpatialGrid<ProjectedNode>(SCREEN_CELL);
+    this.visible.forEach(p => {
+      const hw = CARD_WIDTH * p.scale / 2, hh = CARD_HEIGHT * p.scale / 2;
+      this.screen.insert(p, p.x - hw, p.y - hh, p.x + hw, p.y + hh);
+    });
+    return this.visible;
+  }
+
+  /** Topmost node under a screen point in the last frame. */
+  hitTest(x: number, y: number, exclude?: string): ProjectedNode | undefined {
+    const hits = this.screen.at(x, y).filter(p => p.node.id !== exclude);
+    return hits[hits.length - 1];
+  }
+
+  projected(id: string): ProjectedNode | undefined {
+    return this.visible.find(p => p.node.id === id);
+  }
+}
+
+const roundRect = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number) => {
+  ctx.beginPath();
+  ctx.roundRect(x, y, w, h, r);
+};
+
+const wrapLabel = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/)) {
+    const next = line ? `${line} ${word}` : word;
+    if (ctx.measureText(next).width <= maxWidth || !line) { line = next; continue; }
+    lines.push(line);
+    line = word;
+    if (lines.length === maxLines) break;
+  }
+  if (lines.length < maxLines && line) lines.push(line);
+  if (lines.length === maxLines && lines.join(' ').length < text.length) lines[maxLines - 1] = lines[maxLines - 1].replace(/\s*\S*$/, '…');
+  return lines;
+};
+
+export interface DrawOptions {
+  width: number;
+  height: number;
+  is3D: boolean;
+  focusId?: string | null;
+  hoverId?: string | null;
+  draggedId?: string | null;
+}
+
+const FONT = 'ui-sans-serif, system-ui, sans-serif';
+
+/** Draws edges, then cards at the detail their on-screen size allows. */
+export const drawGraph = (ctx: CanvasRenderingContext2D, scene: GraphScene, visible: ProjectedNode[], camera: Camera, opts: DrawOptions) => {
+  const dpr = window.devicePixelRatio || 1;
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.clearRect(0, 0, opts.width, opts.height);
+
+  // Edges: one line each, skipped when both ends are off-screen on the same side. Faded with globalAlpha rather
+  // than a hex alpha suffix, which only works for #rrggbb colors.
+  ctx.lineWidth = 2;
+  ctx.globalAlpha = 0.4;
+  const project = (n: NodeData) => projectPoint(n, camera, opts.width, opts.height, opts.is3D);
+  scene.nodes.forEach(node => {
+    const parent = node.parentId ? scene.byId.get(node.parentId) : undefined;
+    if (!parent) return;
+    const a = project(parent), b = project(node);
+    if (!a || !b) return;
+    if ((a.x < 0 && b.x < 0) || (a.y < 0 && b.y < 0) || (a.x > opts.width && b.x > opts.width) || (a.y > opts.height && b.y > opts.height)) return;
+    ctx.strokeStyle = node.color;
+    ctx.beginPath();
+    ctx.moveTo(a.x, a.y);
+    ctx.lineTo(b.x, b.y);
+    ctx.stroke();
+  });
+
+  visible.forEach(p => {
+    const { node } = p;
+    const w = CARD_WIDTH * p.scale;
+    ctx.globalAlpha = node.id === opts.draggedId ? 0.7 : 1;
+
+    if (w < DOT_BELOW) {
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.fillStyle = node.color;
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, Math.max(2, w / 4), 0, Math.PI * 2);
+      ctx.fill();
+      return;
+    }
+
+    // Draw in card units around the node centre.
+    ctx.setTransform(dpr * p.scale, 0, 0, dpr * p.scale, dpr * p.x, dpr * p.y);
+    const x = -CARD_WIDTH / 2, y = -CARD_HEIGHT / 2;
+    roundRect(ctx, x, y, CARD_WIDTH, CARD_HEIGHT, 36);
+    ctx.fillStyle = node.color;
+    ctx.fill();
+    const highlighted = node.id === opts.focusId || node.id === opts.hoverId;
+    ctx.lineWidth = node.id === opts.focusId ? 6 : 2;
+    ctx.strokeStyle = highlighted ? 'rgba(255,255,255,0.9)' : 'rgba(255,255,255,0.4)';
+    ctx.stroke();
+
+    if (w < TEXT_FROM) return;
+    ctx.fillStyle = 'rgba(255,255,255,0.7)';
+    ctx.font = `900 9px ${FONT}`;
+    ctx.textBaseline = 'top';
+    ctx.fillText(node.type.toUpperCase(), x + 22, y + 18);
+
+    ctx.fillStyle = '#fff';
+    ctx.font = `900 12px ${FONT}`;
+    wrapLabel(ctx, node.label, CARD_WIDTH - 44, 2).forEach((line, i) => ctx.fillText(line, x + 22, y + 36 + i * 15));
+
+    ctx.font = `900 8px ${FONT}`;
+    const chip = node.emotion.toUpperCase();
+    const chipWidth = ctx.measureText(chip).width + 16;
+    roundRect(ctx, x + 22, y + CARD_HEIGHT - 30, chipWidth, 16, 8);
+    ctx.fillStyle = 'rgba(0,0,0,0.4)';
+    ctx.fill();
+    ctx.fillStyle = 'rgba(255,255,255,0.95)';
+    ctx.fillText(chip, x + 30, y + CARD_HEIGHT - 26);
+  });
+  ctx.globalAlpha = 1;
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+};
@@ -0,0 +1,136 @@
+import { Note, Commit, EmotionSpan } from '../types';
+import { getHeadCommit } from './branching';
+
+export type EdgeKind = 'links' | 'keywords' | 'clusters';
+
+export interface VaultEdge {
+  source: string;
+  target: string;
+  weight: number;
+  links: number; // Wiki-links in either direction
+  keywords: string[]; // Shared analysis keywords
+  clusters: string[]; // Shared emotion clusters
+}
+
+export interface Backlink {
+  note: Note;
+  count: number;
+  snippet: string;
+}
+
+// [[Note Title]], optionally [[Note Title|shown text]].
+const WIKI_LINK = /\[\[([^[\]|\n]+)(\|[^[\]\n]*)?\]\]/g;
+
+// A wiki-link counts fully; keyword and cluster overlap count by Jaccard similarity.
+const EDGE_WEIGHTS: Record<EdgeKind, number> = { links: 1, keywords: 1, clusters: 0.5 };
+
+const titleKey = (title: string) => title.trim().toLowerCase();
+
+const headOf = (note: Note): Commit | undefined => getHeadCommit(note.branches[note.activeBranch]);
+
+export const extractWikiLinks = (text: string): string[] =>
+  Array.from(text.matchAll(WIKI_LINK), m => m[1].trim());
+
+/** Titles match case-insensitively; the first note wins if two share a title. */
+export const findNoteByTitle = (notes: Note[], title: string): Note | undefined =>
+  notes.find(n => titleKey(n.title) === titleKey(title));
+
+const overlap = (a: string[], b: string[]) => {
+  const shared = a.filter(x => b.includes(x));
+  const union = new Set([...a, ...b]).size;
+  return { shared, score: union ? shared.length / union : 0 };
+};
+
+/** Undirected, weighted edges between notes, built from their active heads. */
+export const buildVaultGraph = (notes: Note[], kinds: EdgeKind[] = ['links', 'keywords', 'clusters']): VaultEdge[] => {
+  const pairKey = (a: string, b: string) => a < b ? `${a}|${b}` : `${b}|${a}`;
+  const byTitle = new Map<string, Note>();
+  notes.forEach(n => { if (!byTitle.has(titleKey(n.title))) byTitle.set(titleKey(n.title), n); });
+
+  const linkCounts = new Map<string, number>();
+  notes.forEach(n => extractWikiLinks(headOf(n)?.content || '').forEach(title => {
+    const target = byTitle.get(titleKey(title));
+    if (!target || target.id === n.id) return;
+    const key = pairKey(n.id, target.id);
+    linkCounts.set(key, (linkCounts.get(key) || 0) + 1);
+  }));
+  const keywords = new Map(notes.map(n => [n.id, headOf(n)?.analysis?.keywords || []] as const));
+
+  const edges: VaultEdge[] = [];
+  for (let i = 0; i < notes.length; i++) {
+    for (let j = i + 1; j < notes.length; j++) {
+      const a = notes[i], b = notes[j];
+      const links = kinds.includes('links') ? linkCounts.get(pairKey(a.id, b.id)) || 0 : 0;
+      const kw = kinds.includes('keywords') ? overlap(keywords.get(a.id)!, keywords.get(b.id)!) : { shared: [], score: 0 };
+      const cl = kinds.includes('clusters') ? overlap(a.clusters, b.clusters) : { shared: [], score: 0 };
+      const weight = links * EDGE_WEIGHTS.links + kw.score * EDGE_WEIGHTS.keywords + cl.score * EDGE_WEIGHTS.clusters;
+      if (weight > 0) edges.push({ source: a.id, target: b.id, weight, links, keywords: kw.shared, clusters: cl.shared });
+    }
+  }
+  return edges;
+};
+
+/** Notes whose active head links to this one, with the text around the first link. */
+export const findBacklinks = (notes: Note[], note: Note): Backlink[] => {
+  const key = titleKey(note.title);
+  return notes
+    .filter(n => n.id !== note.id)
+    .map(n => {
+      const content = headOf(n)?.content || '';
+      const matches = Array.from(content.matchAll(WIKI_LINK)).filter(m => titleKey(m[1]) === key);
+      if (!matches.length) return null;
+      const at = matches[0].index!;
+      const from = Math.max(0, at - 60);
+      const to = Math.min(content.length, at + matches[0][0].length + 60);
+      const snippet = `${from > 0 ? '…' : ''}${content.slice(from, to).replace(/\s+/g, ' ').trim()}${to < content.length ? '…' : ''}`;
+      return { note: n, count: matches.length, snippet };
+    })
+    .filter((b): b is Backlink => b !== null)
+    .sort((a, b) => b.count - a.count || a.note.title.localeCompare(b.note.title));
+};
+
+// Rewrites links to `from`, keeping any alias, and returns a mapper for offsets in the old text.
+const relinkText = (text: string, from: string, to: string) => {
+  const key = titleKey(from);
+  const edits: { at: number; delta: number }[] = [];
+  const content = text.replace(WIKI_LINK, (match: string, title: string, alias: string | undefined, offset: number) => {
+    if (titleKey(title) !== key) return match;
+    const next = `[[${to}${alias || ''}]]`;
+    edits.push({ at: offset + match.length, delta: next.length - match.length });
+    return next;
+  });
+  const shift = (pos: number) => pos + edits.filter(e => e.at <= pos).reduce((sum, e) => sum + e.delta, 0);
+  return { content, changed: edits.length > 0, shift };
+};
+
+/**
+ * Points links at a renamed note. Every branch head that links to it gets a new commit with the rewritten
+ * text; the head's analysis is carried over with its spans shifted to the new offsets. Returns only the
+ * notes that changed.
+ */
+export const renameLinksInVault = (notes: Note[], from: string, to: string): Note[] =>
+  notes.flatMap(note => {
+    let changed = false;
+    const branches = { ...note.branches };
+    Object.values(note.branches).forEach(branch => {
+      const head = getHeadCommit(branch);
+      if (!head) return;
+      const { content, changed: relinked, shift } = relinkText(head.content, from, to);
+      if (!relinked) return;
+      const spans = head.analysis?.spans?.map((s): EmotionSpan => ({ ...s, start: shift(s.start), end: shift(s.end) }));
+      const commit: Commit = {
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        content,
+        author: 'User',
+        message: `Relink ${from} → ${to}`,
+        parentId: head.id,
+        assets: [...(head.assets || [])],
+        analysis: head.analysis && { ...head.analysis, spans },
+        autoMap: head.autoMap
+      };
+      branches[branch.name] = { ...branch, commits: [...branch.commits, commit], head: commit.id };
+      changed = true;
+    });
+    return changed ? [{ ...note, branches, updatedAt: Date.now() }] : [];
+  });
@@ -0,0 +1,7 @@
+import { layoutNodes, LayoutRequest } from './layouts';
+
+// Runs layouts for large maps off the main thread; see computeLayout.
+self.onmessage = (e: MessageEvent<LayoutRequest>) => {
+  const { nodes, layout, is3D } = e.data;
+  (self as unknown as Worker).postMessage(layoutNodes(nodes, layout, is3D));
+};
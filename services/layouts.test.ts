@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { MapLayout, NodeData } from '../types';
+import { forceLayout, layoutNodes } from './layouts';
+import { makeNode } from '../test/fixtures';
+
+// Root with three branches of three leaves each.
+const tree = (): NodeData[] => [
+  makeNode('root'),
+  ...['a', 'b', 'c'].flatMap(p => [makeNode(p, { parentId: 'root' }), ...[1, 2, 3].map(i => makeNode(`${p}${i}`, { parentId: p }))])
+];
+
+// Cards are at most 260 by 130 map units including their margin.
+const overlapping = (nodes: NodeData[]) => nodes.some((a, i) =>
+  nodes.slice(i + 1).some(b => Math.abs(a.x - b.x) < 259 && Math.abs(a.y - b.y) < 129 && Math.abs(a.z - b.z) < 129));
+
+const at = (nodes: NodeData[], id: string) => nodes.find(n => n.id === id)!;
+
+describe('layoutNodes', () => {
+  const layouts: MapLayout[] = ['radial', 'tree', 'force'];
+
+  layouts.forEach(layout => [false, true].forEach(is3D => {
+    it(`${layout}${is3D ? ' 3D' : ''} keeps every node and leaves no cards overlapping`, () => {
+      const result = layoutNodes(tree(), layout, is3D);
+      expect(result.map(n => n.id)).toEqual(tree().map(n => n.id));
+      expect(overlapping(result)).toBe(false);
+      result.forEach(n => [n.x, n.y, n.z].forEach(v => expect(Number.isInteger(v)).toBe(true)));
+      if (!is3D) result.forEach(n => expect(n.z).toBe(0));
+    });
+  }));
+
+  it('is deterministic', () => {
+    layouts.forEach(layout => expect(layoutNodes(tree(), layout, false)).toEqual(layoutNodes(tree(), layout, false)));
+  });
+
+  it('puts the radial root at the centre with children on a ring', () => {
+    const result = layoutNodes(tree(), 'radial', false);
+    expect(Math.hypot(at(result, 'root').x, at(result, 'root').y)).toBe(0);
+    // Coordinates are rounded, so the radii agree to within a unit or two.
+    const radii = ['a', 'b', 'c'].map(id => Math.hypot(at(result, id).x, at(result, id).y));
+    expect(Math.max(...radii) - Math.min(...radii)).toBeLessThan(2);
+  });
+
+  it('lays the tree out left to right by depth', () => {
+    const result = layoutNodes(tree(), 'tree', false);
+    expect(at(result, 'root').x).toBeLessThan(at(result, 'a').x);
+    expect(at(result, 'a').x).toBeLessThan(at(result, 'a1').x);
+    expect(at(result, 'a').x).toBe(at(result, 'c').x);
+  });
+
+  it('leaves pinned nodes where the user put them', () => {
+    const nodes = tree().map(n => n.id === 'b2' ? { ...n, x: 1234, y: -567, manual: { position: true } } : n);
+    layouts.forEach(layout => expect(at(layoutNodes(nodes, layout, false), 'b2')).toMatchObject({ x: 1234, y: -567 }));
+  });
+
+  it('returns an empty map unchanged', () => {
+    expect(layoutNodes([], 'force', false)).toEqual([]);
+  });
+});
+
+describe('forceLayout', () => {
+  it('pulls strongly linked nodes closer than unlinked ones', () => {
+    const ids = ['a', 'b', 'c', 'd'];
+    const pos = forceLayout(ids, [{ source: 'a', target: 'b', weight: 1 }, { source: 'c', target: 'd', weight: 1 }]);
+    const dist = (x: string, y: string) => Math.hypot(pos.get(x)!.x - pos.get(y)!.x, pos.get(x)!.y - pos.get(y)!.y);
+    expect(pos.size).toBe(4);
+    expect(dist('a', 'b')).toBeLessThan(dist('a', 'c'));
+    expect(dist('c', 'd')).toBeLessThan(dist('b', 'd'));
+  });
+
+  it('ignores edges to unknown ids', () => {
+    expect(() => forceLayout(['a'], [{ source: 'a', target: 'zz', weight: 1 }])).not.toThrow();
+  });
+});
@@ -0,0 +1,320 @@
+import { NodeData, MapLayout } from '../types';
+import { ROOT_ID } from './mindmap';
+
+export const LAYOUTS: { id: MapLayout; label: string }[] = [
+  { id: 'radial', label: 'Radial' },
+  { id: 'tree', label: 'Tree' },
+  { id: 'force', label: 'Force' }
+];
+
+// Footprint of a node card in map units, with some breathing room.
+const NODE_WIDTH = 260;
+const NODE_HEIGHT = 130;
+const LEVEL_GAP = 340;
+
+// Maps bigger than this are laid out in a worker so the graph stays responsive.
+const WORKER_THRESHOLD = 150;
+
+interface Point { x: number; y: number; z: number }
+type Positions = Map<string, Point>;
+
+interface Hierarchy {
+  root: NodeData;
+  children: Map<string, NodeData[]>;
+  depth: Map<string, number>;
+}
+
+export interface LayoutRequest {
+  nodes: NodeData[];
+  layout: MapLayout;
+  is3D: boolean;
+}
+
+const isPinned = (n: NodeData) => !!n.manual?.position;
+
+const addTo = <T>(map: Map<string, T[]>, key: string, value: T) => {
+  const list = map.get(key);
+  if (list) list.push(value); else map.set(key, [value]);
+};
+
+const buildHierarchy = (nodes: NodeData[]): Hierarchy => {
+  const byParent = new Map<string, NodeData[]>();
+  nodes.forEach(n => n.parentId && addTo(byParent, n.parentId, n));
+  const root = nodes.find(n => n.id === ROOT_ID) || nodes[0];
+  const children = new Map<string, NodeData[]>();
+  const depth = new Map<string, number>();
+
+  const attach = (node: NodeData, parent: NodeData | null) => {
+    depth.set(node.id, parent ? depth.get(parent.id)! + 1 : 0);
+    if (parent) addTo(children, parent.id, node);
+    const queue = [node];
+    while (queue.length) {
+      const current = queue.shift()!;
+      (byParent.get(current.id) || []).filter(c => !depth.has(c.id)).forEach(c => {
+        depth.set(c.id, depth.get(current.id)! + 1);
+        addTo(children, current.id, c);
+        queue.push(c);
+      });
+    }
+  };
+  attach(root, null);
+  // Orphans and cycles the root cannot reach hang off the root so every node gets a place.
+  nodes.forEach(n => { if (!depth.has(n.id)) attach(n, root); });
+  return { root, children, depth };
+};
+
+const leafCounts = (h: Hierarchy): Map<string, number> => {
+  const counts = new Map<string, number>();
+  const count = (id: string): number => {
+    const kids = h.children.get(id) || [];
+    const c = kids.length ? kids.reduce((sum, k) => sum + count(k.id), 0) : 1;
+    counts.set(id, c);
+    return c;
+  };
+  count(h.root.id);
+  return counts;
+};
+
+/**
+ * Concentric rings by depth, each subtree getting a wedge sized by its leaf count. Adjacent wedges are at
+ * least 2π/leaves apart, so the first ring grows until that chord fits a card. In 3D the leaves follow
+ * a spherical spiral in depth-first order and parents sit on the mean direction of their leaves.
+ */
+const radial = (h: Hierarchy, is3D: boolean): Positions => {
+  const leaves = leafCounts(h);
+  const total = leaves.get(h.root.id)!;
+  const first = is3D
+    ? Math.max(LEVEL_GAP, NODE_WIDTH * Math.sqrt(total / (4 * Math.PI)))
+    : Math.max(LEVEL_GAP, total > 1 ? (NODE_WIDTH + 1) / (2 * Math.sin(Math.PI / total)) : 0);
+  const ringRadius = (id: string) => {
+    const d = h.depth.get(id)!;
+    return d === 0 ? 0 : first + (d - 1) * LEVEL_GAP;
+  };
+  const pos: Positions = new Map();
+
+  if (!is3D) {
+    const place = (node: NodeData, from: number, to: number) => {
+      const angle = (from + to) / 2;
+      const r = ringRadius(node.id);
+      pos.set(node.id, { x: Math.cos(angle) * r, y: Math.sin(angle) * r, z: 0 });
+      let start = from;
+      (h.children.get(node.id) || []).forEach(c => {
+        const span = (to - from) * leaves.get(c.id)! / leaves.get(node.id)!;
+        place(c, start, start + span);
+        start += span;
+      });
+    };
+    place(h.root, 0, Math.PI * 2);
+    return pos;
+  }
+
+  // Saff-Kuijlaars spiral: consecutive leaves stay neighbours, so subtrees form contiguous patches.
+  let index = 0;
+  let phi = 0;
+  const direction = (node: NodeData): Point => {
+    const kids = h.children.get(node.id) || [];
+    let dir: Point;
+    if (!kids.length) {
+      const y = 1 - 2 * (index + 0.5) / total;
+      const ring = Math.sqrt(1 - y * y);
+      if (index > 0) phi += 3.6 / Math.sqrt(total * (1 - y * y));
+      index++;
+      dir = { x: Math.cos(phi) * ring, y, z: Math.sin(phi) * ring };
+    } else {
+      const dirs = kids.map(direction);
+      const sum = dirs.reduce((acc, d) => ({ x: acc.x + d.x, y: acc.y + d.y, z: acc.z + d.z }), { x: 0, y: 0, z: 0 });
+      const len = Math.hypot(sum.x, sum.y, sum.z);
+      dir = len > 1e-6 ? { x: sum.x / len, y: sum.y / len, z: sum.z / len } : dirs[0];
+    }
+    const r = ringRadius(node.id);
+    pos.set(node.id, { x: dir.x * r, y: dir.y * r, z: dir.z * r });
+    return dir;
+  };
+  direction(h.root);
+  return pos;
+};
+
+/** Depth runs left to right; leaves take consecutive rows and parents centre on their children. */
+const tidyTree = (h: Hierarchy): Positions => {
+  const pos: Positions = new Map();
+  let row = 0;
+  const place = (node: NodeData): number => {
+    const kids = h.children.get(node.id) || [];
+    let y: number;
+    if (kids.length) {
+      const ys = kids.map(place);
+      y = (ys[0] + ys[ys.length - 1]) / 2;
+    } else {
+      y = row++ * NODE_HEIGHT;
+    }
+    pos.set(node.id, { x: h.depth.get(node.id)! * LEVEL_GAP, y, z: 0 });
+    return y;
+  };
+  place(h.root);
+  return pos;
+};
+
+/**
+ * Cone tree: children hang one level below their parent on a ring whose circumference covers their own
+ * cones, so sibling subtrees never intersect.
+ */
+const coneTree = (h: Hierarchy): Positions => {
+  const radius = new Map<string, number>();
+  const ring = new Map<string, number>();
+  const measure = (node: NodeData): number => {
+    const kids = h.children.get(node.id) || [];
+    if (!kids.length) {
+      radius.set(node.id, NODE_WIDTH / 2);
+      return NODE_WIDTH / 2;
+    }
+    const rs = kids.map(measure);
+    const widest = Math.max(...rs);
+    const r = kids.length === 1 ? 0 : Math.max(rs.reduce((a, b) => a + b, 0) / Math.PI, widest);
+    ring.set(node.id, r);
+    radius.set(node.id, r + widest);
+    return r + widest;
+  };
+  measure(h.root);
+
+  const pos: Positions = new Map();
+  const place = (node: NodeData, p: Point) => {
+    pos.set(node.id, p);
+    const kids = h.children.get(node.id) || [];
+    const total = kids.reduce((sum, k) => sum + radius.get(k.id)!, 0);
+    let angle = 0;
+    kids.forEach(c => {
+      const share = radius.get(c.id)! / total * Math.PI * 2;
+      const a = angle + share / 2;
+      angle += share;
+      place(c, { x: p.x + Math.cos(a) * ring.get(node.id)!, y: p.y + NODE_HEIGHT * 2, z: p.z + Math.sin(a) * ring.get(node.id)! });
+    });
+  };
+  place(h.root, { x: 0, y: 0, z: 0 });
+  return pos;
+};
+
+// Shifts the bounding box onto the origin, where the view is centred.
+const centre = (pos: Positions): Positions => {
+  const points = Array.from(pos.values());
+  const mid = (axis: keyof Point) => (Math.min(...points.map(p => p[axis])) + Math.max(...points.map(p => p[axis]))) / 2;
+  const [x, y, z] = [mid('x'), mid('y'), mid('z')];
+  points.forEach(p => { p.x -= x; p.y -= y; p.z -= z; });
+  return pos;
+};
+
+// Fruchterman-Reingold on index pairs, in place; heavier edges pull harder. The iteration count shrinks
+// with the square of the node count to bound the work.
+const simulate = (p: Point[], fixed: boolean[], edges: [number, number, number][], is3D: boolean) => {
+  const k = LEVEL_GAP;
+  const count = p.length;
+  const iterations = Math.round(Math.min(300, Math.max(40, 4e7 / (count * count))));
+  for (let it = 0; it < iterations; it++) {
+    const temperature = (LEVEL_GAP / 2) * (1 - it / iterations);
+    const disp = p.map(() => ({ x: 0, y: 0, z: 0 }));
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        const dx = p[i].x - p[j].x, dy = p[i].y - p[j].y, dz = p[i].z - p[j].z;
+        const dist = Math.max(Math.hypot(dx, dy, dz), 1);
+        const f = (k * k) / dist / dist;
+        disp[i].x += dx * f; disp[i].y += dy * f; disp[i].z += dz * f;
+        disp[j].x -= dx * f; disp[j].y -= dy * f; disp[j].z -= dz * f;
+      }
+    }
+    edges.forEach(([a, b, weight]) => {
+      const dx = p[a].x - p[b].x, dy = p[a].y - p[b].y, dz = p[a].z - p[b].z;
+      const f = weight * Math.max(Math.hypot(dx, dy, dz), 1) / k;
+      disp[a].x -= dx * f; disp[a].y -= dy * f; disp[a].z -= dz * f;
+      disp[b].x += dx * f; disp[b].y += dy * f; disp[b].z += dz * f;
+    });
+    p.forEach((point, i) => {
+      if (fixed[i]) return;
+      const d = disp[i];
+      if (!is3D) d.z = 0;
+      const len = Math.hypot(d.x, d.y, d.z);
+      if (len < 1e-6) return;
+      const step = Math.min(len, temperature) / len;
+      point.x += d.x * step; point.y += d.y * step; point.z += d.z * step;
+    });
+  }
+};
+
+// Seeded from the radial layout so results are deterministic; pinned nodes and the root stay put.
+const forceDirected = (nodes: NodeData[], h: Hierarchy, is3D: boolean): Positions => {
+  const seed = radial(h, is3D);
+  const index = new Map(nodes.map((n, i) => [n.id, i] as const));
+  const p = nodes.map(n => isPinned(n) ? { x: n.x, y: n.y, z: is3D ? n.z : 0 } : { ...seed.get(n.id)! });
+  const edges: [number, number, number][] = [];
+  h.children.forEach((kids, parentId) => kids.forEach(k => edges.push([index.get(parentId)!, index.get(k.id)!, 1])));
+  simulate(p, nodes.map(n => isPinned(n) || n.id === h.root.id), edges, is3D);
+  return new Map(nodes.map((n, i) => [n.id, p[i]] as const));
+};
+
+/** Flat force-directed positions for an arbitrary weighted graph, seeded on a circle in input order. */
+export const forceLayout = (ids: string[], edges: { source: string; target: string; weight: number }[]): Map<string, { x: number; y: number }> => {
+  const index = new Map(ids.map((id, i) => [id, i] as const));
+  const r = Math.max(LEVEL_GAP, ids.length * LEVEL_GAP / (2 * Math.PI));
+  const p = ids.map((_, i) => {
+    const angle = (i / ids.length) * Math.PI * 2;
+    return { x: Math.cos(angle) * r, y: Math.sin(angle) * r, z: 0 };
+  });
+  const links = edges
+    .filter(e => index.has(e.source) && index.has(e.target))
+    .map(e => [index.get(e.source)!, index.get(e.target)!, e.weight] as [number, number, number]);
+  simulate(p, ids.map(() => false), links, false);
+  return new Map(ids.map((id, i) => [id, { x: Math.round(p[i].x), y: Math.round(p[i].y) }] as const));
+};
+
+// Pushes overlapping cards apart along the axis that needs the smaller move; pinned nodes never move.
+const separate = (nodes: NodeData[], pos: Positions, is3D: boolean) => {
+  const items = nodes.map(n => ({ p: pos.get(n.id)!, fixed: isPinned(n) }));
+  for (let pass = 0; pass < 50; pass++) {
+    let moved = false;
+    for (let i = 0; i < items.length; i++) {
+      for (let j = i + 1; j < items.length; j++) {
+        const a = items[i], b = items[j];
+        if (a.fixed && b.fixed) continue;
+        const dx = b.p.x - a.p.x, dy = b.p.y - a.p.y, dz = b.p.z - a.p.z;
+        const overlap: [keyof Point, number, number][] = [
+          ['x', NODE_WIDTH - Math.abs(dx), dx], ['y', NODE_HEIGHT - Math.abs(dy), dy]
+        ];
+        if (is3D) overlap.push(['z', NODE_HEIGHT - Math.abs(dz), dz]);
+        if (overlap.some(([, o]) => o <= 0)) continue;
+        const [axis, amount, delta] = overlap.reduce((min, cur) => cur[1] < min[1] ? cur : min);
+        const dir = delta < 0 ? -1 : 1;
+        const share = a.fixed || b.fixed ? amount : amount / 2;
+        if (!a.fixed) a.p[axis] -= dir * share;
+        if (!b.fixed) b.p[axis] += dir * share;
+        moved = true;
+      }
+    }
+    if (!moved) break;
+  }
+};
+
+/** Positions every node with the chosen algorithm; nodes the user pinned keep their place. */
+export const layoutNodes = (nodes: NodeData[], layout: MapLayout, is3D: boolean): NodeData[] => {
+  if (nodes.length === 0) return nodes;
+  const h = buildHierarchy(nodes);
+  const pos = layout === 'force' ? forceDirected(nodes, h, is3D)
+    : layout === 'tree' ? centre(is3D ? coneTree(h) : tidyTree(h))
+    : radial(h, is3D);
+  nodes.filter(isPinned).forEach(n => pos.set(n.id, { x: n.x, y: n.y, z: is3D ? n.z : 0 }));
+  separate(nodes, pos, is3D);
+  return nodes.map(n => {
+    if (isPinned(n)) return n;
+    const p = pos.get(n.id)!;
+    return { ...n, x: Math.round(p.x), y: Math.round(p.y), z: Math.round(p.z) };
+  });
+};
+
+/** Same as layoutNodes, but large maps are computed in a web worker. */
+export const computeLayout = (nodes: NodeData[], layout: MapLayout, is3D: boolean): Promise<NodeData[]> => {
+  if (nodes.length <= WORKER_THRESHOLD || typeof Worker === 'undefined') return Promise.resolve(layoutNodes(nodes, layout, is3D));
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./layoutWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<NodeData[]>) => { worker.terminate(); resolve(e.data); };
+    worker.onerror = (e) => { worker.terminate(); reject(new Error(e.message || 'Layout worker failed.')); };
+    const request: LayoutRequest = { nodes, layout, is3D };
+    worker.postMessage(request);
+  });
+};
@@ -0,0 +1,141 @@
+import { GoogleGenAI } from '@google/genai';
+import { LLMProviderId, LLMSettings } from '../types';
+import { getMetaFromDB, saveMetaToDB } from './db';
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  system: string;
+  messages: ChatTurn[];
+  fallback: string; // The rule-based answer; what the local provider streams
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  label: string;
+  remote: boolean;
+  stream(request: CompletionRequest): AsyncGenerator<string>;
+}
+
+export const PROVIDERS: { id: LLMProviderId; label: string; remote: boolean }[] = [
+  { id: 'local', label: 'Local rules', remote: false },
+  { id: 'gemini', label: 'Gemini', remote: true },
+  { id: 'openai', label: 'OpenAI-compatible', remote: true }
+];
+
+// A key from the build environment is only a runtime fallback for an empty key field; it is never saved.
+const ENV_GEMINI_KEY = process.env.GEMINI_API_KEY || '';
+export const HAS_ENV_GEMINI_KEY = !!ENV_GEMINI_KEY;
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+  provider: 'local',
+  gemini: { model: 'gemini-2.5-flash', apiKey: '' },
+  openai: { baseUrl: 'http://localhost:11434/v1', model: 'llama3.1', apiKey: '' },
+  consentFor: null
+};
+
+const META_KEY = 'llmSettings';
+
+// Settings saved by earlier versions may hold the environment key; it is dropped so the next save removes it.
+export const loadLLMSettings = async (): Promise<LLMSettings> => {
+  const stored = await getMetaFromDB<Partial<LLMSettings>>(META_KEY);
+  const settings = { ...DEFAULT_LLM_SETTINGS, ...stored };
+  if (ENV_GEMINI_KEY && settings.gemini.apiKey === ENV_GEMINI_KEY) settings.gemini = { ...settings.gemini, apiKey: '' };
+  return settings;
+};
+
+export const saveLLMSettings = (settings: LLMSettings) => saveMetaToDB(META_KEY, settings);
+
+/** Identifies where note content would go; consent given for one endpoint does not carry over to another. */
+export const consentKey = (settings: LLMSettings): string | null =>
+  settings.provider === 'gemini' ? 'gemini'
+    : settings.provider === 'openai' ? `openai:${settings.openai.baseUrl.trim().replace(/\/+$/, '')}`
+    : null;
+
+export const hasRemoteConsent = (settings: LLMSettings) => {
+  const key = consentKey(settings);
+  return key !== null && settings.consentFor === key;
+};
+
+const abortError = () => new DOMException('The request was cancelled.', 'AbortError');
+
+export const isAbortError = (err: unknown) => (err as Error)?.name === 'AbortError';
+
+export const localProvider: LLMProvider = {
+  id: 'local', label: 'Local rules', remote: false,
+  async *stream({ fallback, signal }) {
+    // A few words per chunk so the reply renders the same way a remote stream does.
+    const parts = fallback.split(/(\s+)/);
+    for (let i = 0; i < parts.length; i += 8) {
+      if (signal?.aborted) throw abortError();
+      yield parts.slice(i, i + 8).join('');
+      await new Promise(r => setTimeout(r, 0));
+    }
+  }
+};
+
+const geminiProvider = ({ model, apiKey }: LLMSettings['gemini']): LLMProvider => ({
+  id: 'gemini', label: `Gemini · ${model}`, remote: true,
+  async *stream({ system, messages, signal }) {
+    if (!apiKey) throw new Error('Add a Gemini API key in the assistant settings.');
+    const ai = new GoogleGenAI({ apiKey });
+    const response = await ai.models.generateContentStream({
+      model,
+      contents: messages.map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+      config: { systemInstruction: system, abortSignal: signal }
+    });
+    for await (const chunk of response) {
+      if (signal?.aborted) throw abortError();
+      if (chunk.text) yield chunk.text;
+    }
+  }
+});
+
+/** Chat completions over server-sent events; servers that ignore `stream` and answer in one JSON body work too. */
+const openAIProvider = ({ baseUrl, model, apiKey }: LLMSettings['openai']): LLMProvider => ({
+  id: 'openai', label: `${model} · ${baseUrl.replace(/^https?:\/\//, '')}`, remote: true,
+  async *stream({ system, messages, signal }) {
+    const res = await fetch(`${baseUrl.trim().replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+      body: JSON.stringify({ model, stream: true, messages: [{ role: 'system', content: system }, ...messages] }),
+      signal
+    });
+    if (!res.ok) throw new Error(`${res.status} ${res.statusText} ${(await res.text()).slice(0, 200)}`.trim());
+    if (!res.body || res.headers.get('content-type')?.includes('application/json')) {
+      const body = await res.json();
+      yield body.choices?.[0]?.message?.content || '';
+      return;
+    }
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !data) continue;
+        if (data === '[DONE]') return;
+        const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  }
+});
+
+/** The provider to use right now: remote ones only once the user has agreed to send content to them. */
+export const createProvider = (settings: LLMSettings): LLMProvider => {
+  if (!hasRemoteConsent(settings)) return localProvider;
+  return settings.provider === 'gemini'
+    ? geminiProvider({ ...settings.gemini, apiKey: settings.gemini.apiKey || ENV_GEMINI_KEY })
+    : openAIProvider(settings.openai);
+};
@@ -0,0 +1,222 @@
+import JSZip from 'jszip';
+import { Note, Asset, Commit, MLModelType } from '../types';
+import { getAssetBlob, persistAssets } from './db';
+import { mlEngine } from './mlEngine';
+import { normalizeTag } from './tags';
+
+type FrontmatterValue = string | number | string[] | { [key: string]: FrontmatterValue };
+type Frontmatter = { [key: string]: FrontmatterValue };
+
+const ASSET_REF = /\[Asset Ref: ([^\]]+)\]/g;
+const MD_LINK = /(!?)\[([^\]]*)\]\(([^)\s]+)\)/g;
+
+// --- Minimal YAML subset: scalars, flow/block string lists and one level of nested maps ---
+
+const yamlScalar = (v: string | number): string => {
+  if (typeof v === 'number') return String(v);
+  return /^[\w.\-@/ ]+$/.test(v) && !/^[\d.\-]+$/.test(v) && v.trim() === v && v !== '' ? v : JSON.stringify(v);
+};
+
+const emitYaml = (data: Frontmatter, indent = ''): string =>
+  Object.entries(data).map(([key, value]) => {
+    if (Array.isArray(value)) return `${indent}${key}: [${value.map(yamlScalar).join(', ')}]`;
+    if (typeof value === 'object') return `${indent}${key}:\n${emitYaml(value, indent + '  ')}`;
+    return `${indent}${key}: ${yamlScalar(value)}`;
+  }).join('\n');
+
+const parseScalar = (raw: string): string | number => {
+  const v = raw.trim();
+  if (v.startsWith('"')) { try { return JSON.parse(v); } catch { return v.slice(1, -1); } }
+  if (v.startsWith("'")) return v.slice(1, -1).replace(/''/g, "'");
+  if (/^-?\d+(\.\d+)?$/.test(v)) return Number(v);
+  return v;
+};
+
+const parseFlowList = (raw: string): string[] => {
+  const inner = raw.trim().slice(1, -1).trim();
+  if (!inner) return [];
+  return (inner.match(/"(?:[^"\\]|\\.)*"|'[^']*'|[^,]+/g) || []).map(s => String(parseScalar(s))).filter(s => s.length > 0);
+};
+
+export const parseFrontmatter = (markdown: string): { data: Frontmatter; body: string } => {
+  const match = markdown.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) return { data: {}, body: markdown };
+
+  const data: Frontmatter = {};
+  let section: Frontmatter | null = null;
+  // The last key with an empty value: a nested map, or a block list once "- item" lines follow.
+  let open: { target: Frontmatter; key: string } | null = null;
+
+  for (const line of match[1].split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item) {
+      if (!open) continue;
+      const current = open.target[open.key];
+      const list = Array.isArray(current) ? current : (open.target[open.key] = []) as string[];
+      if (open.target === data) section = null;
+      list.push(String(parseScalar(item[1])));
+      continue;
+    }
+
+    const kv = line.match(/^(\s*)([\w-]+):\s*(.*)$/);
+    if (!kv) continue;
+    const [, indent, key, rest] = kv;
+    if (!indent) section = null;
+    const target = indent && section ? section : data;
+
+    if (rest.trim() === '') {
+      target[key] = {};
+      open = { target, key };
+      if (target === data) section = target[key] as Frontmatter;
+    } else {
+      open = null;
+      target[key] = rest.trim().startsWith('[') ? parseFlowList(rest) : parseScalar(rest);
+    }
+  }
+  return { data, body: markdown.slice(match[0].length) };
+};
+
+// --- Export ---
+
+const extensionFor = (asset: Asset): string => {
+  const fromName = asset.name.match(/\.(\w{1,5})$/)?.[1];
+  if (fromName) return fromName.toLowerCase();
+  const fromMime = asset.mimeType?.split('/')[1]?.split(';')[0];
+  if (fromMime) return fromMime === 'jpeg' ? 'jpg' : fromMime;
+  return asset.type === 'image' ? 'jpg' : asset.type === 'audio' ? 'webm' : 'mp4';
+};
+
+export const assetFileName = (asset: Asset): string => `assets/${asset.id}.${extensionFor(asset)}`;
+
+export const noteToMarkdown = (note: Note): string => {
+  const branch = note.branches[note.activeBranch];
+  const head = branch.commits.find(c => c.id === branch.head);
+  const assets = head?.assets || [];
+
+  const frontmatter: Frontmatter = {
+    title: note.title,
+    tags: note.tags,
+    clusters: note.clusters,
+    createdAt: new Date(note.createdAt).toISOString(),
+    updatedAt: new Date(note.updatedAt).toISOString(),
+    preferredModel: note.config.preferredModel
+  };
+  if (head?.analysis) {
+    frontmatter.analysis = {
+      sentiment: head.analysis.sentiment,
+      ...(head.analysis.valence !== undefined ? { valence: Number(head.analysis.valence.toFixed(3)) } : {}),
+      dominantEmotion: head.analysis.emotions[0]?.label || 'Neutral',
+      emotions: head.analysis.emotions.map(e => e.label),
+      keywords: head.analysis.keywords,
+      modelUsed: head.analysis.modelUsed,
+      confidence: Number(head.analysis.confidence.toFixed(3))
+    };
+  }
+
+  const body = (head?.content || '').replace(ASSET_REF, (ref, id: string) => {
+    const asset = assets.find(a => a.id === id);
+    if (!asset) return ref;
+    return `${asset.type === 'image' ? '!' : ''}[${asset.name}](${assetFileName(asset)})`;
+  });
+
+  return `---\n${emitYaml(frontmatter)}\n---\n\n${body}\n`;
+};
+
+export const slugify = (title: string) => title.trim().replace(/[^\w\- ]+/g, '').replace(/\s+/g, '_') || 'Untitled';
+
+/** A bare .md when the head has no media, otherwise a ZIP with the .md and its assets/ folder. */
+export const exportNoteMarkdown = async (note: Note): Promise<{ blob: Blob; fileName: string }> => {
+  const branch = note.branches[note.activeBranch];
+  const head = branch.commits.find(c => c.id === branch.head);
+  const markdown = noteToMarkdown(note);
+  const name = slugify(note.title);
+  const assets = head?.assets || [];
+  if (assets.length === 0) {
+    return { blob: new Blob([markdown], { type: 'text/markdown' }), fileName: `${name}.md` };
+  }
+
+  const zip = new JSZip();
+  zip.file(`${name}.md`, markdown);
+  for (const asset of assets) {
+    const blob = asset.blob || (asset.hash ? await getAssetBlob(asset.hash) : undefined);
+    if (blob) zip.file(assetFileName(asset), blob);
+  }
+  return { blob: await zip.generateAsync({ type: 'blob' }), fileName: `${name}.zip` };
+};
+
+// --- Import ---
+
+const assetTypeFor = (file: File): Asset['type'] =>
+  file.type.startsWith('image') ? 'image' : file.type.startsWith('video') ? 'video' : 'audio';
+
+const relativePath = (file: File): string => (file as File & { webkitRelativePath?: string }).webkitRelativePath || file.name;
+
+const resolveRelative = (fromFile: string, link: string): string => {
+  const parts = fromFile.split('/').slice(0, -1);
+  link.split('/').forEach(seg => {
+    if (seg === '..') parts.pop();
+    else if (seg !== '.' && seg !== '') parts.push(seg);
+  });
+  return parts.join('/');
+};
+
+const asStringList = (v: FrontmatterValue | undefined): string[] =>
+  Array.isArray(v) ? v : typeof v === 'string' && v ? [v] : [];
+
+const asTimestamp = (v: FrontmatterValue | undefined): number | undefined => {
+  if (typeof v === 'number') return v;
+  if (typeof v === 'string') { const t = Date.parse(v); return isNaN(t) ? undefined : t; }
+  return undefined;
+};
+
+export const markdownToNote = async (markdown: string, path: string, siblings: Map<string, File>): Promise<Note> => {
+  const { data, body } = parseFrontmatter(markdown);
+  const drafts: Asset[] = [];
+
+  // Relative links to files in the imported folder become stored assets again.
+  const content = body.replace(MD_LINK, (link, bang: string, label: string, href: string) => {
+    if (/^[a-z]+:/i.test(href)) return link;
+    const file = siblings.get(resolveRelative(path, decodeURIComponent(href)));
+    if (!file) return link;
+    const id = `asset-file-${Date.now()}-${crypto.randomUUID().slice(0, 8)}`;
+    drafts.push({ id, type: assetTypeFor(file), url: URL.createObjectURL(file), name: label || file.name, mimeType: file.type, blob: file });
+    return `[Asset Ref: ${id}]`;
+  }).trim();
+
+  const preferred = mlEngine.getModelTypes().includes(data.preferredModel as MLModelType) ? data.preferredModel as MLModelType : 'lstm-neural';
+  const assets = await persistAssets(drafts);
+  const analysis = await mlEngine.analyzeNote(content, preferred, assets);
+  const now = Date.now();
+  const cid = crypto.randomUUID();
+  const genesis: Commit = {
+    id: cid, timestamp: now, content, author: 'User', message: 'Markdown Import', parentId: null,
+    assets, analysis, autoMap: mlEngine.generateHierarchicalMap(content, assets, analysis.spans)
+  };
+  const fileTitle = path.split('/').pop()!.replace(/\.md$/i, '');
+
+  return {
+    id: crypto.randomUUID(),
+    title: typeof data.title === 'string' && data.title ? data.title : fileTitle,
+    activeBranch: 'main',
+    // Same normalization as tags typed in the editor, so "Work" and " work" end up as one tag.
+    tags: Array.from(new Set(asStringList(data.tags).map(normalizeTag).filter(Boolean))),
+    clusters: analysis.emotions.filter(e => e.impact > 0.66).map(e => e.label),
+    createdAt: asTimestamp(data.createdAt) || now,
+    updatedAt: asTimestamp(data.updatedAt) || now,
+    type: 'text',
+    config: { preferredModel: preferred, recommendedModel: mlEngine.getRecommendation(content), is3D: false },
+    branches: { main: { name: 'main', head: cid, commits: [genesis] } }
+  };
+};
+
+/** Turns every .md file in a picked folder into a new note with a single genesis commit. */
+export const importMarkdownFiles = async (files: File[]): Promise<Note[]> => {
+  const byPath = new Map(files.map(f => [relativePath(f), f] as const));
+  const notes: Note[] = [];
+  for (const file of files.filter(f => /\.md$/i.test(f.name))) {
+    notes.push(await markdownToNote(await file.text(), relativePath(file), byPath));
+  }
+  return notes;
+};
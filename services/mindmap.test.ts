@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { addChildNode, deleteNode, mergeManualEdits, moveNode, renameNode, reparentNode } from './mindmap';
+import { makeNode } from '../test/fixtures';
+
+// What the generator produces for two paragraphs with a sentence each.
+const generated = () => [
+  makeNode('root'),
+  makeNode('p-0', { parentId: 'root' }), makeNode('s-0-0', { parentId: 'p-0' }),
+  makeNode('p-1', { parentId: 'root' }), makeNode('s-1-0', { parentId: 'p-1' })
+];
+
+const ids = (nodes: { id: string }[]) => nodes.map(n => n.id);
+
+describe('mergeManualEdits', () => {
+  it('keeps pinned positions, renamed labels and user-created nodes', () => {
+    let edited = moveNode(generated(), 'p-0', 500, 600);
+    edited = renameNode(edited, 'p-1', 'Renamed');
+    edited = addChildNode(edited, 'p-1', 'Mine');
+    const merged = mergeManualEdits(generated(), edited);
+    expect(merged.find(n => n.id === 'p-0')).toMatchObject({ x: 500, y: 600 });
+    expect(merged.find(n => n.id === 'p-1')!.label).toBe('Renamed');
+    expect(merged.find(n => n.label === 'Mine')!.parentId).toBe('p-1');
+  });
+
+  it('moves user-created nodes to the root when their parent is gone', () => {
+    const edited = addChildNode(generated(), 's-1-0', 'Mine');
+    const merged = mergeManualEdits(generated().filter(n => n.id !== 's-1-0'), edited);
+    expect(merged.find(n => n.label === 'Mine')!.parentId).toBe('root');
+  });
+
+  it('does not bring back deleted nodes or their subtrees', () => {
+    const edited = deleteNode(generated(), 'p-0');
+    expect(ids(edited)).toEqual(['root', 'p-1', 's-1-0']);
+    const regenerated = [...generated(), makeNode('s-0-1', { parentId: 'p-0' })];
+    expect(ids(mergeManualEdits(regenerated, edited))).toEqual(['root', 'p-1', 's-1-0']);
+  });
+
+  it('remembers deletions across several regenerations', () => {
+    let map = deleteNode(generated(), 's-1-0');
+    map = deleteNode(mergeManualEdits(generated(), map), 'p-0');
+    expect(ids(mergeManualEdits(mergeManualEdits(generated(), map), map))).toEqual(['root', 'p-1']);
+  });
+
+  it('drops a generated node moved under a deleted one', () => {
+    let map = reparentNode(generated(), 's-1-0', 'p-0');
+    map = deleteNode(map, 'p-0');
+    expect(ids(mergeManualEdits(generated(), map))).toEqual(['root', 'p-1']);
+  });
+
+  it('does not record user-created nodes as tombstones', () => {
+    const withChild = addChildNode(generated(), 'root', 'Mine');
+    const created = withChild.find(n => n.label === 'Mine')!.id;
+    expect(deleteNode(withChild, created).find(n => n.id === 'root')!.manual).toBeUndefined();
+  });
+});
@@ -0,0 +1,105 @@
+import { Note, NodeData, NodeEdits } from '../types';
+
+export const ROOT_ID = 'root';
+
+const edit = (node: NodeData, changes: Partial<NodeData>, flags: NodeEdits): NodeData =>
+  ({ ...node, ...changes, manual: { ...node.manual, ...flags } });
+
+export const descendantIds = (nodes: NodeData[], id: string): Set<string> => {
+  const found = new Set<string>();
+  const queue = [id];
+  while (queue.length) {
+    const current = queue.shift()!;
+    nodes.filter(n => n.parentId === current && !found.has(n.id)).forEach(n => { found.add(n.id); queue.push(n.id); });
+  }
+  return found;
+};
+
+export const moveNode = (nodes: NodeData[], id: string, x: number, y: number): NodeData[] =>
+  nodes.map(n => n.id === id ? edit(n, { x, y }, { position: true }) : n);
+
+export const renameNode = (nodes: NodeData[], id: string, label: string): NodeData[] => {
+  const trimmed = label.trim();
+  if (!trimmed) throw new Error('A node needs a label.');
+  return nodes.map(n => n.id === id ? edit(n, { label: trimmed }, { label: true }) : n);
+};
+
+/** New children fan out below their parent and inherit its emotion. */
+export const addChildNode = (nodes: NodeData[], parentId: string, label = 'New idea'): NodeData[] => {
+  const parent = nodes.find(n => n.id === parentId);
+  if (!parent) throw new Error('Parent node not found.');
+  const siblings = nodes.filter(n => n.parentId === parentId).length;
+  const child: NodeData = {
+    id: `m-${crypto.randomUUID().slice(0, 8)}`, label, type: 'group', emotion: parent.emotion, color: parent.color,
+    parentId, x: parent.x + 260, y: parent.y + (siblings - 1) * 140, z: parent.z,
+    manual: { created: true, position: true }
+  };
+  return [...nodes, child];
+};
+
+/**
+ * Removes the node and its whole subtree; the root stays. Generated nodes are remembered on the root
+ * so regenerating the map from the text does not bring them back.
+ */
+export const deleteNode = (nodes: NodeData[], id: string): NodeData[] => {
+  if (id === ROOT_ID) throw new Error('The root node cannot be deleted.');
+  const doomed = descendantIds(nodes, id);
+  doomed.add(id);
+  const tombstones = nodes.filter(n => doomed.has(n.id) && !n.manual?.created).map(n => n.id);
+  return nodes.filter(n => !doomed.has(n.id)).map(n => n.id === ROOT_ID && tombstones.length
+    ? edit(n, {}, { deleted: Array.from(new Set([...(n.manual?.deleted || []), ...tombstones])) })
+    : n);
+};
+
+export const reparentNode = (nodes: NodeData[], id: string, parentId: string): NodeData[] => {
+  if (id === ROOT_ID) throw new Error('The root node cannot be moved under another node.');
+  if (id === parentId || descendantIds(nodes, id).has(parentId)) throw new Error('A node cannot be moved under itself.');
+  if (!nodes.some(n => n.id === parentId)) throw new Error('Parent node not found.');
+  return nodes.map(n => n.id === id ? edit(n, { parentId }, { parent: true }) : n);
+};
+
+/**
+ * Carries hand edits from the previous map onto a freshly generated one: pinned positions,
+ * renamed labels and new parents stick to the same node id, deleted nodes and anything generated
+ * under them stay deleted, and user-created nodes are kept (under the root if their parent disappeared).
+ */
+export const mergeManualEdits = (generated: NodeData[], previous: NodeData[]): NodeData[] => {
+  const before = new Map(previous.filter(n => n.manual).map(n => [n.id, n] as const));
+  // Generated parents always precede their children, so one pass catches whole subtrees.
+  const dropped = new Set(previous.find(n => n.id === ROOT_ID)?.manual?.deleted || []);
+  const parentOf = (n: NodeData) => before.get(n.id)?.manual?.parent ? before.get(n.id)!.parentId : n.parentId;
+  const kept = generated.filter(n => {
+    const parentId = parentOf(n);
+    if (n.id !== ROOT_ID && (dropped.has(n.id) || (parentId && dropped.has(parentId)))) { dropped.add(n.id); return false; }
+    return true;
+  });
+  const merged = kept.map(n => {
+    const old = before.get(n.id);
+    if (!old?.manual) return n;
+    return {
+      ...n,
+      x: old.manual.position ? old.x : n.x,
+      y: old.manual.position ? old.y : n.y,
+      z: old.manual.position ? old.z : n.z,
+      label: old.manual.label ? old.label : n.label,
+      parentId: old.manual.parent ? old.parentId : n.parentId,
+      manual: old.manual
+    };
+  });
+  const ids = new Set(merged.map(n => n.id));
+  previous.filter(n => n.manual?.created && !ids.has(n.id)).forEach(n => { merged.push(n); ids.add(n.id); });
+  return merged.map(n => n.parentId && !ids.has(n.parentId) ? { ...n, parentId: ROOT_ID } : n);
+};
+
+/** Writes a map onto the active branch head without creating a commit. */
+export const setHeadMap = (note: Note, autoMap: NodeData[]): Note => {
+  const branch = note.branches[note.activeBranch];
+  return {
+    ...note,
+    updatedAt: Date.now(),
+    branches: {
+      ...note.branches,
+      [branch.name]: { ...branch, commits: branch.commits.map(c => c.id === branch.head ? { ...c, autoMap } : c) }
+    }
+  };
+};
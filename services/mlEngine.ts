@@ -1,39 +1,337 @@
 
-import * as tf from '@tensorflow/tfjs';
-import { MLAnalysis, MLModelType, Note, GlobalIntelligence, NodeData, Asset, EmotionScore } from '../types';
+import {
+  MLAnalysis, MLModelType, Note, GlobalIntelligence, NodeData, Asset, EmotionScore, TrainingExample, TrainReport,
+  FeedbackExample, FineTuneReport, Commit, EmotionCategory, EmotionTaxonomy, EmotionSpan, HealthCheck, ImageAnalysis
+} from '../types';
+import { EmotionClassifier, createClassifier, evaluateClassifier, tokenizeText } from './classifiers';
+import { mergeManualEdits } from './mindmap';
+import { layoutNodes } from './layouts';
+import { annotateTokens, buildValenceLexicon, scoreSentiment, stem } from './sentiment';
+import { pendingTranscripts } from './transcriber';
+import { EXPRESSION_CUES, summarizeImages } from './vision';
+import { saveFeedbackToDB, getAllFeedbackFromDB, saveMetaToDB, getMetaFromDB, getAssetHashes } from './db';
+
+const MODEL_TYPES: MLModelType[] = [
+  'logistic-regression', 'random-forest-lite', 'lstm-neural', 'naive-bayes', 'k-means-clustering', 'decision-tree', 'symbolic'
+];
+
+// Roughly one in five confirmed examples is held out to measure the models instead of training them.
+const HELD_OUT_MODULUS = 5;
+// Below this many held-out examples an accuracy figure is noise, so none is reported.
+export const MIN_HELD_OUT = 3;
+
+// Fine-tune once this many corrections are pending, or after the interval if any are.
+const FINE_TUNE_BATCH = 3;
+const FINE_TUNE_INTERVAL_MS = 10 * 60 * 1000;
+
+const stringHash = (s: string) => {
+  let h = 0;
+  for (let i = 0; i < s.length; i++) h = Math.imul(31, h) + s.charCodeAt(i) | 0;
+  return Math.abs(h);
+};
+
+const NEUTRAL_COLOR = '#64748b';
+// A clearly read facial expression counts a little below an equally confident text prediction.
+const VISUAL_WEIGHT = 0.6;
+const RESERVED_LABELS = ['neutral', 'genesis'];
+
+export const DEFAULT_TAXONOMY: EmotionCategory[] = [
+  { id: 'love', label: 'Love', color: '#f43f5e', polarity: 'positive', keywords: ['love', 'heart', 'adore', 'beloved', 'cherish', 'wonderful'] },
+  { id: 'passion', label: 'Passion', color: '#fb923c', polarity: 'positive', keywords: ['passion', 'fire', 'drive', 'intensity', 'ambition', 'excited'] },
+  { id: 'caring', label: 'Caring', color: '#2dd4bf', polarity: 'positive', keywords: ['care', 'help', 'kind', 'support', 'gentle', 'soft'] },
+  { id: 'insight', label: 'Insight', color: '#ef4444', polarity: 'positive', keywords: ['logic', 'insight', 'analyze', 'theory', 'fact', 'brain'] },
+  { id: 'openness', label: 'Openness', color: '#eab308', polarity: 'positive', keywords: ['open', 'vision', 'explore', 'dream', 'freedom', 'sky'] },
+  { id: 'sadness', label: 'Sadness', color: '#3b82f6', polarity: 'negative', keywords: ['sad', 'lost', 'lonely', 'heavy', 'gloomy', 'rain'] }
+];
+
+interface TextSegment { start: number; end: number; text: string }
+
+const PARAGRAPH = /(?:(?!\n\s*\n)[\s\S])+/g;
+const SENTENCE = /[^.!?]+[.!?]*/g;
+
+const matchSegments = (text: string, pattern: RegExp, offset = 0): TextSegment[] =>
+  Array.from(text.matchAll(pattern)).map(m => {
+    const lead = m[0].length - m[0].trimStart().length;
+    const body = m[0].trim();
+    const start = offset + m.index! + lead;
+    return { start, end: start + body.length, text: body };
+  }).filter(seg => seg.text.length > 0);
+
+/** Paragraphs and their sentences with absolute offsets; shared by span analysis and the map so node ids line up. */
+const segmentText = (text: string) =>
+  matchSegments(text, PARAGRAPH).map(paragraph => ({
+    paragraph,
+    sentences: matchSegments(paragraph.text, SENTENCE, paragraph.start).filter(s => s.text.length > 5)
+  }));
+
+const NEUTRAL_SEEDS = [
+  'meeting moved to thursday at noon', 'list of groceries for the week', 'update the document and send it',
+  'call the office tomorrow morning', 'train leaves at seven', 'notes from the weekly sync', 'file the tax forms'
+];
+
+export const STOPWORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'all', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'because', 'been',
+  'before', 'being', 'below', 'between', 'both', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing', 'down', 'during',
+  'each', 'every', 'few', 'for', 'from', 'further', 'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'him', 'his',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'like', 'me', 'more', 'most', 'must', 'my', 'no', 'nor', 'not',
+  'now', 'of', 'off', 'on', 'once', 'only', 'or', 'other', 'our', 'ours', 'out', 'over', 'own', 'same', 'she', 'should', 'so',
+  'some', 'such', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to',
+  'too', 'under', 'until', 'up', 'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why',
+  'will', 'with', 'would', 'you', 'your', 'yours', 'much', 'many', 'feel', 'feels', 'also', 'really', 'still', 'even'
+]);
 
 class MLEngine {
-  private models: Map<MLModelType, any> = new Map();
+  private models: Map<MLModelType, EmotionClassifier> = new Map();
+  private pendingTraining: Map<MLModelType, Promise<EmotionClassifier>> = new Map();
+  // Bumped whenever the label set changes; training started under an older generation is discarded.
+  private generation = 0;
+  private userExamples: TrainingExample[] = [];
+  private feedback: FeedbackExample[] = [];
+  private pendingFeedback = 0;
+  private lastFineTune = 0;
+  private fineTuneHistory: FineTuneReport[] = [];
   private modelUsageStats: Record<MLModelType, number> = {
     'logistic-regression': 0, 'random-forest-lite': 0, 'lstm-neural': 0,
     'naive-bayes': 0, 'k-means-clustering': 0, 'decision-tree': 0, 'symbolic': 0
   };
+  private usageLoaded = false;
 
-  private emotionConfigs = [
-    { label: 'Love', color: '#f43f5e', keywords: ['love', 'heart', 'adore', 'beloved', 'cherish', 'wonderful'] },
-    { label: 'Passion', color: '#fb923c', keywords: ['passion', 'fire', 'drive', 'intensity', 'ambition', 'excited'] },
-    { label: 'Caring', color: '#2dd4bf', keywords: ['care', 'help', 'kind', 'support', 'gentle', 'soft'] },
-    { label: 'Insight', color: '#ef4444', keywords: ['logic', 'insight', 'analyze', 'theory', 'fact', 'brain'] },
-    { label: 'Openness', color: '#eab308', keywords: ['open', 'vision', 'explore', 'dream', 'freedom', 'sky'] },
-    { label: 'Sadness', color: '#3b82f6', keywords: ['sad', 'lost', 'lonely', 'heavy', 'gloomy', 'rain'] }
-  ];
-
-  private modelWeights: Record<MLModelType, Record<string, number>> = {
-    'lstm-neural': { 'Passion': 1.6, 'Love': 1.4, 'Sadness': 1.2 },
-    'naive-bayes': { 'Insight': 1.8, 'Openness': 1.1 },
-    'decision-tree': { 'Caring': 1.5, 'Insight': 1.4 },
-    'random-forest-lite': { 'Love': 1.2, 'Passion': 1.2, 'Caring': 1.2 },
-    'logistic-regression': { 'Insight': 1.3, 'Sadness': 0.8 },
-    'k-means-clustering': { 'Openness': 1.7, 'Passion': 0.9 },
-    'symbolic': {}
-  };
+  private emotionConfigs: EmotionCategory[] = DEFAULT_TAXONOMY;
+  private retiredConfigs: EmotionCategory[] = [];
+  private valenceLexicon = buildValenceLexicon(DEFAULT_TAXONOMY);
+
+  public async loadTaxonomy() {
+    const stored = await getMetaFromDB<EmotionTaxonomy>('taxonomy');
+    if (!stored) return;
+    this.emotionConfigs = stored.categories;
+    this.retiredConfigs = stored.retired || [];
+    this.resetModels();
+  }
+
+  public getTaxonomy(): EmotionCategory[] {
+    return this.emotionConfigs;
+  }
+
+  /** Replaces the taxonomy; every model is retrained because the label set changed. */
+  public async saveTaxonomy(categories: EmotionCategory[]) {
+    const cleaned = categories.map(c => ({
+      ...c,
+      label: c.label.trim(),
+      keywords: Array.from(new Set(c.keywords.map(k => k.trim().toLowerCase()).filter(Boolean)))
+    }));
+    const seen = new Set<string>();
+    cleaned.forEach(c => {
+      const key = c.label.toLowerCase();
+      if (!c.label) throw new Error('Every emotion needs a name.');
+      if (RESERVED_LABELS.includes(key)) throw new Error(`"${c.label}" is reserved.`);
+      if (seen.has(key)) throw new Error(`"${c.label}" is defined twice.`);
+      if (!/^#[0-9a-f]{6}$/i.test(c.color)) throw new Error(`"${c.label}" has an invalid color.`);
+      if (c.keywords.length === 0) throw new Error(`"${c.label}" needs at least one keyword.`);
+      seen.add(key);
+    });
+    if (cleaned.length === 0) throw new Error('Keep at least one emotion category.');
+
+    const active = new Set(cleaned.map(c => c.label));
+    const removed = this.emotionConfigs.filter(c => !active.has(c.label));
+    this.retiredConfigs = [...this.retiredConfigs.filter(r => !active.has(r.label) && !removed.some(c => c.label === r.label)), ...removed];
+    this.emotionConfigs = cleaned;
+    await saveMetaToDB<EmotionTaxonomy>('taxonomy', { categories: this.emotionConfigs, retired: this.retiredConfigs });
+    this.resetModels();
+  }
 
-  constructor() {
-    this.warmUp();
+  private resetModels() {
+    this.generation++;
+    this.valenceLexicon = buildValenceLexicon(this.emotionConfigs);
+    this.models.clear();
+    this.pendingTraining.clear();
   }
 
-  private warmUp() {
-    this.models.set('symbolic', { active: true });
+  private get labels(): string[] {
+    return this.emotionConfigs.map(cfg => cfg.label);
+  }
+
+  /** Bootstrap corpus from the lexicon so every model can classify before the user has history. */
+  private seedExamples(): TrainingExample[] {
+    const examples: TrainingExample[] = [];
+    this.emotionConfigs.forEach(cfg => cfg.keywords.forEach((kw, i) => {
+      const next = cfg.keywords[(i + 1) % cfg.keywords.length];
+      examples.push({ text: kw, labels: [cfg.label] });
+      examples.push({ text: `i ${kw} this and the ${next}`, labels: [cfg.label] });
+    }));
+    NEUTRAL_SEEDS.forEach(text => examples.push({ text, labels: [] }));
+    return examples;
+  }
+
+  /**
+   * Commits whose emotions the user confirmed; each distinct text is used once. The engine's own predictions are
+   * never fed back in, so the models cannot drift towards their earlier mistakes.
+   */
+  public buildTrainingSet(notes: Note[]): TrainingExample[] {
+    const seen = new Set<string>();
+    const examples: TrainingExample[] = [];
+    notes.forEach(n => Object.values(n.branches).forEach(b => b.commits.forEach(c => {
+      const text = c.content.trim();
+      const labels = c.analysis?.userLabels;
+      if (!text || !labels || seen.has(text)) return;
+      seen.add(text);
+      examples.push({ text, labels: labels.filter(l => this.labels.includes(l)) });
+    })));
+    return examples;
+  }
+
+  public setTrainingData(notes: Note[]) {
+    this.userExamples = this.buildTrainingSet(notes);
+  }
+
+  public getTrainingSize(): number {
+    return this.userExamples.length;
+  }
+
+  /** Adds persisted counts to anything recorded before the load finished, then writes the merged totals. */
+  public async loadUsageStats() {
+    const stored = await getMetaFromDB<Partial<Record<MLModelType, number>>>('modelUsage');
+    if (stored) MODEL_TYPES.forEach(t => { this.modelUsageStats[t] += stored[t] || 0; });
+    this.usageLoaded = true;
+    this.saveUsageStats();
+  }
+
+  // Nothing is written until the stored counts are merged in; an earlier save would overwrite them.
+  private saveUsageStats() {
+    if (!this.usageLoaded) return;
+    saveMetaToDB('modelUsage', this.modelUsageStats).catch(err => console.error(err));
+  }
+
+  public getLabels(): string[] {
+    return this.labels;
+  }
+
+  public getModelTypes(): MLModelType[] {
+    return MODEL_TYPES;
+  }
+
+  public getModelReport(type: MLModelType): TrainReport | null {
+    return this.models.get(type)?.report || null;
+  }
+
+  private heldOutFeedback(): FeedbackExample[] {
+    return this.feedback.filter(f => f.heldOut);
+  }
+
+  // User corrections override the commit labels for the same text.
+  private confirmedExamples(): TrainingExample[] {
+    const corrected = new Set(this.feedback.map(f => f.text));
+    return this.userExamples.filter(e => !corrected.has(e.text));
+  }
+
+  /** Confirmed examples the models never train on: held-out corrections plus a fixed slice of confirmed commits. */
+  private heldOutExamples(): TrainingExample[] {
+    return [
+      ...this.confirmedExamples().filter(e => stringHash(e.text) % HELD_OUT_MODULUS === 0),
+      ...this.heldOutFeedback().map(({ text, labels }) => ({ text, labels }))
+    ].map(e => ({ ...e, labels: e.labels.filter(l => this.labels.includes(l)) }));
+  }
+
+  private trainingExamples(): TrainingExample[] {
+    const heldOut = new Set(this.heldOutFeedback().map(f => f.text));
+    return [
+      ...this.seedExamples(),
+      ...this.confirmedExamples().filter(e => stringHash(e.text) % HELD_OUT_MODULUS !== 0),
+      ...this.feedback.filter(f => !heldOut.has(f.text)).map(({ text, labels }) => ({ text, labels }))
+    ].map(e => ({ ...e, labels: e.labels.filter(l => this.labels.includes(l)) }));
+  }
+
+  /** Corrections stored before the split was persisted are assigned by id hash once and saved with it. */
+  public async loadFeedback() {
+    const stored = await getAllFeedbackFromDB();
+    const legacy = stored.filter(f => f.heldOut === undefined);
+    legacy.forEach(f => { f.heldOut = stringHash(f.id) % HELD_OUT_MODULUS === 0; });
+    await Promise.all(legacy.map(saveFeedbackToDB));
+    this.feedback = stored;
+    this.fineTuneHistory = (await getMetaFromDB<FineTuneReport[]>('fineTuneHistory')) || [];
+  }
+
+  /** Every fifth new correction joins the held-out split and stays there when it is corrected again. */
+  public async recordFeedback(note: Note, commit: Commit, labels: string[]): Promise<FeedbackExample> {
+    const id = `${note.id}:${commit.id}`;
+    const existing = this.feedback.find(f => f.id === id);
+    const example: FeedbackExample = {
+      id, noteId: note.id, commitId: commit.id, text: commit.content.trim(), labels,
+      heldOut: existing ? existing.heldOut : this.feedback.length % HELD_OUT_MODULUS === HELD_OUT_MODULUS - 1,
+      createdAt: existing?.createdAt || Date.now(), updatedAt: Date.now()
+    };
+    await saveFeedbackToDB(example);
+    this.feedback = [...this.feedback.filter(f => f.id !== id), example];
+    this.pendingFeedback++;
+    return example;
+  }
+
+  public getFeedbackCount(): number {
+    return this.feedback.length;
+  }
+
+  public getFineTuneHistory(): FineTuneReport[] {
+    return this.fineTuneHistory;
+  }
+
+  public async fineTune(type: MLModelType): Promise<FineTuneReport> {
+    const heldOut = this.heldOutFeedback();
+    const measured = heldOut.length >= MIN_HELD_OUT;
+    const previous = await this.getClassifier(type);
+    const before = measured ? (await evaluateClassifier(previous, heldOut, this.labels)).accuracy : null;
+    await this.trainModel(type);
+    const after = measured ? (await evaluateClassifier(await this.getClassifier(type), heldOut, this.labels)).accuracy : null;
+
+    const report: FineTuneReport = {
+      model: type, before, after, trainSize: this.trainingExamples().length, heldOutSize: heldOut.length, at: Date.now()
+    };
+    this.fineTuneHistory = [...this.fineTuneHistory, report].slice(-50);
+    await saveMetaToDB('fineTuneHistory', this.fineTuneHistory);
+    return report;
+  }
+
+  /** Retrains every model already in use once enough corrections have accumulated. */
+  public async fineTuneIfDue(): Promise<FineTuneReport[]> {
+    const due = this.pendingFeedback >= FINE_TUNE_BATCH
+      || (this.pendingFeedback > 0 && Date.now() - this.lastFineTune > FINE_TUNE_INTERVAL_MS);
+    if (!due) return [];
+    this.pendingFeedback = 0;
+    this.lastFineTune = Date.now();
+    const reports: FineTuneReport[] = [];
+    for (const type of Array.from(this.models.keys()).filter(t => t !== 'symbolic')) {
+      reports.push(await this.fineTune(type));
+    }
+    return reports;
+  }
+
+  /** Training accuracy is on the seeds and confirmed examples; `heldOut` scores examples the model never saw. */
+  public async trainModel(type: MLModelType): Promise<TrainReport> {
+    const generation = this.generation;
+    const classifier = createClassifier(type, this.emotionConfigs);
+    const heldOut = this.heldOutExamples();
+    const run = classifier.train(this.trainingExamples(), this.labels).then(async () => {
+      const scores = heldOut.length >= MIN_HELD_OUT ? await evaluateClassifier(classifier, heldOut, this.labels) : null;
+      classifier.report = { ...classifier.report!, heldOut: scores && { ...scores, examples: heldOut.length } };
+      return classifier;
+    });
+    this.pendingTraining.set(type, run);
+    try {
+      await run;
+    } finally {
+      if (this.pendingTraining.get(type) === run) this.pendingTraining.delete(type);
+    }
+    // The taxonomy changed while this ran, so the model knows the wrong labels: train again on the current ones.
+    if (generation !== this.generation) return this.trainModel(type);
+    this.models.set(type, classifier);
+    return classifier.report!;
+  }
+
+  // Models are trained on first use, so importing the engine does no work.
+  private async getClassifier(type: MLModelType): Promise<EmotionClassifier> {
+    const generation = this.generation;
+    const classifier = this.models.get(type)
+      || await this.pendingTraining.get(type)
+      || await this.trainModel(type).then(() => this.models.get(type)!);
+    return generation === this.generation ? classifier : this.getClassifier(type);
   }
 
   public getRecommendation(text: string): MLModelType {
@@ -44,133 +342,237 @@ class MLEngine {
     return 'random-forest-lite';
   }
 
-  public async analyzeNote(text: string, modelType: MLModelType): Promise<MLAnalysis> {
-    this.modelUsageStats[modelType]++;
-    const textLower = text.toLowerCase();
-    const words = textLower.split(/\s+/).filter(w => w.length > 0);
-    
-    const rawEmotions: EmotionScore[] = this.emotionConfigs.map(cfg => {
-      let score = 0;
-      cfg.keywords.forEach(kw => {
-        const matches = textLower.split(kw).length - 1;
-        score += matches * 0.4;
-      });
-      
-      const bias = this.modelWeights[modelType][cfg.label] || 1.0;
-      const finalScore = Math.min(score * bias * 0.8, 1.0);
-      const impact = words.length > 0 ? Math.min((score * 2.5 * bias) / (words.length * 0.1), 1.0) : 0;
+  /** Active categories first, then retired ones so labels on older commits keep their color. */
+  public getEmotionColor(label: string, fallback = '#8b5cf6'): string {
+    if (label === 'Neutral') return NEUTRAL_COLOR;
+    return (this.emotionConfigs.find(cfg => cfg.label === label) || this.retiredConfigs.find(cfg => cfg.label === label))?.color || fallback;
+  }
 
-      return { label: cfg.label, score: finalScore, impact };
-    });
+  /** Most frequent non-stopword terms; ties keep first-appearance order. */
+  public extractKeywords(text: string, limit = 8): string[] {
+    const counts = new Map<string, number>();
+    text.toLowerCase().replace(/\[Asset Ref: [^\]]+\]/g, ' ').split(/[^\p{L}\p{N}'-]+/u)
+      .map(w => w.replace(/^['-]+|['-]+$/g, ''))
+      .filter(w => w.length > 2 && !STOPWORDS.has(w) && !/^\d+$/.test(w))
+      .forEach(w => counts.set(w, (counts.get(w) || 0) + 1));
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).slice(0, limit).map(([w]) => w);
+  }
 
-    const emotions = rawEmotions
-      .filter(e => e.score > 0.05 || e.impact > 0.05)
+  /**
+   * Transcripts of the note's media count towards its emotions, sentiment and keywords, and faces in analyzed
+   * images towards the emotions; spans stay on the note text so their offsets still point into it.
+   */
+  public async analyzeNote(text: string, modelType: MLModelType, assets: Asset[] = []): Promise<MLAnalysis> {
+    this.modelUsageStats[modelType]++;
+    this.saveUsageStats();
+    const classifier = await this.getClassifier(modelType);
+    const fullText = [text, ...pendingTranscripts(assets, text)].join('\n\n');
+    const images = assets.map(a => a.analysis).filter((a): a is ImageAnalysis => !!a);
+    const hasText = tokenizeText(text).length > 0;
+    const hasFullText = tokenizeText(fullText).length > 0;
+    const probs = hasFullText ? await classifier.predict(fullText) : {};
+    const visual = this.expressionEvidence(images.flatMap(i => i.faces));
+    const values = this.labels.map(l => Math.max(probs[l] ?? 0, visual[l] ?? 0));
+    const top = Math.max(...values, 0);
+
+    // Impact scales each probability by its share of the strongest signal.
+    const emotions: EmotionScore[] = this.labels
+      .map((label, i) => ({ label, score: values[i], impact: top > 0 ? values[i] * (values[i] / top) : 0 }))
+      .filter(e => e.score >= 0.2)
       .sort((a, b) => b.impact - a.impact);
 
     if (emotions.length === 0) {
-      emotions.push({ label: 'Neutral', score: 1.0, impact: 0.1 });
+      emotions.push({ label: 'Neutral', score: 1 - top, impact: 0.1 });
     }
 
+    // Decisiveness: how far each one-vs-rest probability sits from the 0.5 boundary.
+    const sentiment = scoreSentiment(fullText, this.valenceLexicon);
+    const spans = hasText ? await this.analyzeSpans(text, classifier) : [];
+    const confidence = values.length ? values.reduce((sum, p) => sum + Math.abs(p - 0.5) * 2, 0) / values.length : 0;
+
     return {
       emotions,
-      sentiment: emotions[0]?.label === 'Sadness' ? 'negative' : 'positive',
-      keywords: words.slice(0, 8),
+      sentiment: sentiment.label,
+      valence: sentiment.valence,
+      spans,
+      keywords: this.extractKeywords([fullText, ...images.map(i => i.objects.map(o => o.label).join(' '))].join('\n\n')),
       modelUsed: modelType,
-      loss: 0.01 + (Math.random() * 0.02),
-      confidence: 0.8 + (Math.random() * 0.15)
+      loss: classifier.report?.loss ?? 0,
+      confidence,
+      ...(images.length ? { visual: summarizeImages(images) } : {})
     };
   }
 
-  public synthesizeInsight(note: Note): string {
-    const head = note.branches[note.activeBranch]?.commits.slice(-1)[0];
-    if (!head?.analysis) return "I don't have enough data to generate an insight for this stream yet.";
-    
-    const dominant = head.analysis.emotions[0];
-    const secondary = head.analysis.emotions[1];
-    const sentiment = head.analysis.sentiment;
-    
-    let report = `### COGNITIVE SYNTHESIS REPORT\n`;
-    report += `**Subject**: ${note.title.toUpperCase()}\n`;
-    report += `**Local Inference Core**: ${head.analysis.modelUsed}\n`;
-    report += `**Synaptic Confidence**: ${Math.round(head.analysis.confidence * 100)}%\n\n`;
-    
-    report += `#### EMOTIONAL LANDSCAPE\n`;
-    report += `- The stream is anchored by **${dominant.label}**, which manifests with a **${Math.round(dominant.impact * 100)}%** structural influence. `;
-    
-    if (sentiment === 'positive') {
-      report += `This indicates a constructive and forward-leaning cognitive state. `;
-    } else if (sentiment === 'negative') {
-      report += `Analysis suggests a heavy reflective burden or introspective weight. `;
-    }
+  // Categories whose label or keywords share a stem with an expression's cue words take that face's confidence.
+  private expressionEvidence(faces: ImageAnalysis['faces']): Record<string, number> {
+    const evidence: Record<string, number> = {};
+    faces.forEach(face => {
+      if (face.expression === 'neutral') return;
+      const cues = new Set(EXPRESSION_CUES[face.expression].map(stem));
+      this.emotionConfigs
+        .filter(cfg => [cfg.label, ...cfg.keywords].some(w => cues.has(stem(w.toLowerCase()))))
+        .forEach(cfg => { evidence[cfg.label] = Math.max(evidence[cfg.label] || 0, face.score * VISUAL_WEIGHT); });
+    });
+    return evidence;
+  }
 
-    if (secondary && secondary.score > 0.3) {
-      report += `\n- Sub-surface resonance of **${secondary.label}** detected, creating a layered cognitive profile.`;
-    }
+  // Strongest face expression in an image, mapped to the category it supports most.
+  private imageEmotion(analysis?: ImageAnalysis) {
+    const evidence = Object.entries(this.expressionEvidence(analysis?.faces || [])).sort((a, b) => b[1] - a[1]);
+    return evidence.length ? { label: evidence[0][0], color: this.getEmotionColor(evidence[0][0]) } : undefined;
+  }
 
-    report += `\n\n#### SYSTEM CONCLUSION\n`;
-    report += `Your current thought patterns are highly coherent. The recurring use of ${head.analysis.keywords.slice(0,3).join(', ')} reinforces the dominance of the ${dominant.label} cluster. No immediate synaptic intervention required.`;
-    
-    return report;
+  private async analyzeSpans(text: string, classifier: EmotionClassifier): Promise<EmotionSpan[]> {
+    const spanFor = async (seg: TextSegment, kind: EmotionSpan['kind'], nodeId: string): Promise<EmotionSpan> => {
+      const probs = await classifier.predict(seg.text);
+      const [emotion, score] = this.labels
+        .map(l => [l, probs[l] ?? 0] as const)
+        .reduce((best, cur) => cur[1] > best[1] ? cur : best, ['Neutral', 0] as readonly [string, number]);
+      return { kind, start: seg.start, end: seg.end, emotion: score >= 0.2 ? emotion : 'Neutral', score, nodeId };
+    };
+
+    const spans: EmotionSpan[] = [];
+    for (const [pIdx, { paragraph, sentences }] of segmentText(text).entries()) {
+      const pId = `p-${pIdx}`;
+      spans.push(await spanFor(paragraph, 'paragraph', pId));
+      for (const [sIdx, sentence] of sentences.entries()) {
+        spans.push(await spanFor(sentence, 'sentence', `s-${pIdx}-${sIdx}`));
+      }
+    }
+    return spans;
   }
 
-  public generateHierarchicalMap(text: string, assets: Asset[] = []): NodeData[] {
+  /**
+   * Spans from analyzeNote color each node by its own classification; without them paragraphs fall back to keywords.
+   * Hand edits in the previous map (mind-map mode) are carried over.
+   */
+  public generateHierarchicalMap(text: string, assets: Asset[] = [], spans: EmotionSpan[] = [], previous: NodeData[] = []): NodeData[] {
     const nodes: NodeData[] = [];
-    const paragraphs = text.split(/\n\n+/).filter(p => p.trim());
+    const paragraphs = segmentText(text);
+    const spanEmotion = (id: string, kind: EmotionSpan['kind']) => {
+      const span = spans.find(sp => sp.nodeId === id && sp.kind === kind);
+      return span && { label: span.emotion, color: this.getEmotionColor(span.emotion) };
+    };
     
     nodes.push({
       id: 'root', label: 'Genesis Core', type: 'paragraph', emotion: 'Genesis', color: '#8b5cf6', x: 0, y: 0, z: 0
     });
 
-    paragraphs.forEach((p, pIdx) => {
+    paragraphs.forEach(({ paragraph, sentences }, pIdx) => {
+      const p = paragraph.text;
       const pId = `p-${pIdx}`;
-      const pSent = this.simpleSentiment(p);
-      const angle = (pIdx / paragraphs.length) * Math.PI * 2;
-      const radius = 420;
-      const px = Math.cos(angle) * radius;
-      const py = Math.sin(angle) * radius;
+      const pSent = spanEmotion(pId, 'paragraph') || this.simpleSentiment(p);
 
       nodes.push({
         id: pId, label: p.slice(0, 35).trim() + (p.length > 35 ? '...' : ''), 
         type: 'paragraph', emotion: pSent.label, color: pSent.color, parentId: 'root', 
-        x: px, y: py, z: -150
+        x: 0, y: 0, z: 0
       });
 
-      const sentences = p.split(/[.!?]+/).filter(s => s.trim().length > 5).slice(0, 3);
       sentences.forEach((s, sIdx) => {
         const sId = `s-${pIdx}-${sIdx}`;
-        const sAngle = angle + (sIdx - 1) * 0.3;
-        const sRadius = radius + 250;
+        const sSent = spanEmotion(sId, 'sentence') || pSent;
         nodes.push({
-          id: sId, label: s.trim().slice(0, 20), type: 'sentence', emotion: pSent.label, 
-          color: pSent.color, parentId: pId, x: Math.cos(sAngle) * sRadius, y: Math.sin(sAngle) * sRadius, z: 0
+          id: sId, label: s.text.replace(/[.!?]+$/, '').slice(0, 20), type: 'sentence', emotion: sSent.label, 
+          color: sSent.color, parentId: pId, x: 0, y: 0, z: 0
         });
       });
     });
 
-    return nodes;
+    // Images hang off the paragraph that references them, or the root when the ref is gone.
+    assets.filter(a => a.type === 'image').forEach(asset => {
+      const at = text.indexOf(`[Asset Ref: ${asset.id}]`);
+      const pIdx = at === -1 ? -1 : paragraphs.findIndex(({ paragraph }) => at >= paragraph.start && at < paragraph.end);
+      const label = asset.analysis?.caption || asset.name;
+      const emotion = this.imageEmotion(asset.analysis) || { label: 'Neutral', color: asset.analysis?.colors[0]?.hex || NEUTRAL_COLOR };
+      nodes.push({
+        id: `a-${asset.id}`, label: label.slice(0, 35).trim() + (label.length > 35 ? '...' : ''), type: 'asset',
+        emotion: emotion.label, color: emotion.color, parentId: pIdx === -1 ? 'root' : `p-${pIdx}`, x: 0, y: 0, z: 0
+      });
+    });
+
+    return layoutNodes(mergeManualEdits(nodes, previous), 'radial', false);
   }
 
+  // Category with the most non-negated keyword hits; ties go to taxonomy order.
   private simpleSentiment(text: string) {
-    const t = text.toLowerCase();
+    const tokens = annotateTokens(text).filter(t => !t.negated);
+    let best: { label: string; color: string } = { label: 'Neutral', color: NEUTRAL_COLOR };
+    let bestScore = 0;
     for (const cfg of this.emotionConfigs) {
-      if (cfg.keywords.some(kw => t.includes(kw))) return { label: cfg.label, color: cfg.color };
+      const stems = new Set(cfg.keywords.map(stem));
+      const score = tokens.filter(t => stems.has(t.stem)).reduce((sum, t) => sum + t.intensity, 0);
+      if (score > bestScore) { best = { label: cfg.label, color: cfg.color }; bestScore = score; }
     }
-    return { label: 'Neutral', color: '#64748b' }; 
+    return best;
   }
 
   public async analyzeVault(notes: Note[]): Promise<GlobalIntelligence> {
     const clusters: Record<string, number> = {};
     notes.forEach(n => n.clusters.forEach(c => clusters[c] = (clusters[c] || 0) + 1));
+    const heads = notes
+      .map(n => n.branches[n.activeBranch]?.commits.find(c => c.id === n.branches[n.activeBranch].head))
+      .filter((c): c is Commit => !!c);
+
+    // Shannon entropy of the summed impact per emotion, normalised by the taxonomy size.
+    const weights: Record<string, number> = {};
+    heads.forEach(c => c.analysis?.emotions.forEach(e => { weights[e.label] = (weights[e.label] || 0) + e.impact; }));
+    const total = Object.values(weights).reduce((a, b) => a + b, 0);
+    const entropyBits = total > 0
+      ? -Object.values(weights).filter(w => w > 0).reduce((h, w) => h + (w / total) * Math.log2(w / total), 0)
+      : 0;
+    const maxBits = Math.log2(Math.max(this.labels.length, Object.keys(weights).length, 2));
+
+    const healthChecks = await this.runHealthChecks(notes);
+    const scored = healthChecks.filter(h => h.checked > 0);
+    const totalInferences = MODEL_TYPES.reduce((sum, t) => sum + this.modelUsageStats[t], 0);
+    const meanNodes = heads.length ? heads.reduce((sum, c) => sum + (c.autoMap?.length || 0), 0) / heads.length : 0;
+
     return {
-      synapticDensity: Math.min(notes.length / 10, 1.0),
-      emotionalEntropy: Math.random() * 0.6 + 0.2,
-      dominantThemes: Object.entries(clusters).sort((a, b) => b[1] - a[1]).map(([k]) => k).slice(0, 4),
-      vaultHealth: 0.95 + (Math.random() * 0.04),
-      mostUsedModel: 'lstm-neural',
-      totalInferences: notes.length * 5,
+      synapticDensity: Math.min(meanNodes / 20, 1),
+      emotionalEntropy: entropyBits / maxBits,
+      entropyBits,
+      dominantThemes: Object.entries(clusters).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([k]) => k).slice(0, 4),
+      vaultHealth: scored.length ? scored.reduce((sum, h) => sum + 1 - h.issues / h.checked, 0) / scored.length : 1,
+      healthChecks,
+      mostUsedModel: MODEL_TYPES.reduce((best, t) => this.modelUsageStats[t] > this.modelUsageStats[best] ? t : best, MODEL_TYPES[0]),
+      totalInferences,
+      modelUsage: { ...this.modelUsageStats },
       clusters
     };
   }
+
+  private async runHealthChecks(notes: Note[]): Promise<HealthCheck[]> {
+    const stored = new Set(await getAssetHashes());
+    const checks: Record<HealthCheck['id'], HealthCheck> = {
+      'missing-analysis': { id: 'missing-analysis', label: 'Commits with an analysis', issues: 0, checked: 0, examples: [] },
+      'broken-asset-refs': { id: 'broken-asset-refs', label: 'Asset refs that resolve to an attached asset', issues: 0, checked: 0, examples: [] },
+      'missing-blobs': { id: 'missing-blobs', label: 'Stored assets whose media blob exists', issues: 0, checked: 0, examples: [] },
+      'orphan-commits': { id: 'orphan-commits', label: 'Commits whose parents exist in the stream', issues: 0, checked: 0, examples: [] }
+    };
+    const record = (id: HealthCheck['id'], ok: boolean, example: string) => {
+      checks[id].checked++;
+      if (ok) return;
+      checks[id].issues++;
+      if (checks[id].examples.length < 3) checks[id].examples.push(example);
+    };
+
+    notes.forEach(n => {
+      const commits = new Map<string, Commit>();
+      Object.values(n.branches).forEach(b => b.commits.forEach(c => commits.set(c.id, c)));
+      commits.forEach(c => {
+        const where = `${n.title} · ${c.message}`;
+        // An empty commit (the Origin of a new note) has nothing to analyze.
+        if (c.content.trim() || c.assets?.length) record('missing-analysis', !!c.analysis, where);
+        const assetIds = new Set((c.assets || []).map(a => a.id));
+        for (const m of c.content.matchAll(/\[Asset Ref: ([^\]]+)\]/g)) record('broken-asset-refs', assetIds.has(m[1]), `${where} → ${m[1]}`);
+        (c.assets || []).filter(a => a.hash).forEach(a => record('missing-blobs', stored.has(a.hash!), `${where} → ${a.name}`));
+        const parents = [c.parentId, c.mergeParentId].filter((p): p is string => !!p);
+        record('orphan-commits', parents.every(p => commits.has(p)), where);
+      });
+    });
+    return Object.values(checks);
+  }
 }
 
 export const mlEngine = new MLEngine();
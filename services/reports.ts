@@ -0,0 +1,340 @@
+import { Note, Commit, MLAnalysis } from '../types';
+import { indexCommits, getHeadCommit, getLineage } from './branching';
+import { diffLines } from './diff';
+import { DateRange, inRange, valenceOf } from './trends';
+import { slugify } from './markdown';
+
+export interface ReportSource {
+  noteId: string;
+  commitId: string;
+  title: string;
+  timestamp: number;
+}
+
+export interface ReportSection {
+  heading: string;
+  lines: string[];
+}
+
+export interface InsightReport {
+  kind: 'note' | 'commits' | 'notes' | 'digest';
+  title: string;
+  subtitle: string;
+  generatedAt: number;
+  sections: ReportSection[];
+  sources: ReportSource[]; // Commits whose stored analysis the report was built from
+}
+
+export interface EmotionShift {
+  label: string;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+const SHIFT_THRESHOLD = 0.05; // Impact or share moves smaller than this are noise
+const TOP = 5;
+
+const pct = (x: number) => `${Math.round(x * 100)}%`;
+const signed = (x: number) => `${x < 0 ? '−' : '+'}${Math.abs(x).toFixed(2)}`;
+const points = (x: number) => `${x < 0 ? '−' : '+'}${Math.round(Math.abs(x) * 100)} pts`;
+const words = (text: string) => text.split(/\s+/).filter(Boolean).length;
+const listOf = (items: string[], empty = 'none') => items.length ? items.join(', ') : empty;
+const plural = (n: number, noun: string) => `${n} ${noun}${n === 1 ? '' : 's'}`;
+const shortId = (id: string) => id.slice(0, 7);
+const formatDay = (ts: number) => new Date(ts).toLocaleDateString(undefined, { dateStyle: 'medium' });
+
+const sourceOf = (note: Note, commit: Commit): ReportSource =>
+  ({ noteId: note.id, commitId: commit.id, title: note.title, timestamp: commit.timestamp });
+
+const requireAnalysis = (commit: Commit, what: string): MLAnalysis => {
+  if (!commit.analysis) throw new Error(`${what} (${shortId(commit.id)}) has not been analyzed yet.`);
+  return commit.analysis;
+};
+
+const valenceMove = (delta: number) => Math.abs(delta) < SHIFT_THRESHOLD ? 'held steady' : delta > 0 ? 'lifted' : 'dipped';
+
+/** Per-emotion impact change between two analyses, largest moves first. */
+export const emotionShifts = (before: MLAnalysis, after: MLAnalysis): EmotionShift[] => {
+  const a = new Map(before.emotions.map(e => [e.label, e.impact] as const));
+  const b = new Map(after.emotions.map(e => [e.label, e.impact] as const));
+  return Array.from(new Set([...a.keys(), ...b.keys()]))
+    .map(label => ({ label, before: a.get(label) || 0, after: b.get(label) || 0, delta: (b.get(label) || 0) - (a.get(label) || 0) }))
+    .sort((x, y) => Math.abs(y.delta) - Math.abs(x.delta));
+};
+
+const shiftLine = (s: EmotionShift) => `**${s.label}** ${pct(s.before)} → ${pct(s.after)} (${points(s.delta)})`;
+
+const topEmotions = (analysis: MLAnalysis, n = 3) =>
+  analysis.emotions.slice(0, n).map(e => `${e.label} ${pct(e.impact)}`).join(', ') || 'no emotion above threshold';
+
+const visualLines = (before: MLAnalysis | undefined, after: MLAnalysis): string[] => {
+  const v = after.visual;
+  if (!v && !before?.visual) return [];
+  const objects = v?.objects || [], previous = before?.visual?.objects || [];
+  const lines = [`${plural(v?.images || 0, 'image')} with ${plural(v?.faces || 0, 'face')}${before ? ` (was ${before.visual?.images || 0} and ${before.visual?.faces || 0})` : ''}`];
+  if (before) {
+    lines.push(`Objects added: ${listOf(objects.filter(o => !previous.includes(o)))}`, `Objects removed: ${listOf(previous.filter(o => !objects.includes(o)))}`);
+  } else if (objects.length) lines.push(`Objects: ${objects.slice(0, TOP).join(', ')}`);
+  const expressions = Object.entries(v?.expressions || {}).sort((x, y) => y[1] - x[1]).map(([e, n]) => `${e} ×${n}`);
+  if (expressions.length) lines.push(`Expressions: ${expressions.join(', ')}`);
+  return lines;
+};
+
+/** Where a single stream stands now and how it got there, from the analyses stored on its active lineage. */
+export const noteReport = (note: Note): InsightReport => {
+  const head = getHeadCommit(note.branches[note.activeBranch]);
+  if (!head?.analysis) throw new Error("I don't have enough data to generate an insight for this stream yet.");
+  const analysis = head.analysis;
+  const history = getLineage(note, head.id).filter(c => c.analysis);
+  const [dominant, secondary] = analysis.emotions;
+  const totalImpact = analysis.emotions.reduce((s, e) => s + e.impact, 0);
+  const sections: ReportSection[] = [
+    {
+      heading: 'Snapshot',
+      lines: [
+        `Model: ${analysis.modelUsed} · confidence ${pct(analysis.confidence)}`,
+        `Sentiment: ${analysis.sentiment}${analysis.valence !== undefined ? ` (valence ${signed(analysis.valence)})` : ''}`,
+        `${words(head.content)} words · ${plural(history.length, 'analyzed revision')}`
+      ]
+    },
+    {
+      heading: 'Emotional landscape',
+      lines: [
+        ...analysis.emotions.slice(0, 4).map(e => `**${e.label}** — ${pct(e.impact)} impact, ${pct(e.score)} confidence`),
+        `Keywords: ${listOf(analysis.keywords.slice(0, 8))}`,
+        ...(analysis.userLabels?.length ? [`Confirmed by you: ${analysis.userLabels.join(', ')}`] : [])
+      ]
+    }
+  ];
+
+  const conclusion: string[] = [];
+  if (dominant && totalImpact > 0) {
+    const share = dominant.impact / totalImpact;
+    conclusion.push(share >= 0.5
+      ? `${dominant.label} carries most of the emotional weight (${pct(share)} of it).`
+      : `The weight is spread across ${plural(analysis.emotions.length, 'emotion')}; ${dominant.label} leads with ${pct(share)}.`);
+    if (secondary && secondary.score > 0.3) conclusion.push(`${secondary.label} runs underneath as a secondary current.`);
+  } else conclusion.push('No emotion cleared the detection threshold in the latest revision.');
+
+  if (history.length >= 2) {
+    const first = history[0].analysis!;
+    const shifts = emotionShifts(first, analysis).filter(s => Math.abs(s.delta) >= SHIFT_THRESHOLD);
+    const delta = valenceOf(analysis) - valenceOf(first);
+    // Keywords present in at least half of the revisions, and in more than one.
+    const counts = new Map<string, number>();
+    history.forEach(c => new Set(c.analysis!.keywords).forEach(k => counts.set(k, (counts.get(k) || 0) + 1)));
+    const recurring = Array.from(counts).filter(([, n]) => n >= Math.max(2, history.length / 2)).sort((x, y) => y[1] - x[1]).map(([k]) => k);
+    sections.push({
+      heading: `Since ${formatDay(history[0].timestamp)}`,
+      lines: [
+        `Valence ${valenceMove(delta)}: ${signed(valenceOf(first))} → ${signed(valenceOf(analysis))}`,
+        ...(shifts.length ? shifts.slice(0, TOP).map(shiftLine) : ['No emotion moved by more than 5 points.']),
+        `Recurring keywords: ${listOf(recurring.slice(0, 6))}`
+      ]
+    });
+    conclusion.push(shifts.length
+      ? `The largest change over the stream's history is in ${shifts[0].label} (${points(shifts[0].delta)}), and overall valence ${valenceMove(delta)}.`
+      : `Its emotional profile has stayed stable across ${plural(history.length, 'revision')}.`);
+  } else conclusion.push('This is the first analyzed revision, so there is no history to compare against yet.');
+
+  const visual = visualLines(undefined, analysis);
+  if (visual.length) sections.push({ heading: 'Visual signals', lines: visual });
+  sections.push({ heading: 'Conclusion', lines: [conclusion.join(' ')] });
+
+  return {
+    kind: 'note', title: note.title, subtitle: `Stream report · ${note.activeBranch} @ ${shortId(head.id)}`,
+    generatedAt: Date.now(), sections, sources: [sourceOf(note, head)]
+  };
+};
+
+/** Emotional shift, keyword churn and sentiment change between two commits of the same stream. */
+export const compareCommits = (note: Note, firstId: string, secondId: string): InsightReport => {
+  const index = indexCommits(note);
+  const first = index.get(firstId), second = index.get(secondId);
+  if (!first || !second) throw new Error(`Commit ${!first ? firstId : secondId} not found in "${note.title}".`);
+  const [before, after] = first.timestamp <= second.timestamp ? [first, second] : [second, first];
+  const a = requireAnalysis(before, 'The earlier commit'), b = requireAnalysis(after, 'The later commit');
+
+  const shifts = emotionShifts(a, b).filter(s => Math.abs(s.delta) >= SHIFT_THRESHOLD);
+  const [domA, domB] = [a.emotions[0]?.label || 'none', b.emotions[0]?.label || 'none'];
+  const delta = valenceOf(b) - valenceOf(a);
+  let added = 0, removed = 0;
+  diffLines(before.content, after.content).forEach(op => {
+    if (op.type === 'insert') added += words(op.value);
+    if (op.type === 'delete') removed += words(op.value);
+  });
+
+  const sections: ReportSection[] = [
+    {
+      heading: 'Emotional shift',
+      lines: [
+        domA === domB ? `Dominant emotion unchanged: **${domA}**` : `Dominant emotion: **${domA}** → **${domB}**`,
+        ...(shifts.length ? shifts.slice(0, TOP).map(shiftLine) : ['No emotion moved by more than 5 points.'])
+      ]
+    },
+    {
+      heading: 'Sentiment',
+      lines: [
+        `${a.sentiment} → ${b.sentiment}; valence ${valenceMove(delta)} (${signed(valenceOf(a))} → ${signed(valenceOf(b))}, ${signed(delta)})`,
+        `Confidence ${pct(a.confidence)} → ${pct(b.confidence)} (${a.modelUsed}${a.modelUsed === b.modelUsed ? '' : ` → ${b.modelUsed}`})`
+      ]
+    },
+    {
+      heading: 'Keywords',
+      lines: [
+        `Added: ${listOf(b.keywords.filter(k => !a.keywords.includes(k)))}`,
+        `Removed: ${listOf(a.keywords.filter(k => !b.keywords.includes(k)))}`,
+        `Kept: ${listOf(a.keywords.filter(k => b.keywords.includes(k)))}`
+      ]
+    },
+    { heading: 'Text', lines: [`${words(before.content)} → ${words(after.content)} words (+${added} / −${removed})`] }
+  ];
+  const visual = visualLines(a, b);
+  if (visual.length) sections.push({ heading: 'Visual signals', lines: visual });
+
+  return {
+    kind: 'commits',
+    title: `${note.title}: ${shortId(before.id)} → ${shortId(after.id)}`,
+    subtitle: `Commit comparison · ${formatDay(before.timestamp)} → ${formatDay(after.timestamp)}`,
+    generatedAt: Date.now(), sections, sources: [sourceOf(note, before), sourceOf(note, after)]
+  };
+};
+
+/** Two streams side by side at their heads, plus how each one has moved over its own history. */
+export const compareNotes = (left: Note, right: Note, overlap?: number): InsightReport => {
+  const heads = [left, right].map(n => getHeadCommit(n.branches[n.activeBranch]));
+  if (!heads[0] || !heads[1]) throw new Error('One of those streams has no commits yet.');
+  const [headA, headB] = heads as Commit[];
+  const a = requireAnalysis(headA, `The head of "${left.title}"`), b = requireAnalysis(headB, `The head of "${right.title}"`);
+  const shifts = emotionShifts(a, b).filter(s => Math.abs(s.delta) >= SHIFT_THRESHOLD);
+  const close = emotionShifts(a, b).filter(s => Math.abs(s.delta) < SHIFT_THRESHOLD && s.before > 0.2).map(s => s.label);
+
+  const trajectory = (note: Note, head: Commit) => {
+    const history = getLineage(note, head.id).filter(c => c.analysis);
+    if (history.length < 2) return `**${note.title}**: a single analyzed revision`;
+    const [first, last] = [history[0].analysis!, history[history.length - 1].analysis!];
+    const from = first.emotions[0]?.label || 'none', to = last.emotions[0]?.label || 'none';
+    return `**${note.title}**: valence ${valenceMove(valenceOf(last) - valenceOf(first))} over ${plural(history.length, 'revision')}${from === to ? `, anchored in ${to}` : `, ${from} → ${to}`}`;
+  };
+
+  const sections: ReportSection[] = [
+    {
+      heading: 'Emotional profile',
+      lines: [
+        `**${left.title}**: ${topEmotions(a)}`,
+        `**${right.title}**: ${topEmotions(b)}`,
+        `Shared ground: ${listOf(close)}`,
+        ...shifts.slice(0, TOP).map(s => `**${s.label}** ${pct(s.before)} vs ${pct(s.after)}`)
+      ]
+    },
+    {
+      heading: 'Sentiment',
+      lines: [`${a.sentiment} (${signed(valenceOf(a))}) vs ${b.sentiment} (${signed(valenceOf(b))})`]
+    },
+    {
+      heading: 'Themes',
+      lines: [
+        `Shared keywords: ${listOf(a.keywords.filter(k => b.keywords.includes(k)))}`,
+        `Only in ${left.title}: ${listOf(a.keywords.filter(k => !b.keywords.includes(k)).slice(0, TOP))}`,
+        `Only in ${right.title}: ${listOf(b.keywords.filter(k => !a.keywords.includes(k)).slice(0, TOP))}`,
+        `Shared emotion clusters: ${listOf(left.clusters.filter(c => right.clusters.includes(c)))}`,
+        ...(overlap !== undefined ? [`Text overlap: ${pct(overlap)}`] : [])
+      ]
+    },
+    { heading: 'Trajectories', lines: [trajectory(left, headA), trajectory(right, headB)] }
+  ];
+
+  return {
+    kind: 'notes', title: `${left.title} vs ${right.title}`, subtitle: 'Stream comparison at current heads',
+    generatedAt: Date.now(), sections, sources: [sourceOf(left, headA), sourceOf(right, headB)]
+  };
+};
+
+const analyzedIn = (notes: Note[], range: DateRange) =>
+  notes.flatMap(note => Array.from(indexCommits(note).values())
+    .filter(c => c.analysis && inRange(c.timestamp, range))
+    .map(commit => ({ note, commit })));
+
+// Each emotion's share of all impact in the period, so busy and quiet periods compare fairly.
+const impactShares = (entries: { commit: Commit }[]) => {
+  const totals = new Map<string, number>();
+  entries.forEach(({ commit }) => commit.analysis!.emotions.forEach(e => totals.set(e.label, (totals.get(e.label) || 0) + e.impact)));
+  const sum = Array.from(totals.values()).reduce((s, v) => s + v, 0) || 1;
+  return new Map(Array.from(totals, ([label, v]) => [label, v / sum] as const));
+};
+
+const keywordCounts = (entries: { commit: Commit }[]) => {
+  const counts = new Map<string, number>();
+  entries.forEach(({ commit }) => commit.analysis!.keywords.forEach(k => counts.set(k, (counts.get(k) || 0) + 1)));
+  return counts;
+};
+
+/** Vault-wide review of a period against the one of equal length before it: which emotion clusters grew or faded. */
+export const periodDigest = (notes: Note[], range: { from: number; to: number }, label: string): InsightReport => {
+  const current = analyzedIn(notes, range);
+  if (current.length === 0) throw new Error(`No analyzed commits ${label}.`);
+  const prior = analyzedIn(notes, { from: range.from - (range.to - range.from) - 1, to: range.from - 1 });
+
+  const now = impactShares(current), before = impactShares(prior);
+  const clusters = Array.from(new Set([...now.keys(), ...before.keys()]))
+    .map(l => ({ label: l, before: before.get(l) || 0, after: now.get(l) || 0, delta: (now.get(l) || 0) - (before.get(l) || 0) }));
+  const grew = clusters.filter(c => c.delta >= SHIFT_THRESHOLD).sort((x, y) => y.delta - x.delta);
+  const faded = clusters.filter(c => c.delta <= -SHIFT_THRESHOLD).sort((x, y) => x.delta - y.delta);
+  const clusterLine = (c: EmotionShift) =>
+    `**${c.label}** ${pct(c.before)} → ${pct(c.after)} of the emotional weight${c.before === 0 ? ' (new)' : c.after === 0 ? ' (gone)' : ''}`;
+
+  const meanValence = (entries: { commit: Commit }[]) =>
+    entries.reduce((s, { commit }) => s + valenceOf(commit.analysis!), 0) / Math.max(entries.length, 1);
+  const byNote = new Map<string, { note: Note; commits: Commit[] }>();
+  current.forEach(({ note, commit }) => {
+    const entry = byNote.get(note.id) || { note, commits: [] };
+    entry.commits.push(commit);
+    byNote.set(note.id, entry);
+  });
+  const active = Array.from(byNote.values())
+    .map(e => ({ ...e, latest: e.commits.reduce((x, y) => y.timestamp > x.timestamp ? y : x) }))
+    .sort((x, y) => y.commits.length - x.commits.length || y.latest.timestamp - x.latest.timestamp);
+
+  const kwNow = keywordCounts(current), kwBefore = keywordCounts(prior);
+  const emerging = Array.from(kwNow).filter(([k]) => !kwBefore.has(k)).sort((x, y) => y[1] - x[1]).map(([k]) => k);
+  const dropped = Array.from(kwBefore).filter(([k]) => !kwNow.has(k)).sort((x, y) => y[1] - x[1]).map(([k]) => k);
+
+  const sections: ReportSection[] = [
+    {
+      heading: 'Activity',
+      lines: [
+        `${plural(current.length, 'analyzed commit')} across ${plural(byNote.size, 'stream')} (previous period: ${prior.length})`,
+        `Mean valence ${signed(meanValence(current))}${prior.length ? `, ${valenceMove(meanValence(current) - meanValence(prior))} from ${signed(meanValence(prior))}` : ''}`
+      ]
+    },
+    { heading: 'Clusters that grew', lines: grew.length ? grew.slice(0, TOP).map(clusterLine) : ['None moved up by more than 5 points.'] },
+    { heading: 'Clusters that faded', lines: faded.length ? faded.slice(0, TOP).map(clusterLine) : ['None moved down by more than 5 points.'] },
+    {
+      heading: 'Most active streams',
+      lines: active.slice(0, TOP).map(e => `**${e.note.title}** — ${plural(e.commits.length, 'commit')}, now mostly ${e.latest.analysis!.emotions[0]?.label || 'neutral'}`)
+    },
+    { heading: 'Keywords', lines: [`Emerging: ${listOf(emerging.slice(0, 6))}`, `Dropped: ${listOf(dropped.slice(0, 6))}`] }
+  ];
+
+  return {
+    kind: 'digest', title: `Vault review ${label}`, subtitle: `${formatDay(range.from)} – ${formatDay(range.to)} vs the ${plural(Math.ceil((range.to - range.from) / 86400000), 'day')} before`,
+    generatedAt: Date.now(), sections, sources: active.slice(0, TOP).map(e => sourceOf(e.note, e.latest))
+  };
+};
+
+export const reportToMarkdown = (report: InsightReport, withSources = true): string => {
+  const lines = [`### ${report.title}`, `*${report.subtitle}*`];
+  report.sections.forEach(s => lines.push('', `#### ${s.heading}`, ...s.lines.map(l => `- ${l}`)));
+  if (withSources && report.sources.length) {
+    lines.push('', '#### Sources', ...report.sources.map((s, i) => `- [${i + 1}] ${s.title} (${shortId(s.commitId)}, ${formatDay(s.timestamp)})`));
+  }
+  return lines.join('\n');
+};
+
+export const exportReport = (report: InsightReport, format: 'md' | 'json'): { blob: Blob; fileName: string } => {
+  const name = `Report_${slugify(report.title)}`;
+  return format === 'json'
+    ? { blob: new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }), fileName: `${name}.json` }
+    : { blob: new Blob([`${reportToMarkdown(report)}\n`], { type: 'text/markdown' }), fileName: `${name}.md` };
+};
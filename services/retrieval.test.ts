@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { VaultRetriever, chunkText, termsOf } from './retrieval';
+import { makeCommit, makeNote } from '../test/fixtures';
+
+describe('termsOf', () => {
+  it('drops stopwords and one-letter tokens and stems the rest', () => {
+    expect(termsOf('The gardens of a city, x')).toEqual(['garden', 'citi']);
+  });
+});
+
+describe('chunkText', () => {
+  it('splits on blank lines and strips asset references', () => {
+    expect(chunkText('First paragraph.\n\n[Asset Ref: a1]\n\nSecond one.')).toEqual(['First paragraph.', 'Second one.']);
+  });
+
+  it('cuts long paragraphs into overlapping windows', () => {
+    const words = Array.from({ length: 140 }, (_, i) => `w${i}`);
+    const chunks = chunkText(words.join(' '));
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0].split(' ')).toHaveLength(80);
+    expect(chunks[1].split(' ')[0]).toBe('w60');
+    expect(chunks[1].endsWith('w139')).toBe(true);
+  });
+});
+
+describe('VaultRetriever', () => {
+  const notes = [
+    makeNote('garden', { main: [makeCommit('g1', 'Planted tomatoes and basil in the garden.\n\nThe neighbour\'s cat was sleeping on the fence.', { timestamp: 10 })] }, { title: 'Garden' }),
+    makeNote('work', { main: [makeCommit('w1', 'Sprint planning ran long. We argued about the release date.', {
+      timestamp: 20, assets: [{ id: 'a1', type: 'audio', url: '', name: 'memo.webm', transcription: 'Remember to water the tomatoes.' }]
+    })] }, { title: 'Work' }),
+    makeNote('trip', { main: [
+      makeCommit('t1', 'Booked the train to the coast.', { timestamp: 5 }),
+      makeCommit('t2', 'Cancelled the train, driving instead.', { timestamp: 50 })
+    ] }, { title: 'Trip' })
+  ];
+  const retriever = new VaultRetriever(notes);
+
+  it('indexes one passage per chunk, transcript and caption', () => {
+    expect(retriever.size).toBe(5);
+  });
+
+  it('ranks passages by cosine similarity to the query', () => {
+    const results = retriever.search('tomatoes garden');
+    expect(results[0]).toMatchObject({ noteId: 'garden', source: 'text' });
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+    expect(results.map(r => r.source)).toContain('transcript');
+    results.forEach(r => expect(r.score).toBeLessThanOrEqual(1 + 1e-9));
+  });
+
+  it('lets title terms find every chunk of a note', () => {
+    expect(retriever.search('garden', { limit: 10 }).filter(r => r.noteId === 'garden')).toHaveLength(2);
+  });
+
+  it('restricts results to the given notes and drops weak matches', () => {
+    expect(retriever.search('tomatoes', { noteIds: ['work'] }).map(r => r.noteId)).toEqual(['work']);
+    expect(retriever.search('spaceship')).toEqual([]);
+  });
+
+  it('reads the head commit, or the latest commit inside a range', () => {
+    expect(retriever.search('cancelled')[0].commitId).toBe('t2');
+    const past = new VaultRetriever(notes, { to: 30 });
+    expect(past.search('booked')[0].commitId).toBe('t1');
+    expect(past.search('cancelled')).toEqual([]);
+  });
+
+  it('scores identical texts as fully similar', () => {
+    expect(retriever.similarity('train coast', 'coast train')).toBeCloseTo(1);
+    expect(retriever.similarity('train', 'tomatoes')).toBe(0);
+  });
+});
@@ -0,0 +1,133 @@
+import { Note, Commit } from '../types';
+import { tokenize } from './searchIndex';
+import { stem } from './sentiment';
+import { STOPWORDS } from './mlEngine';
+import { DateRange, inRange } from './trends';
+
+export interface Passage {
+  noteId: string;
+  noteTitle: string;
+  commitId: string;
+  branch: string;
+  timestamp: number;
+  text: string;
+  source: 'text' | 'transcript' | 'image';
+}
+
+export interface RetrievedPassage extends Passage {
+  score: number; // Cosine similarity to the query, 0..1
+}
+
+export interface RetrievalOptions {
+  noteIds?: string[];
+  limit?: number;
+  minScore?: number;
+}
+
+type Vector = Map<string, number>;
+
+const CHUNK_WORDS = 80;
+const CHUNK_OVERLAP = 20;
+
+/** Stemmed content terms; what both passages and queries are matched on. */
+export const termsOf = (text: string): string[] =>
+  tokenize(text).filter(t => t.length > 1 && !STOPWORDS.has(t)).map(stem);
+
+/** Paragraphs, with long ones cut into overlapping word windows so a passage stays quotable. */
+export const chunkText = (text: string): string[] =>
+  text.replace(/\[Asset Ref: [^\]]+\]/g, ' ').split(/\n\s*\n/).map(p => p.trim()).filter(Boolean).flatMap(p => {
+    const words = p.split(/\s+/);
+    if (words.length <= CHUNK_WORDS) return [p];
+    const chunks: string[] = [];
+    for (let i = 0; i < words.length; i += CHUNK_WORDS - CHUNK_OVERLAP) {
+      chunks.push(words.slice(i, i + CHUNK_WORDS).join(' '));
+      if (i + CHUNK_WORDS >= words.length) break;
+    }
+    return chunks;
+  });
+
+const dot = (a: Vector, b: Vector) => {
+  const [small, large] = a.size < b.size ? [a, b] : [b, a];
+  let sum = 0;
+  small.forEach((w, t) => { sum += w * (large.get(t) || 0); });
+  return sum;
+};
+
+// Latest commit per branch, or the latest one inside the range; identical texts on forked branches count once.
+const sourceCommits = (note: Note, range?: DateRange): { branch: string; commit: Commit }[] => {
+  const seen = new Set<string>();
+  return Object.values(note.branches).flatMap(b => {
+    const commit = range
+      ? [...b.commits].reverse().find(c => inRange(c.timestamp, range))
+      : b.commits.find(c => c.id === b.head);
+    if (!commit || seen.has(commit.content)) return [];
+    seen.add(commit.content);
+    return [{ branch: b.name, commit }];
+  });
+};
+
+/**
+ * TF-IDF index over chunked note text, media transcripts and image captions. Built per snapshot of the vault;
+ * with a range, each branch contributes the text it had at the end of that range instead of its head.
+ */
+export class VaultRetriever {
+  private passages: Passage[] = [];
+  private vectors: Vector[] = [];
+  private df = new Map<string, number>();
+
+  constructor(notes: Note[], range?: DateRange) {
+    const termLists: string[][] = [];
+    notes.forEach(note => sourceCommits(note, range).forEach(({ branch, commit }) => {
+      const base = { noteId: note.id, noteTitle: note.title, commitId: commit.id, branch, timestamp: commit.timestamp };
+      const texts: [string, Passage['source']][] = [
+        ...chunkText(commit.content).map(t => [t, 'text'] as [string, Passage['source']]),
+        ...(commit.assets || []).flatMap(a => [
+          ...(a.transcription ? chunkText(a.transcription).map(t => [t, 'transcript'] as [string, Passage['source']]) : []),
+          ...(a.analysis ? [[a.analysis.caption, 'image'] as [string, Passage['source']]] : [])
+        ])
+      ];
+      // Title terms ride along with every chunk so "notes about <title>" finds the note.
+      const titleTerms = termsOf(note.title);
+      texts.forEach(([text, source]) => {
+        this.passages.push({ ...base, text, source });
+        termLists.push([...termsOf(text), ...titleTerms]);
+      });
+    }));
+    termLists.forEach(terms => new Set(terms).forEach(t => this.df.set(t, (this.df.get(t) || 0) + 1)));
+    this.vectors = termLists.map(terms => this.weigh(terms));
+  }
+
+  get size() {
+    return this.passages.length;
+  }
+
+  public search(query: string, { noteIds, limit = 5, minScore = 0.05 }: RetrievalOptions = {}): RetrievedPassage[] {
+    const q = this.weigh(termsOf(query));
+    if (q.size === 0) return [];
+    return this.passages
+      .map((p, i) => ({ ...p, score: dot(q, this.vectors[i]) }))
+      .filter(p => p.score >= minScore && (!noteIds || noteIds.includes(p.noteId)))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /** Cosine similarity of two texts under this index's term weights. */
+  public similarity(a: string, b: string): number {
+    return dot(this.weigh(termsOf(a)), this.weigh(termsOf(b)));
+  }
+
+  // Log-scaled term frequency times smoothed IDF, L2-normalised; terms the index has never seen are dropped.
+  private weigh(terms: string[]): Vector {
+    const tf = new Map<string, number>();
+    terms.forEach(t => tf.set(t, (tf.get(t) || 0) + 1));
+    const n = Math.max(this.passages.length, 1);
+    const vector: Vector = new Map();
+    tf.forEach((count, t) => {
+      const df = this.df.get(t);
+      if (df) vector.set(t, (1 + Math.log(count)) * Math.log(1 + n / df));
+    });
+    const norm = Math.sqrt(Array.from(vector.values()).reduce((s, w) => s + w * w, 0));
+    vector.forEach((w, t) => vector.set(t, w / norm));
+    return vector;
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Note } from '../types';
+import { parseQuery, searchIndex, tokenize } from './searchIndex';
+import { makeCommit, makeNote } from '../test/fixtures';
+
+const note = (id: string, title: string, content: string, extra: Partial<Note> = {}): Note =>
+  makeNote(id, { main: [makeCommit(`${id}-c1`, content, { message: 'Initial' })] }, { title, ...extra });
+
+describe('tokenize', () => {
+  it('lower-cases and splits on anything that is not a letter or digit', () => {
+    expect(tokenize('Café, déjà-vu 42!')).toEqual(['café', 'déjà', 'vu', '42']);
+  });
+});
+
+describe('parseQuery', () => {
+  it('separates terms, quoted phrases and filters', () => {
+    const parsed = parseQuery('Ocean "blue whale" tag:Travel emotion:joy after:2024-01-01 wav*');
+    expect(parsed.terms).toEqual(['ocean', 'wav*']);
+    expect(parsed.phrases).toEqual([['blue', 'whale']]);
+    expect(parsed.filters.tag).toEqual(['travel']);
+    expect(parsed.filters.emotion).toEqual(['joy']);
+    expect(parsed.filters.after).toBe(Date.parse('2024-01-01'));
+  });
+});
+
+describe('searchIndex', () => {
+  beforeEach(() => {
+    searchIndex.build([
+      note('a', 'Ocean trip', 'We watched a blue whale near the harbour.', { tags: ['travel'], updatedAt: 3 }),
+      note('b', 'Groceries', 'Buy milk, bread and whale-shaped pasta. Milk again, milk milk.', { updatedAt: 2 }),
+      note('c', 'Work', 'Quarterly planning meeting notes.', { tags: ['work'], updatedAt: 1 })
+    ]);
+  });
+
+  it('ranks a title match above a body match', () => {
+    searchIndex.build([
+      note('a', 'Whale', 'Seen from the boat.'),
+      note('b', 'Boat', 'A whale was seen from the boat.')
+    ]);
+    expect(searchIndex.search('whale').map(r => r.noteId)).toEqual(['a', 'b']);
+  });
+
+  it('saturates repeated terms instead of scoring them linearly', () => {
+    const results = searchIndex.search('milk');
+    expect(results).toHaveLength(1);
+    expect(results[0].score).toBeLessThan(4 * searchIndex.search('bread')[0].score);
+  });
+
+  it('requires every term and phrase to match', () => {
+    expect(searchIndex.search('whale harbour').map(r => r.noteId)).toEqual(['a']);
+    expect(searchIndex.search('"blue whale"').map(r => r.noteId)).toEqual(['a']);
+    expect(searchIndex.search('"whale blue"')).toEqual([]);
+  });
+
+  it('matches the last bare term and starred terms as prefixes', () => {
+    expect(searchIndex.search('quarter').map(r => r.noteId)).toEqual(['c']);
+    expect(searchIndex.search('harb*').map(r => r.noteId)).toEqual(['a']);
+  });
+
+  it('applies filters and orders filter-only queries by recency', () => {
+    expect(searchIndex.search('whale tag:travel').map(r => r.noteId)).toEqual(['a']);
+    expect(searchIndex.search('tag:work').map(r => r.noteId)).toEqual(['c']);
+    expect(searchIndex.search('after:1970-01-01').map(r => r.noteId)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('highlights matched words in the snippet', () => {
+    const [result] = searchIndex.search('harbour');
+    expect(result.snippet.filter(s => s.highlight).map(s => s.text)).toEqual(['harbour']);
+  });
+
+  it('skips reindexing when only metadata changed', () => {
+    const base = note('a', 'Ocean trip', 'We watched a blue whale near the harbour.');
+    expect(searchIndex.upsert({ ...base, tags: ['sea'] })).toBe(false);
+    expect(searchIndex.search('tag:sea').map(r => r.noteId)).toEqual(['a']);
+    expect(searchIndex.upsert(note('a', 'Ocean trip', 'A dolphin instead.'))).toBe(true);
+    expect(searchIndex.search('whale').map(r => r.noteId)).toEqual(['b']);
+  });
+
+  it('forgets removed notes', () => {
+    searchIndex.remove('a');
+    expect(searchIndex.search('harbour')).toEqual([]);
+  });
+});
@@ -0,0 +1,225 @@
+import { Note, SearchResult, SnippetSegment } from '../types';
+
+type Field = 'title' | 'content' | 'messages' | 'assets';
+
+interface IndexedDoc {
+  note: Note;
+  text: Record<Field, string>;
+  tokens: Record<Field, string[]>;
+  length: number;
+  emotions: string[];
+  models: string[];
+}
+
+interface ParsedQuery {
+  terms: string[];
+  phrases: string[][];
+  filters: { emotion: string[]; tag: string[]; model: string[]; before?: number; after?: number };
+}
+
+const FIELD_BOOST: Record<Field, number> = { title: 3, content: 1, messages: 0.5, assets: 0.8 };
+const FIELDS = Object.keys(FIELD_BOOST) as Field[];
+const SNIPPET_RADIUS = 60;
+
+export const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(t => t.length > 0);
+
+const parseDate = (v: string): number | undefined => {
+  const t = Date.parse(v);
+  return isNaN(t) ? undefined : t;
+};
+
+export const parseQuery = (query: string): ParsedQuery => {
+  const parsed: ParsedQuery = { terms: [], phrases: [], filters: { emotion: [], tag: [], model: [] } };
+  const rest = query.replace(/"([^"]+)"/g, (_, phrase: string) => {
+    const tokens = tokenize(phrase);
+    if (tokens.length > 0) parsed.phrases.push(tokens);
+    return ' ';
+  });
+
+  rest.split(/\s+/).filter(Boolean).forEach(part => {
+    const filter = part.match(/^(emotion|tag|model|before|after):(.+)$/i);
+    if (!filter) {
+      parsed.terms.push(...tokenize(part).map((t, i, all) => part.endsWith('*') && i === all.length - 1 ? `${t}*` : t));
+      return;
+    }
+    const key = filter[1].toLowerCase();
+    const value = filter[2];
+    if (key === 'before') parsed.filters.before = parseDate(value);
+    else if (key === 'after') parsed.filters.after = parseDate(value);
+    else parsed.filters[key as 'emotion' | 'tag' | 'model'].push(value.toLowerCase());
+  });
+  return parsed;
+};
+
+class SearchIndex {
+  private docs: Map<string, IndexedDoc> = new Map();
+  private postings: Map<string, Map<string, number>> = new Map();
+  private totalLength = 0;
+
+  public build(notes: Note[]) {
+    this.docs.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+    notes.forEach(n => this.upsert(n));
+  }
+
+  /** Returns false when the note's searchable text is unchanged, in which case only its metadata is refreshed. */
+  public upsert(note: Note): boolean {
+    const branches = Object.values(note.branches);
+    const heads = branches.map(b => b.commits.find(c => c.id === b.head)).filter(c => !!c);
+    const allCommits = branches.flatMap(b => b.commits);
+    const headAssets = heads.flatMap(c => c!.assets || []);
+
+    // Identical heads (e.g. a freshly forked branch) are indexed once.
+    const text: Record<Field, string> = {
+      title: note.title,
+      content: Array.from(new Set(heads.map(c => c!.content.replace(/\[Asset Ref: [^\]]+\]/g, ' ')))).join('\n\n'),
+      messages: Array.from(new Set(allCommits.map(c => c.message))).join('\n'),
+      assets: headAssets.map(a => [a.name, a.transcription].filter(Boolean).join('\n')).join('\n')
+    };
+    const emotions = Array.from(new Set([...note.clusters, ...heads.flatMap(c => c!.analysis?.emotions.map(e => e.label) || [])])).map(e => e.toLowerCase());
+    const models = Array.from(new Set([note.config.preferredModel, ...heads.map(c => c!.analysis?.modelUsed).filter(Boolean)])) as string[];
+
+    const existing = this.docs.get(note.id);
+    if (existing && FIELDS.every(f => existing.text[f] === text[f])) {
+      this.docs.set(note.id, { ...existing, note, emotions, models });
+      return false;
+    }
+
+    this.remove(note.id);
+    const tokens = Object.fromEntries(FIELDS.map(f => [f, tokenize(text[f])])) as Record<Field, string[]>;
+    const doc: IndexedDoc = {
+      note, text, tokens, emotions, models,
+      length: FIELDS.reduce((sum, f) => sum + tokens[f].length, 0)
+    };
+
+    FIELDS.forEach(f => tokens[f].forEach(t => {
+      let posting = this.postings.get(t);
+      if (!posting) { posting = new Map(); this.postings.set(t, posting); }
+      posting.set(note.id, (posting.get(note.id) || 0) + FIELD_BOOST[f]);
+    }));
+    this.docs.set(note.id, doc);
+    this.totalLength += doc.length;
+    return true;
+  }
+
+  public remove(noteId: string) {
+    const doc = this.docs.get(noteId);
+    if (!doc) return;
+    new Set(FIELDS.flatMap(f => doc.tokens[f])).forEach(t => {
+      const posting = this.postings.get(t);
+      posting?.delete(noteId);
+      if (posting && posting.size === 0) this.postings.delete(t);
+    });
+    this.totalLength -= doc.length;
+    this.docs.delete(noteId);
+  }
+
+  public search(query: string): SearchResult[] {
+    const parsed = parseQuery(query);
+    const candidates = Array.from(this.docs.values()).filter(d => this.passesFilters(d, parsed));
+    const hasText = parsed.terms.length > 0 || parsed.phrases.length > 0;
+
+    const results: SearchResult[] = [];
+    for (const doc of candidates) {
+      if (!parsed.phrases.every(p => FIELDS.some(f => this.containsPhrase(doc.tokens[f], p)))) continue;
+
+      let score = 0;
+      const matchedTerms: string[] = [];
+      let allTermsMatch = true;
+      for (const term of parsed.terms) {
+        const expanded = this.expandTerm(term);
+        const termScore = expanded.reduce((sum, { term: t, weight }) => sum + weight * this.scoreTerm(t, doc), 0);
+        if (termScore === 0) { allTermsMatch = false; break; }
+        score += termScore;
+        matchedTerms.push(...expanded.filter(e => this.postings.get(e.term)?.has(doc.note.id)).map(e => e.term));
+      }
+      if (!allTermsMatch) continue;
+
+      parsed.phrases.forEach(p => {
+        score += 2 * p.reduce((sum, t) => sum + this.scoreTerm(t, doc), 0);
+        matchedTerms.push(...p);
+      });
+
+      results.push({
+        noteId: doc.note.id,
+        score: hasText ? score : doc.note.updatedAt,
+        snippet: this.buildSnippet(doc, matchedTerms)
+      });
+    }
+    return results.sort((a, b) => b.score - a.score);
+  }
+
+  // Exact terms weigh fully; "term*" and the bare last token also match as prefixes.
+  private expandTerm(term: string): { term: string; weight: number }[] {
+    const prefix = term.endsWith('*') ? term.slice(0, -1) : term;
+    const expanded: { term: string; weight: number }[] = [];
+    if (!term.endsWith('*') && this.postings.has(term)) expanded.push({ term, weight: 1 });
+    if (prefix.length >= 2) {
+      for (const t of this.postings.keys()) {
+        if (t !== term && t.startsWith(prefix)) expanded.push({ term: t, weight: term.endsWith('*') ? 1 : 0.5 });
+      }
+    }
+    return expanded;
+  }
+
+  // BM25-style saturation over field-boosted term frequency.
+  private scoreTerm(term: string, doc: IndexedDoc): number {
+    const posting = this.postings.get(term);
+    const tf = posting?.get(doc.note.id);
+    if (!posting || !tf) return 0;
+    const n = this.docs.size;
+    const idf = Math.log(1 + (n - posting.size + 0.5) / (posting.size + 0.5));
+    const avgLength = this.totalLength / Math.max(n, 1) || 1;
+    const k1 = 1.2, b = 0.75;
+    return idf * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * doc.length / avgLength));
+  }
+
+  private containsPhrase(tokens: string[], phrase: string[]): boolean {
+    for (let i = 0; i + phrase.length <= tokens.length; i++) {
+      if (phrase.every((t, j) => tokens[i + j] === t)) return true;
+    }
+    return false;
+  }
+
+  private passesFilters(doc: IndexedDoc, { filters }: ParsedQuery): boolean {
+    const tags = doc.note.tags.map(t => t.toLowerCase());
+    if (!filters.emotion.every(e => doc.emotions.includes(e))) return false;
+    if (!filters.tag.every(t => tags.includes(t))) return false;
+    if (!filters.model.every(m => doc.models.includes(m))) return false;
+    if (filters.before !== undefined && doc.note.updatedAt >= filters.before) return false;
+    if (filters.after !== undefined && doc.note.updatedAt <= filters.after) return false;
+    return true;
+  }
+
+  private buildSnippet(doc: IndexedDoc, terms: string[]): SnippetSegment[] {
+    const field = FIELDS.find(f => f !== 'title' && terms.some(t => doc.tokens[f].includes(t))) || 'content';
+    const source = doc.text[field].replace(/\s+/g, ' ').trim();
+    if (!source) return [];
+
+    const termSet = new Set(terms);
+    const wordRe = /[\p{L}\p{N}]+/gu;
+    const hits: [number, number][] = [];
+    for (const m of source.matchAll(wordRe)) {
+      if (termSet.has(m[0].toLowerCase())) hits.push([m.index!, m.index! + m[0].length]);
+    }
+
+    const center = hits[0]?.[0] ?? 0;
+    const start = Math.max(0, center - SNIPPET_RADIUS);
+    const end = Math.min(source.length, center + SNIPPET_RADIUS * 2);
+    const segments: SnippetSegment[] = [];
+    if (start > 0) segments.push({ text: '…', highlight: false });
+    let cursor = start;
+    hits.filter(([s, e]) => s >= start && e <= end).forEach(([s, e]) => {
+      if (s > cursor) segments.push({ text: source.slice(cursor, s), highlight: false });
+      segments.push({ text: source.slice(s, e), highlight: true });
+      cursor = e;
+    });
+    if (cursor < end) segments.push({ text: source.slice(cursor, end), highlight: false });
+    if (end < source.length) segments.push({ text: '…', highlight: false });
+    return segments;
+  }
+}
+
+export const searchIndex = new SearchIndex();
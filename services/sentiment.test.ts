@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { annotateTokens, buildValenceLexicon, scoreSentiment, stem } from './sentiment';
+
+describe('stem', () => {
+  it('reduces inflections to a shared stem', () => {
+    expect(stem('worried')).toBe(stem('worry'));
+    expect(stem('relaxing')).toBe(stem('relax'));
+  });
+});
+
+describe('annotateTokens', () => {
+  it('marks the words inside a negation scope and drops the negation itself', () => {
+    const tokens = annotateTokens('not happy today');
+    expect(tokens.map(t => t.word)).toEqual(['happy', 'today']);
+    expect(tokens.every(t => t.negated)).toBe(true);
+  });
+
+  it('closes the negation scope at a clause break', () => {
+    const tokens = annotateTokens('not tired, happy');
+    expect(tokens.find(t => t.word === 'happy')!.negated).toBe(false);
+  });
+
+  it('treats straight and curly contractions alike', () => {
+    expect(annotateTokens("I don't feel safe")).toEqual(annotateTokens('I don’t feel safe'));
+    expect(annotateTokens('I don’t feel safe').find(t => t.word === 'safe')!.negated).toBe(true);
+  });
+
+  it('carries modifier intensity to the next word only', () => {
+    const [happy, day] = annotateTokens('very happy day');
+    expect(happy.intensity).toBe(1.5);
+    expect(day.intensity).toBe(1);
+  });
+
+  it('reads "kind of" as a diminisher rather than the word "kind"', () => {
+    const tokens = annotateTokens('kind of happy');
+    expect(tokens.map(t => t.word)).toEqual(['happy']);
+    expect(tokens[0].intensity).toBe(0.6);
+  });
+
+  it('ignores asset references', () => {
+    expect(annotateTokens('[Asset Ref: img-1] calm')).toEqual([expect.objectContaining({ word: 'calm' })]);
+  });
+});
+
+describe('scoreSentiment', () => {
+  it('labels clear positive, negative and neutral text', () => {
+    expect(scoreSentiment('What a great, happy day').label).toBe('positive');
+    expect(scoreSentiment('I feel awful and anxious').label).toBe('negative');
+    expect(scoreSentiment('The meeting is on Tuesday').label).toBe('neutral');
+  });
+
+  it('flips negated words with less weight than their opposite', () => {
+    const notHappy = scoreSentiment('not happy');
+    expect(notHappy.label).toBe('negative');
+    expect(Math.abs(notHappy.valence)).toBeLessThan(Math.abs(scoreSentiment('miserable').valence));
+  });
+
+  it('negates curly-apostrophe contractions', () => {
+    expect(scoreSentiment('I don’t feel good').label).toBe('negative');
+  });
+
+  it('scales with intensifiers and keeps valence inside -1..1', () => {
+    expect(scoreSentiment('extremely happy').valence).toBeGreaterThan(scoreSentiment('happy').valence);
+    const valence = scoreSentiment('great great great great great great').valence;
+    expect(valence).toBeGreaterThan(0.9);
+    expect(valence).toBeLessThan(1);
+  });
+
+  it('uses taxonomy keywords from a custom lexicon', () => {
+    const lexicon = buildValenceLexicon([{ polarity: 'positive', keywords: ['sunlit'] }]);
+    expect(scoreSentiment('a sunlit morning').label).toBe('neutral');
+    expect(scoreSentiment('a sunlit morning', lexicon).label).toBe('positive');
+  });
+});
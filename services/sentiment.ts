@@ -0,0 +1,204 @@
+import { SentimentPolarity } from '../types';
+
+export interface SentimentToken {
+  word: string;
+  stem: string;
+  negated: boolean;
+  intensity: number; // Product of the intensifiers/diminishers in front of this word
+}
+
+export interface SentimentResult {
+  label: SentimentPolarity;
+  valence: number; // -1..1
+  positive: number;
+  negative: number;
+  hits: { stem: string; weight: number }[];
+}
+
+export interface PolarityEntry {
+  keywords: string[];
+  polarity: SentimentPolarity;
+}
+
+// --- Stemming: Porter steps 1a-1c, a few derivational suffixes and step 5 ---
+
+const isConsonant = (w: string, i: number): boolean => {
+  const c = w[i];
+  if ('aeiou'.includes(c)) return false;
+  if (c === 'y') return i === 0 || !isConsonant(w, i - 1);
+  return true;
+};
+
+// Number of vowel-consonant sequences, Porter's "m".
+const measure = (w: string): number => {
+  let m = 0;
+  let i = 0;
+  while (i < w.length && isConsonant(w, i)) i++;
+  while (i < w.length) {
+    while (i < w.length && !isConsonant(w, i)) i++;
+    if (i >= w.length) break;
+    while (i < w.length && isConsonant(w, i)) i++;
+    m++;
+  }
+  return m;
+};
+
+const hasVowel = (w: string) => w.split('').some((_, i) => !isConsonant(w, i));
+
+const endsCVC = (w: string) => {
+  const n = w.length;
+  return n >= 3 && isConsonant(w, n - 3) && !isConsonant(w, n - 2) && isConsonant(w, n - 1) && !'wxy'.includes(w[n - 1]);
+};
+
+const endsDoubleConsonant = (w: string) => {
+  const n = w.length;
+  return n >= 2 && w[n - 1] === w[n - 2] && isConsonant(w, n - 1);
+};
+
+export const stem = (word: string): string => {
+  let w = word.toLowerCase();
+  if (w.length <= 2) return w;
+
+  // 1a: plurals
+  if (w.endsWith('sses')) w = w.slice(0, -2);
+  else if (w.endsWith('ies')) w = w.slice(0, -2);
+  else if (!w.endsWith('ss') && w.endsWith('s')) w = w.slice(0, -1);
+
+  // 1b: past tense and gerunds
+  if (w.endsWith('eed')) {
+    if (measure(w.slice(0, -3)) > 0) w = w.slice(0, -1);
+  } else {
+    const suffix = w.endsWith('ed') ? 'ed' : w.endsWith('ing') ? 'ing' : null;
+    if (suffix && hasVowel(w.slice(0, -suffix.length))) {
+      w = w.slice(0, -suffix.length);
+      if (/(at|bl|iz)$/.test(w)) w += 'e';
+      else if (endsDoubleConsonant(w) && !/[lsz]$/.test(w)) w = w.slice(0, -1);
+      else if (measure(w) === 1 && endsCVC(w)) w += 'e';
+    }
+  }
+
+  // Derivational endings that keep the emotional meaning ("sadness", "deeply").
+  // "-less" and "-ful" are left alone: "careless" is not "care".
+  for (const suffix of ['ness', 'ly']) {
+    if (w.endsWith(suffix) && measure(w.slice(0, -suffix.length)) > 0) { w = w.slice(0, -suffix.length); break; }
+  }
+
+  // 1c
+  if (w.endsWith('y') && hasVowel(w.slice(0, -1))) w = w.slice(0, -1) + 'i';
+
+  // 5: final e
+  if (w.endsWith('e')) {
+    const base = w.slice(0, -1);
+    const m = measure(base);
+    if (m > 1 || (m === 1 && !endsCVC(base))) w = base;
+  }
+  return w;
+};
+
+// --- Lexicons ---
+
+const NEGATIONS = new Set([
+  'not', 'no', 'never', 'none', 'nobody', 'nothing', 'neither', 'nor', 'nowhere', 'without', 'hardly', 'barely',
+  'cannot', 'cant', 'dont', 'doesnt', 'didnt', 'isnt', 'wasnt', 'arent', 'werent', 'wont', 'wouldnt', 'shouldnt', 'couldnt'
+]);
+
+const MODIFIERS: Record<string, number> = {
+  very: 1.5, really: 1.4, so: 1.4, extremely: 1.8, incredibly: 1.8, deeply: 1.6, totally: 1.5, absolutely: 1.6,
+  completely: 1.5, utterly: 1.7, truly: 1.4, super: 1.5, highly: 1.4, most: 1.3, more: 1.2,
+  slightly: 0.5, somewhat: 0.6, little: 0.6, mildly: 0.5, fairly: 0.8, rather: 0.8, partly: 0.6, less: 0.6
+};
+
+// Two-word diminishers; "kind of" must not count as the Caring keyword "kind".
+const PHRASE_MODIFIERS: Record<string, number> = { 'kind of': 0.6, 'sort of': 0.6, 'a bit': 0.6, 'a little': 0.6 };
+
+// Clause boundaries close a negation scope.
+const CLAUSE_BREAK = /[.,;:!?\n]+|\b(?:but|however|although|though|yet)\b/i;
+const NEGATION_SCOPE = 3;
+
+// Attenuated flip: "not happy" is weaker than "sad".
+const NEGATION_SCALAR = -0.74;
+
+// Normalisation constant for valence = s / sqrt(s² + α).
+const ALPHA = 15;
+const NEUTRAL_BAND = 0.05;
+
+const BASE_VALENCE: Record<string, number> = {
+  good: 2, great: 3, happy: 3, joy: 3, glad: 2, calm: 1, peace: 2, hope: 2, grateful: 3, gratitude: 3, thankful: 2,
+  proud: 2, excellent: 3, amazing: 3, beautiful: 3, delight: 3, fun: 2, enjoy: 2, relief: 2, relax: 2, win: 2,
+  success: 2, inspire: 2, warm: 1, safe: 1, trust: 2, smile: 2, laugh: 2, bright: 1, confident: 2, focus: 1,
+  bad: -2, terrible: -3, awful: -3, angry: -3, anger: -3, hate: -3, fear: -2, afraid: -2, anxious: -2, anxiety: -2,
+  stress: -2, stressed: -2, worried: -2, worry: -2, tired: -1, exhausted: -2, pain: -2, hurt: -2, cry: -2, grief: -3,
+  miserable: -3, upset: -2, frustrated: -2, frustration: -2, disappointed: -2, fail: -2, failure: -2, broken: -2,
+  alone: -1, empty: -2, guilt: -2, shame: -2, regret: -2, panic: -3, overwhelmed: -2, boring: -1, careless: -1, scared: -2
+};
+
+const STEMMED_BASE = new Map(Object.entries(BASE_VALENCE).map(([w, v]) => [stem(w), v] as const));
+
+const polarityWeight = (p: SentimentPolarity) => p === 'positive' ? 1 : p === 'negative' ? -1 : 0;
+
+/** Stems the taxonomy keywords; the hand-tuned base weights win where both define a word. */
+export const buildValenceLexicon = (entries: PolarityEntry[] = []): Map<string, number> => {
+  const lexicon = new Map<string, number>();
+  entries.forEach(e => e.keywords.forEach(k => {
+    const weight = polarityWeight(e.polarity);
+    if (weight !== 0) lexicon.set(stem(k), weight);
+  }));
+  STEMMED_BASE.forEach((v, k) => lexicon.set(k, v));
+  return lexicon;
+};
+
+// --- Tokenisation ---
+
+// Curly apostrophes (don’t) are folded to straight ones so contractions still read as negations.
+const splitWords = (clause: string): string[] =>
+  clause.toLowerCase()
+    .replace(/[\u2018\u2019\u02bc]/g, "'")
+    .split(/[^\p{L}\p{N}']+/u)
+    .map(w => w.replace(/^'+|'+$/g, ''))
+    .map(w => w.endsWith("n't") ? 'not' : w.replace(/'/g, ''))
+    .filter(Boolean);
+
+/**
+ * Splits text into clauses and words, marking each word with whether it sits inside a negation
+ * scope and the intensity carried over from preceding modifiers. Negations and modifiers
+ * themselves are not emitted.
+ */
+export const annotateTokens = (text: string): SentimentToken[] => {
+  const tokens: SentimentToken[] = [];
+  text.replace(/\[Asset Ref: [^\]]+\]/g, ' ').split(CLAUSE_BREAK).filter(Boolean).forEach(clause => {
+    const words = splitWords(clause);
+    let negationLeft = 0;
+    let intensity = 1;
+    for (let i = 0; i < words.length; i++) {
+      const word = words[i];
+      const phrase = PHRASE_MODIFIERS[`${word} ${words[i + 1]}`];
+      if (phrase) { intensity *= phrase; i++; continue; }
+      if (NEGATIONS.has(word)) { negationLeft = NEGATION_SCOPE; continue; }
+      if (MODIFIERS[word]) { intensity *= MODIFIERS[word]; continue; }
+
+      tokens.push({ word, stem: stem(word), negated: negationLeft > 0, intensity });
+      if (negationLeft > 0) negationLeft--;
+      intensity = 1;
+    }
+  });
+  return tokens;
+};
+
+/** Deterministic lexical sentiment: same text and lexicon, same result. */
+export const scoreSentiment = (text: string, lexicon: Map<string, number> = buildValenceLexicon()): SentimentResult => {
+  const hits: SentimentResult['hits'] = [];
+  let positive = 0;
+  let negative = 0;
+  annotateTokens(text).forEach(t => {
+    const base = lexicon.get(t.stem);
+    if (!base) return;
+    const weight = base * t.intensity * (t.negated ? NEGATION_SCALAR : 1);
+    hits.push({ stem: t.stem, weight });
+    if (weight > 0) positive += weight; else negative -= weight;
+  });
+
+  const sum = positive - negative;
+  const valence = sum === 0 ? 0 : sum / Math.sqrt(sum * sum + ALPHA);
+  const label: SentimentPolarity = valence > NEUTRAL_BAND ? 'positive' : valence < -NEUTRAL_BAND ? 'negative' : 'neutral';
+  return { label, valence, positive, negative, hits };
+};
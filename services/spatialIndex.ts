@@ -0,0 +1,52 @@
+interface Entry<T> {
+  item: T;
+  order: number;
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/** Uniform grid over axis-aligned boxes; answers rectangle and point queries without scanning every item. */
+export class SpatialGrid<T> {
+  private cells = new Map<string, Entry<T>[]>();
+  private entries: Entry<T>[] = [];
+
+  constructor(private cellSize: number) {}
+
+  get size() {
+    return this.entries.length;
+  }
+
+  insert(item: T, minX: number, minY: number, maxX: number, maxY: number) {
+    const entry = { item, order: this.entries.length, minX, minY, maxX, maxY };
+    this.entries.push(entry);
+    this.forCells(minX, minY, maxX, maxY, key => {
+      const cell = this.cells.get(key);
+      if (cell) cell.push(entry); else this.cells.set(key, [entry]);
+    });
+  }
+
+  /** Items whose box overlaps the rectangle, in insertion order. */
+  query(minX: number, minY: number, maxX: number, maxY: number): T[] {
+    const overlaps = (e: Entry<T>) => e.maxX >= minX && e.minX <= maxX && e.maxY >= minY && e.minY <= maxY;
+    // Zoomed far out the rectangle spans more cells than there are items; a scan is cheaper then.
+    const cellCount = (Math.floor(maxX / this.cellSize) - Math.floor(minX / this.cellSize) + 1) * (Math.floor(maxY / this.cellSize) - Math.floor(minY / this.cellSize) + 1);
+    if (cellCount > this.entries.length) return this.entries.filter(overlaps).map(e => e.item);
+
+    const found = new Set<Entry<T>>();
+    this.forCells(minX, minY, maxX, maxY, key => this.cells.get(key)?.forEach(e => { if (overlaps(e)) found.add(e); }));
+    return Array.from(found).sort((a, b) => a.order - b.order).map(e => e.item);
+  }
+
+  /** Items whose box contains the point, in insertion order. */
+  at(x: number, y: number): T[] {
+    return this.query(x, y, x, y);
+  }
+
+  private forCells(minX: number, minY: number, maxX: number, maxY: number, fn: (key: string) => void) {
+    for (let cx = Math.floor(minX / this.cellSize); cx <= Math.floor(maxX / this.cellSize); cx++) {
+      for (let cy = Math.floor(minY / this.cellSize); cy <= Math.floor(maxY / this.cellSize); cy++) fn(`${cx},${cy}`);
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import { Note } from '../types';
+
+export const normalizeTag = (tag: string): string =>
+  tag.trim().toLowerCase().replace(/^#/, '').replace(/\s+/g, '-');
+
+const withTags = (note: Note, tags: string[]): Note => ({ ...note, tags, updatedAt: Date.now() });
+
+export const addTag = (note: Note, tag: string): Note => {
+  const t = normalizeTag(tag);
+  if (!t || note.tags.includes(t)) return note;
+  return withTags(note, [...note.tags, t]);
+};
+
+export const removeTag = (note: Note, tag: string): Note =>
+  withTags(note, note.tags.filter(t => t !== tag));
+
+/** Renames within one note; merging into an existing tag drops the duplicate. */
+export const renameTag = (note: Note, from: string, to: string): Note => {
+  const target = normalizeTag(to);
+  if (!target || !note.tags.includes(from)) return note;
+  return withTags(note, Array.from(new Set(note.tags.map(t => t === from ? target : t))));
+};
+
+/** Renames or merges tags across the vault and returns only the notes that changed. */
+export const renameTagInVault = (notes: Note[], from: string[], to: string): Note[] =>
+  notes
+    .filter(n => n.tags.some(t => from.includes(t)))
+    .map(n => from.reduce((acc, f) => renameTag(acc, f, to), n));
+
+export const countTags = (notes: Note[]): [string, number][] => {
+  const counts: Record<string, number> = {};
+  notes.forEach(n => n.tags.forEach(t => counts[t] = (counts[t] || 0) + 1));
+  return Object.entries(counts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+};
+
+export const suggestTags = (note: Note, keywords: string[], limit = 5): string[] =>
+  keywords.map(normalizeTag).filter(k => k.length > 2 && !note.tags.includes(k)).slice(0, limit);
@@ -0,0 +1,118 @@
+import { Asset, TranscriptSegment } from '../types';
+
+// Whisper expects 16 kHz mono.
+const SAMPLE_RATE = 16000;
+
+export interface TranscriptionRequest {
+  id: string;
+  audio: Float32Array;
+}
+
+export type TranscriptionMessage =
+  | { id: string; status: 'loading'; progress: number }
+  | { id: string; status: 'transcribing' }
+  | { id: string; status: 'done'; text: string; segments: TranscriptSegment[] }
+  | { id: string; status: 'error'; message: string };
+
+export interface Transcript {
+  text: string;
+  segments: TranscriptSegment[];
+}
+
+export type TranscriptionStatus = { stage: 'queued' | 'transcribing' } | { stage: 'loading'; progress: number };
+
+interface Pending {
+  resolve: (t: Transcript) => void;
+  reject: (err: Error) => void;
+  onStatus?: (status: TranscriptionStatus) => void;
+}
+
+/** Decodes any audio or video blob the browser can play into 16 kHz mono samples. */
+const decodeAudio = async (blob: Blob): Promise<Float32Array> => {
+  const ctx = new AudioContext({ sampleRate: SAMPLE_RATE });
+  try {
+    const buffer = await ctx.decodeAudioData(await blob.arrayBuffer()).catch(() => {
+      throw new Error('No audio track could be decoded from this file.');
+    });
+    if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+    const mono = new Float32Array(buffer.length);
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+      const data = buffer.getChannelData(c);
+      for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+    }
+    return mono;
+  } finally {
+    ctx.close();
+  }
+};
+
+/**
+ * Offline speech-to-text. The recognizer lives in one long-lived worker so the model loads once per session;
+ * requests queue there and run in order.
+ */
+class Transcriber {
+  private worker: Worker | null = null;
+  private pending = new Map<string, Pending>();
+
+  public canTranscribe(asset: Asset): boolean {
+    return asset.type === 'audio' || asset.type === 'video';
+  }
+
+  public async transcribe(blob: Blob, onStatus?: (status: TranscriptionStatus) => void): Promise<Transcript> {
+    onStatus?.({ stage: 'queued' });
+    const audio = await decodeAudio(blob);
+    if (audio.length === 0) return { text: '', segments: [] };
+    const id = crypto.randomUUID();
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject, onStatus });
+      const request: TranscriptionRequest = { id, audio };
+      this.getWorker().postMessage(request, [audio.buffer]);
+    });
+  }
+
+  private getWorker(): Worker {
+    if (this.worker) return this.worker;
+    const worker = new Worker(new URL('./transcriptionWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<TranscriptionMessage>) => {
+      const msg = e.data;
+      const job = this.pending.get(msg.id);
+      if (!job) return;
+      if (msg.status === 'loading') job.onStatus?.({ stage: 'loading', progress: msg.progress });
+      else if (msg.status === 'transcribing') job.onStatus?.({ stage: 'transcribing' });
+      else {
+        this.pending.delete(msg.id);
+        if (msg.status === 'done') job.resolve({ text: msg.text, segments: msg.segments });
+        else job.reject(new Error(msg.message));
+      }
+    };
+    // A crashed worker fails everything in flight; the next request starts a fresh one.
+    worker.onerror = (e) => {
+      worker.terminate();
+      this.worker = null;
+      this.pending.forEach(job => job.reject(new Error(e.message || 'Transcription worker failed.')));
+      this.pending.clear();
+    };
+    this.worker = worker;
+    return worker;
+  }
+}
+
+export const transcriber = new Transcriber();
+
+export const formatTimestamp = (seconds: number) => {
+  const s = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+/** Transcripts not already pasted into the text, so analysis does not count them twice. */
+export const pendingTranscripts = (assets: Asset[] = [], content: string): string[] =>
+  assets.map(a => a.transcription || '').filter(t => t && !content.includes(t));
+
+/** Puts the transcript on the line after the asset's ref; appends both when the ref is missing. */
+export const insertTranscript = (content: string, asset: Asset): string => {
+  const ref = `[Asset Ref: ${asset.id}]`;
+  const at = content.indexOf(ref);
+  if (at === -1) return `${content}\n${ref}\n${asset.transcription}`;
+  const end = at + ref.length;
+  return `${content.slice(0, end)}\n${asset.transcription}${content.slice(end)}`;
+};
@@ -0,0 +1,61 @@
+import { pipeline, env, AutomaticSpeechRecognitionPipeline, ProgressInfo } from '@huggingface/transformers';
+import { TranscriptionRequest, TranscriptionMessage } from './transcriber';
+
+// Whisper tiny runs in the browser through ONNX. Its weights and the ONNX runtime are served by the app from
+// /models (see scripts/fetch-models.mjs), so transcription never reaches the Hugging Face hub or a CDN.
+const MODEL = 'Xenova/whisper-tiny';
+env.localModelPath = '/models/';
+env.allowLocalModels = true;
+env.allowRemoteModels = false;
+env.backends.onnx.wasm!.wasmPaths = '/models/onnxruntime/';
+
+// pipeline()'s task-keyed return type is too large for the checker to resolve, so it is narrowed to ASR here.
+// The q8 weights are the ones the fetch script puts in place.
+const createRecognizer = pipeline as unknown as (
+  task: 'automatic-speech-recognition', model: string, options: { dtype: 'q8'; progress_callback: (info: ProgressInfo) => void }
+) => Promise<AutomaticSpeechRecognitionPipeline>;
+
+let recognizer: Promise<AutomaticSpeechRecognitionPipeline> | null = null;
+const files = new Map<string, { loaded: number; total: number }>();
+// The request currently being handled; download progress is reported to it, whichever request started the load.
+let activeId = '';
+let queue: Promise<void> = Promise.resolve();
+
+const post = (message: TranscriptionMessage) => (self as unknown as Worker).postMessage(message);
+
+const load = () => {
+  recognizer ??= createRecognizer('automatic-speech-recognition', MODEL, {
+    dtype: 'q8',
+    progress_callback: (info: ProgressInfo) => {
+      if (info.status !== 'progress') return;
+      files.set(info.file, { loaded: info.loaded, total: info.total });
+      const all = Array.from(files.values());
+      post({ id: activeId, status: 'loading', progress: all.reduce((s, f) => s + f.loaded, 0) / Math.max(1, all.reduce((s, f) => s + f.total, 0)) });
+    }
+  });
+  return recognizer;
+};
+
+const handle = async ({ id, audio }: TranscriptionRequest) => {
+  activeId = id;
+  try {
+    const asr = await load();
+    post({ id, status: 'transcribing' });
+    const output = await asr(audio, { return_timestamps: true, chunk_length_s: 30, stride_length_s: 5 });
+    const result = Array.isArray(output) ? output[0] : output;
+    const segments = (result.chunks || [])
+      .map(c => ({ start: c.timestamp[0] ?? 0, end: c.timestamp[1] ?? c.timestamp[0] ?? 0, text: c.text.trim() }))
+      .filter(s => s.text);
+    post({ id, status: 'done', text: result.text.trim(), segments });
+  } catch (err) {
+    recognizer = null;
+    files.clear();
+    post({ id, status: 'error', message: (err as Error).message || 'Transcription failed.' });
+  }
+};
+
+// Requests are chained so they run one at a time in arrival order; handle() never rejects, so one failure
+// does not stall the ones behind it.
+self.onmessage = (e: MessageEvent<TranscriptionRequest>) => {
+  queue = queue.then(() => handle(e.data));
+};
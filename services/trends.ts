@@ -0,0 +1,128 @@
+import { Note, Commit, MLAnalysis } from '../types';
+import { indexCommits, getLineage } from './branching';
+
+export type TrendGranularity = 'day' | 'week' | 'month';
+
+export interface DateRange {
+  from?: number;
+  to?: number;
+}
+
+export interface TrendPoint {
+  timestamp: number;
+  label: string;
+  valence: number;
+  [emotion: string]: number | string;
+}
+
+export interface CalendarDay {
+  day: number; // Local midnight
+  valence: number;
+  commits: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const inRange = (ts: number, { from, to }: DateRange) =>
+  (from === undefined || ts >= from) && (to === undefined || ts <= to);
+
+export const startOfDay = (ts: number): number => {
+  const d = new Date(ts);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+/** Weeks start on Monday. */
+export const bucketStart = (ts: number, granularity: TrendGranularity): number => {
+  const d = new Date(startOfDay(ts));
+  if (granularity === 'week') d.setDate(d.getDate() - (d.getDay() + 6) % 7);
+  if (granularity === 'month') d.setDate(1);
+  return d.getTime();
+};
+
+export const formatBucket = (ts: number, granularity: TrendGranularity): string =>
+  new Date(ts).toLocaleDateString(undefined, granularity === 'month' ? { month: 'short', year: 'numeric' } : { month: 'short', day: 'numeric' });
+
+// Commits analysed before lexical valence existed only carry the three-way label.
+export const valenceOf = (analysis: MLAnalysis): number =>
+  analysis.valence ?? (analysis.sentiment === 'positive' ? 0.5 : analysis.sentiment === 'negative' ? -0.5 : 0);
+
+const analysedCommits = (note: Note, range: DateRange): Commit[] =>
+  Array.from(indexCommits(note).values()).filter(c => c.analysis && inRange(c.timestamp, range));
+
+/** One point per revision on the active branch, emotion impact keyed by label. */
+export const commitSeries = (note: Note, range: DateRange = {}): TrendPoint[] =>
+  getLineage(note, note.branches[note.activeBranch].head)
+    .filter(c => c.analysis && inRange(c.timestamp, range))
+    .map(c => {
+      const point: TrendPoint = { timestamp: c.timestamp, label: new Date(c.timestamp).toLocaleString(), valence: valenceOf(c.analysis!) };
+      c.analysis!.emotions.forEach(e => { point[e.label] = e.impact; });
+      return point;
+    });
+
+/** Emotion impact summed per day/week/month across every commit in the vault; empty buckets are filled with zeros. */
+export const vaultEmotionBuckets = (notes: Note[], granularity: TrendGranularity, range: DateRange = {}): { points: TrendPoint[]; emotions: string[] } => {
+  const buckets = new Map<number, { impact: Record<string, number>; valence: number; count: number }>();
+  const emotions = new Set<string>();
+  notes.forEach(n => analysedCommits(n, range).forEach(c => {
+    const key = bucketStart(c.timestamp, granularity);
+    const bucket = buckets.get(key) || { impact: {}, valence: 0, count: 0 };
+    c.analysis!.emotions.forEach(e => {
+      emotions.add(e.label);
+      bucket.impact[e.label] = (bucket.impact[e.label] || 0) + e.impact;
+    });
+    bucket.valence += valenceOf(c.analysis!);
+    bucket.count++;
+    buckets.set(key, bucket);
+  }));
+  if (buckets.size === 0) return { points: [], emotions: [] };
+
+  const keys = Array.from(buckets.keys()).sort((a, b) => a - b);
+  const points: TrendPoint[] = [];
+  const cursor = new Date(keys[0]);
+  while (cursor.getTime() <= keys[keys.length - 1]) {
+    const ts = cursor.getTime();
+    const bucket = buckets.get(ts);
+    const point: TrendPoint = { timestamp: ts, label: formatBucket(ts, granularity), valence: bucket ? bucket.valence / bucket.count : 0 };
+    emotions.forEach(e => { point[e] = bucket?.impact[e] || 0; });
+    points.push(point);
+    if (granularity === 'day') cursor.setDate(cursor.getDate() + 1);
+    else if (granularity === 'week') cursor.setDate(cursor.getDate() + 7);
+    else cursor.setMonth(cursor.getMonth() + 1);
+  }
+  return { points, emotions: Array.from(emotions) };
+};
+
+/** Mean valence per calendar day, for the heatmap. */
+export const sentimentCalendar = (notes: Note[], range: DateRange = {}): Map<number, CalendarDay> => {
+  const days = new Map<number, CalendarDay>();
+  notes.forEach(n => analysedCommits(n, range).forEach(c => {
+    const day = startOfDay(c.timestamp);
+    const entry = days.get(day) || { day, valence: 0, commits: 0 };
+    entry.valence = (entry.valence * entry.commits + valenceOf(c.analysis!)) / (entry.commits + 1);
+    entry.commits++;
+    days.set(day, entry);
+  }));
+  return days;
+};
+
+/** Monday-aligned weeks of days covering the range, oldest first; used to lay out the heatmap grid. */
+export const calendarWeeks = (from: number, to: number): number[][] => {
+  const weeks: number[][] = [];
+  let day = bucketStart(from, 'week');
+  const last = startOfDay(to);
+  while (day <= last) {
+    const week: number[] = [];
+    for (let i = 0; i < 7; i++) {
+      week.push(day);
+      // Step via Date so DST changes do not drift off midnight.
+      const next = new Date(day);
+      next.setDate(next.getDate() + 1);
+      day = next.getTime();
+    }
+    weeks.push(week);
+  }
+  return weeks;
+};
+
+export const daysAgo = (n: number): number => startOfDay(Date.now() - n * DAY_MS);
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { MLAnalysis } from '../types';
+import { validateNote } from './vaultArchive';
+import { makeCommit, makeNode, makeNote } from '../test/fixtures';
+
+// What an archive holds: the note after a JSON round trip.
+const archived = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+const analysis: MLAnalysis = { emotions: [{ label: 'Love', score: 0.8, impact: 0.7 }], sentiment: 'positive', keywords: ['sun'], modelUsed: 'symbolic', loss: 0.1, confidence: 0.8 };
+
+const good = () => archived(makeNote('n1', {
+  main: [
+    makeCommit('c1', ''),
+    makeCommit('c2', 'Sunny day', { parentId: 'c1', analysis, autoMap: [makeNode('root'), makeNode('p1', { parentId: 'root' })] })
+  ]
+}));
+
+describe('validateNote', () => {
+  it('accepts a well-formed note', () => {
+    expect(validateNote(good())).toBeNull();
+  });
+
+  it('names a bad top-level field', () => {
+    expect(validateNote({ ...good(), updatedAt: 'yesterday' })).toBe('bad or missing updatedAt');
+    expect(validateNote({ ...good(), type: 'sketch' })).toBe('bad or missing type');
+    expect(validateNote({ ...good(), config: { ...good().config, is3D: 'no' } })).toBe('bad or missing config.is3D');
+  });
+
+  it('names the commit and field of a bad commit', () => {
+    const note = good();
+    note.branches.main.commits[1].autoMap[1].x = null;
+    expect(validateNote(note)).toBe('branch "main", commit 2: bad or missing autoMap');
+
+    const other = good();
+    other.branches.main.commits[1].analysis.spans = [{ kind: 'sentence', start: 0 }];
+    expect(validateNote(other)).toBe('branch "main", commit 2: bad or missing analysis.spans');
+
+    const merge = good();
+    merge.branches.main.commits[1].mergeParentId = 7;
+    expect(validateNote(merge)).toBe('branch "main", commit 2: bad or missing mergeParentId');
+  });
+
+  it('rejects a branch whose head is not among its commits', () => {
+    const note = good();
+    note.branches.main.head = 'gone';
+    expect(validateNote(note)).toBe('branch "main" head is missing');
+  });
+});
@@ -0,0 +1,225 @@
+import JSZip from 'jszip';
+import { Note, Asset, VaultManifest, CollisionStrategy } from '../types';
+import { serializeNote, saveNoteToDB, getAssetBlob, saveAssetBlob, hashBlob, collectAssetGarbage } from './db';
+
+export const VAULT_FORMAT = 'memorylane-vault';
+export const VAULT_FORMAT_VERSION = 1;
+
+export interface VaultArchive {
+  manifest: VaultManifest;
+  notes: Note[];
+  zip: JSZip;
+}
+
+export interface VaultRestoreResult {
+  imported: Note[];
+  skipped: string[];
+  missingAssets: string[];
+}
+
+const collectHashes = (notes: Note[]): Set<string> => {
+  const hashes = new Set<string>();
+  notes.forEach(n => Object.values(n.branches).forEach(b =>
+    b.commits.forEach(c => c.assets?.forEach(a => a.hash && hashes.add(a.hash)))
+  ));
+  return hashes;
+};
+
+export const exportVault = async (notes: Note[]): Promise<Blob> => {
+  const zip = new JSZip();
+  const manifest: VaultManifest = {
+    format: VAULT_FORMAT,
+    version: VAULT_FORMAT_VERSION,
+    exportedAt: Date.now(),
+    notes: [],
+    assets: []
+  };
+
+  notes.forEach(note => {
+    const file = `notes/${note.id}.json`;
+    zip.file(file, JSON.stringify(serializeNote(note), null, 2));
+    manifest.notes.push({ id: note.id, title: note.title, file });
+  });
+
+  for (const hash of collectHashes(notes)) {
+    const blob = await getAssetBlob(hash);
+    if (!blob) continue;
+    const file = `assets/${hash}`;
+    zip.file(file, blob);
+    manifest.assets.push({ hash, file, mimeType: blob.type, size: blob.size });
+  }
+
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (v: unknown): v is UnknownRecord => !!v && typeof v === 'object' && !Array.isArray(v);
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isArrayOf = <T>(v: unknown, check: (item: unknown) => item is T): v is T[] => Array.isArray(v) && v.every(check);
+const optional = <T>(v: unknown, check: (item: unknown) => item is T) => v === undefined || check(v);
+
+const isStringArray = (v: unknown): v is string[] => isArrayOf(v, isString);
+
+const isImageAnalysis = (a: unknown): boolean =>
+  isRecord(a) && isString(a.caption) && isNumber(a.analyzedAt)
+  && isArrayOf(a.colors, (c): c is UnknownRecord => isRecord(c) && isString(c.hex) && isNumber(c.share))
+  && isArrayOf(a.faces, (f): f is UnknownRecord =>
+    isRecord(f) && isArrayOf(f.box, isNumber) && f.box.length === 4 && isString(f.expression) && isNumber(f.score))
+  && isArrayOf(a.objects, (o): o is UnknownRecord => isRecord(o) && isString(o.label) && isNumber(o.count) && isNumber(o.score));
+
+const isAsset = (a: unknown): a is Asset =>
+  isRecord(a) && isString(a.id) && isString(a.url) && isString(a.name)
+  && (a.type === 'image' || a.type === 'video' || a.type === 'audio')
+  && optional(a.hash, isString) && optional(a.mimeType, isString) && optional(a.transcription, isString)
+  && (a.segments === undefined || isArrayOf(a.segments, (seg): seg is UnknownRecord =>
+    isRecord(seg) && isNumber(seg.start) && isNumber(seg.end) && isString(seg.text)))
+  && (a.analysis === undefined || isImageAnalysis(a.analysis));
+
+const isNode = (n: unknown): boolean =>
+  isRecord(n) && isString(n.id) && isString(n.label) && isString(n.type) && isString(n.emotion) && isString(n.color)
+  && isNumber(n.x) && isNumber(n.y) && isNumber(n.z) && optional(n.parentId, isString)
+  && (n.manual === undefined || isRecord(n.manual));
+
+const isSpan = (s: unknown): boolean =>
+  isRecord(s) && (s.kind === 'paragraph' || s.kind === 'sentence') && isNumber(s.start) && isNumber(s.end)
+  && isString(s.emotion) && isNumber(s.score) && isString(s.nodeId);
+
+// Each check is named after the field it covers, so a rejection can say what is wrong.
+type FieldChecks = [string, boolean][];
+const firstFailure = (checks: FieldChecks): string | null => checks.find(([, ok]) => !ok)?.[0] ?? null;
+
+const analysisProblem = (a: unknown): string | null => {
+  if (!isRecord(a)) return 'analysis';
+  return firstFailure([
+    ['analysis.emotions', isArrayOf(a.emotions, (e): e is UnknownRecord => isRecord(e) && isString(e.label) && isNumber(e.score) && isNumber(e.impact))],
+    ['analysis.sentiment', isString(a.sentiment)],
+    ['analysis.valence', optional(a.valence, isNumber)],
+    ['analysis.keywords', isStringArray(a.keywords)],
+    ['analysis.modelUsed', isString(a.modelUsed)],
+    ['analysis.loss', isNumber(a.loss)],
+    ['analysis.confidence', isNumber(a.confidence)],
+    ['analysis.userLabels', optional(a.userLabels, isStringArray)],
+    ['analysis.spans', a.spans === undefined || (Array.isArray(a.spans) && a.spans.every(isSpan))],
+    ['analysis.visual', a.visual === undefined || isRecord(a.visual)]
+  ]);
+};
+
+const commitProblem = (c: unknown): string | null => {
+  if (!isRecord(c)) return 'not an object';
+  return firstFailure([
+    ['id', isString(c.id)],
+    ['timestamp', isNumber(c.timestamp)],
+    ['content', isString(c.content)],
+    ['author', isString(c.author)],
+    ['message', isString(c.message)],
+    ['parentId', c.parentId === null || isString(c.parentId)],
+    ['mergeParentId', c.mergeParentId === undefined || c.mergeParentId === null || isString(c.mergeParentId)],
+    ['assets', c.assets === undefined || isArrayOf(c.assets, isAsset)],
+    ['autoMap', c.autoMap === undefined || (Array.isArray(c.autoMap) && c.autoMap.every(isNode))]
+  ]) ?? (c.analysis === undefined ? null : analysisProblem(c.analysis));
+};
+
+/** Structural check of a note read from an archive; returns the offending field when it is unusable. */
+export const validateNote = (n: unknown): string | null => {
+  if (!isRecord(n)) return 'not an object';
+  const config = isRecord(n.config) ? n.config : {};
+  const field = firstFailure([
+    ['id', isString(n.id)],
+    ['title', isString(n.title)],
+    ['type', n.type === 'text' || n.type === 'mindmap'],
+    ['createdAt', isNumber(n.createdAt)],
+    ['updatedAt', isNumber(n.updatedAt)],
+    ['tags', isStringArray(n.tags)],
+    ['clusters', isStringArray(n.clusters)],
+    ['config', isRecord(n.config)],
+    ['config.preferredModel', isString(config.preferredModel)],
+    ['config.recommendedModel', isString(config.recommendedModel)],
+    ['config.is3D', typeof config.is3D === 'boolean'],
+    ['config.layout', config.layout === undefined || config.layout === 'radial' || config.layout === 'tree' || config.layout === 'force'],
+    ['branches', isRecord(n.branches)],
+    ['activeBranch', isString(n.activeBranch) && isRecord(n.branches) && !!n.branches[n.activeBranch]]
+  ]);
+  if (field) return `bad or missing ${field}`;
+  for (const [name, b] of Object.entries(n.branches as UnknownRecord)) {
+    if (!isRecord(b) || !Array.isArray(b.commits) || !isString(b.head)) return `branch "${name}" is malformed`;
+    for (const [i, c] of b.commits.entries()) {
+      const problem = commitProblem(c);
+      if (problem) return `branch "${name}", commit ${i + 1}: bad or missing ${problem}`;
+    }
+    if (!b.commits.some(c => c.id === b.head)) return `branch "${name}" head is missing`;
+  }
+  return null;
+};
+
+const manifestProblem = (m: VaultManifest): string | null => firstFailure([
+  ['exportedAt', isNumber(m.exportedAt)],
+  ['notes', Array.isArray(m.notes) && m.notes.every(e => isRecord(e) && isString(e.id) && isString(e.title) && isString(e.file))],
+  ['assets', Array.isArray(m.assets) && m.assets.every(e =>
+    isRecord(e) && isString(e.hash) && isString(e.file) && isString(e.mimeType) && isNumber(e.size))]
+]);
+
+export const readVaultArchive = async (file: Blob): Promise<VaultArchive> => {
+  const zip = await JSZip.loadAsync(file);
+  const manifestFile = zip.file('manifest.json');
+  if (!manifestFile) throw new Error('Archive has no manifest.json.');
+
+  const manifest = JSON.parse(await manifestFile.async('string')) as VaultManifest;
+  if (manifest.format !== VAULT_FORMAT) throw new Error('Archive is not a MemoryLane vault.');
+  if (typeof manifest.version !== 'number' || manifest.version > VAULT_FORMAT_VERSION) {
+    throw new Error(`Unsupported vault version ${manifest.version}.`);
+  }
+  const manifestField = manifestProblem(manifest);
+  if (manifestField) throw new Error(`Manifest is malformed: bad or missing ${manifestField}.`);
+
+  const notes: Note[] = [];
+  for (const entry of manifest.notes) {
+    const noteFile = zip.file(entry.file);
+    if (!noteFile) throw new Error(`Missing note file ${entry.file}.`);
+    const note: unknown = JSON.parse(await noteFile.async('string'));
+    const problem = validateNote(note);
+    if (problem) throw new Error(`Note "${entry.title}" is invalid: ${problem}.`);
+    notes.push(note as Note);
+  }
+  return { manifest, notes, zip };
+};
+
+// Commit ids are only unique within a note, so a duplicate only needs a fresh note id.
+const duplicateNote = (note: Note): Note => ({
+  ...note, id: crypto.randomUUID(), title: `${note.title} (copy)`, updatedAt: Date.now()
+});
+
+export const restoreVault = async (archive: VaultArchive, existing: Note[], strategy: CollisionStrategy): Promise<VaultRestoreResult> => {
+  const existingIds = new Set(existing.map(n => n.id));
+  const result: VaultRestoreResult = { imported: [], skipped: [], missingAssets: [] };
+
+  // Only blobs the restored streams reference are stored; one whose content does not match its hash is corrupt
+  // or tampered with and is refused.
+  const kept = archive.notes.filter(n => !(strategy === 'skip' && existingIds.has(n.id)));
+  const needed = collectHashes(kept);
+  for (const entry of archive.manifest.assets) {
+    if (!needed.has(entry.hash)) continue;
+    const assetFile = archive.zip.file(entry.file);
+    if (!assetFile) { result.missingAssets.push(entry.hash); continue; }
+    const blob = new Blob([await assetFile.async('arraybuffer')], { type: entry.mimeType });
+    if (await hashBlob(blob) !== entry.hash) { result.missingAssets.push(entry.hash); continue; }
+    await saveAssetBlob(blob);
+  }
+
+  let overwritten = 0;
+  for (const note of archive.notes) {
+    let restored = note;
+    if (existingIds.has(note.id)) {
+      if (strategy === 'skip') { result.skipped.push(note.title); continue; }
+      if (strategy === 'duplicate') restored = duplicateNote(note);
+      else overwritten++;
+    }
+    await saveNoteToDB(restored);
+    result.imported.push(restored);
+  }
+  // Overwritten streams may have been the last to reference some of their old blobs.
+  if (overwritten > 0) await collectAssetGarbage();
+  return result;
+};
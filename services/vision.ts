@@ -0,0 +1,172 @@
+import type { ObjectDetection } from '@tensorflow-models/coco-ssd';
+import { Asset, FaceExpression, ImageAnalysis, VisualSummary } from '../types';
+
+// Weights are served from the app's own public/models (see scripts/fetch-models.mjs); inference runs locally.
+const FACE_MODEL_URL = '/models/face-api/';
+const OBJECT_MODEL_URL = '/models/coco-ssd/model.json';
+
+const MAX_SIDE = 640; // Detectors downscale internally; larger inputs only cost time
+const COLOR_SAMPLE = 48;
+const PALETTE_SIZE = 5;
+const MIN_COLOR_SHARE = 0.04;
+const MIN_OBJECT_SCORE = 0.5;
+const MIN_FACE_SCORE = 0.5;
+
+/** Words that mark an emotion category as matching a facial expression; compared by stem against its keywords. */
+export const EXPRESSION_CUES: Record<Exclude<FaceExpression, 'neutral'>, string[]> = {
+  happy: ['happy', 'joy', 'smile', 'love', 'wonderful', 'delight', 'excited', 'glad'],
+  sad: ['sad', 'cry', 'tears', 'lonely', 'gloomy', 'heavy', 'lost', 'grief'],
+  angry: ['angry', 'anger', 'rage', 'fury', 'mad', 'hate'],
+  fearful: ['fear', 'afraid', 'scared', 'anxious', 'worry', 'panic'],
+  disgusted: ['disgust', 'gross', 'revolt', 'sick'],
+  surprised: ['surprise', 'amazed', 'wonder', 'shock', 'excited']
+};
+
+const EXPRESSION_WORDS: Record<FaceExpression, string> = {
+  neutral: 'calm', happy: 'smiling', sad: 'sad', angry: 'angry', fearful: 'fearful', disgusted: 'disgusted', surprised: 'surprised'
+};
+
+const toHex = (rgb: number[]) => `#${rgb.map(v => Math.round(v).toString(16).padStart(2, '0')).join('')}`;
+
+/** k-means over a small downscale of the image; initial centres are luminance quantiles so runs are repeatable. */
+const dominantColors = (source: HTMLCanvasElement): ImageAnalysis['colors'] => {
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = COLOR_SAMPLE;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(source, 0, 0, COLOR_SAMPLE, COLOR_SAMPLE);
+  const data = ctx.getImageData(0, 0, COLOR_SAMPLE, COLOR_SAMPLE).data;
+  const pixels: number[][] = [];
+  for (let i = 0; i < data.length; i += 4) if (data[i + 3] > 127) pixels.push([data[i], data[i + 1], data[i + 2]]);
+  if (pixels.length === 0) return [];
+
+  const luma = (p: number[]) => 0.299 * p[0] + 0.587 * p[1] + 0.114 * p[2];
+  const sorted = [...pixels].sort((a, b) => luma(a) - luma(b));
+  let centres = Array.from({ length: PALETTE_SIZE }, (_, i) => [...sorted[Math.floor((i + 0.5) * sorted.length / PALETTE_SIZE)]]);
+  const assignment = new Array(pixels.length).fill(0);
+  for (let iter = 0; iter < 10; iter++) {
+    pixels.forEach((p, i) => {
+      let best = 0, bestDist = Infinity;
+      centres.forEach((c, k) => {
+        const d = (p[0] - c[0]) ** 2 + (p[1] - c[1]) ** 2 + (p[2] - c[2]) ** 2;
+        if (d < bestDist) { bestDist = d; best = k; }
+      });
+      assignment[i] = best;
+    });
+    centres = centres.map((c, k) => {
+      const members = pixels.filter((_, i) => assignment[i] === k);
+      return members.length ? [0, 1, 2].map(ch => members.reduce((s, p) => s + p[ch], 0) / members.length) : c;
+    });
+  }
+
+  const counts = new Array(PALETTE_SIZE).fill(0);
+  assignment.forEach(k => counts[k]++);
+  return centres
+    .map((c, k) => ({ hex: toHex(c), share: counts[k] / pixels.length }))
+    .filter(c => c.share >= MIN_COLOR_SHARE)
+    .sort((a, b) => b.share - a.share);
+};
+
+const colorName = (hex: string) => {
+  const [r, g, b] = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16) / 255);
+  const max = Math.max(r, g, b), min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const s = max === min ? 0 : (max - min) / (1 - Math.abs(2 * l - 1));
+  if (l < 0.15) return 'black';
+  if (l > 0.88) return 'white';
+  if (s < 0.15) return 'gray';
+  const h = max === r ? ((g - b) / (max - min) + 6) % 6 * 60 : max === g ? ((b - r) / (max - min) + 2) * 60 : ((r - g) / (max - min) + 4) * 60;
+  const hues: [number, string][] = [[15, 'red'], [40, 'orange'], [65, 'yellow'], [160, 'green'], [190, 'teal'], [250, 'blue'], [290, 'purple'], [345, 'pink'], [360, 'red']];
+  return hues.find(([limit]) => h < limit)![1];
+};
+
+const countable = (label: string, count: number) => {
+  if (count === 1) return `a ${label}`;
+  if (label === 'person') return `${count} people`;
+  return `${count} ${/(s|sh|ch|x)$/.test(label) ? `${label}es` : `${label}s`}`;
+};
+
+const listPhrase = (parts: string[]) => parts.length > 1 ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}` : parts[0] || '';
+
+/** One line built from the detections, e.g. "2 people and a dog, 1 smiling face, in blue and white tones". */
+const describe = (objects: ImageAnalysis['objects'], faces: ImageAnalysis['faces'], colors: ImageAnalysis['colors']) => {
+  const parts: string[] = [listPhrase(objects.slice(0, 4).map(o => countable(o.label, o.count))) || 'A scene'];
+  const byExpression = new Map<FaceExpression, number>();
+  faces.forEach(f => byExpression.set(f.expression, (byExpression.get(f.expression) || 0) + 1));
+  if (byExpression.size) parts.push(listPhrase(Array.from(byExpression, ([e, n]) => `${n} ${EXPRESSION_WORDS[e]} face${n > 1 ? 's' : ''}`)));
+  const tones = Array.from(new Set(colors.slice(0, 3).map(c => colorName(c.hex)))).slice(0, 2);
+  if (tones.length) parts.push(`in ${listPhrase(tones)} tones`);
+  const caption = parts.join(', ');
+  return caption[0].toUpperCase() + caption.slice(1);
+};
+
+/** Object labels, faces with expressions and a color palette for image assets. Models load on first use. */
+class VisionEngine {
+  private detector: Promise<ObjectDetection> | null = null;
+  private faceModels: Promise<typeof import('@vladmandic/face-api')> | null = null;
+
+  public canAnalyze(asset: Asset): boolean {
+    return asset.type === 'image';
+  }
+
+  public async analyze(blob: Blob): Promise<ImageAnalysis> {
+    const bitmap = await createImageBitmap(blob).catch(() => {
+      throw new Error('The image could not be decoded.');
+    });
+    const scale = Math.min(1, MAX_SIDE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    const [objects, faces] = await Promise.all([this.detectObjects(canvas), this.detectFaces(canvas)]);
+    const colors = dominantColors(canvas);
+    return { colors, faces, objects, caption: describe(objects, faces, colors), analyzedAt: Date.now() };
+  }
+
+  private async detectObjects(canvas: HTMLCanvasElement): Promise<ImageAnalysis['objects']> {
+    this.detector ??= import('@tensorflow-models/coco-ssd').then(m => m.load({ base: 'lite_mobilenet_v2', modelUrl: OBJECT_MODEL_URL }));
+    const detections = await this.detector.catch(err => { this.detector = null; throw err; }).then(d => d.detect(canvas, 20, MIN_OBJECT_SCORE));
+    const grouped = new Map<string, { label: string; count: number; score: number }>();
+    detections.forEach(d => {
+      const g = grouped.get(d.class) || { label: d.class, count: 0, score: 0 };
+      grouped.set(d.class, { ...g, count: g.count + 1, score: Math.max(g.score, d.score) });
+    });
+    return Array.from(grouped.values()).sort((a, b) => b.count - a.count || b.score - a.score);
+  }
+
+  private async detectFaces(canvas: HTMLCanvasElement): Promise<ImageAnalysis['faces']> {
+    this.faceModels ??= import('@vladmandic/face-api').then(async faceapi => {
+      await Promise.all([faceapi.nets.tinyFaceDetector.loadFromUri(FACE_MODEL_URL), faceapi.nets.faceExpressionNet.loadFromUri(FACE_MODEL_URL)]);
+      return faceapi;
+    });
+    const faceapi = await this.faceModels.catch(err => { this.faceModels = null; throw err; });
+    const results = await faceapi
+      .detectAllFaces(canvas, new faceapi.TinyFaceDetectorOptions({ inputSize: 416, scoreThreshold: MIN_FACE_SCORE }))
+      .withFaceExpressions();
+    return results.map(r => {
+      const { x, y, width, height } = r.detection.box;
+      const [top] = r.expressions.asSortedArray();
+      return {
+        box: [x / canvas.width, y / canvas.height, width / canvas.width, height / canvas.height] as [number, number, number, number],
+        expression: top.expression as FaceExpression,
+        score: top.probability
+      };
+    });
+  }
+}
+
+export const vision = new VisionEngine();
+
+/** Commit-level roll-up of the analyzed images. */
+export const summarizeImages = (images: ImageAnalysis[]): VisualSummary => {
+  const expressions: VisualSummary['expressions'] = {};
+  images.flatMap(i => i.faces).forEach(f => { expressions[f.expression] = (expressions[f.expression] || 0) + 1; });
+  return {
+    images: images.length,
+    faces: images.reduce((sum, i) => sum + i.faces.length, 0),
+    expressions,
+    objects: Array.from(new Set(images.flatMap(i => i.objects.map(o => o.label)))),
+    palette: Array.from(new Set(images.map(i => i.colors[0]?.hex).filter(Boolean)))
+  };
+};
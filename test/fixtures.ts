@@ -0,0 +1,20 @@
+import { Commit, NodeData, Note } from '../types';
+
+/** Shared builders for test data; every field a test does not care about gets a neutral default. */
+
+export const makeCommit = (id: string, content: string, extra: Partial<Commit> = {}): Commit => ({
+  id, content, timestamp: 0, author: 'User', message: id, parentId: null, ...extra
+});
+
+/** One branch per entry, each headed by its last commit; the first branch is active. */
+export const makeNote = (id: string, branches: Record<string, Commit[]>, extra: Partial<Note> = {}): Note => ({
+  id, title: id, tags: [], clusters: [], createdAt: 0, updatedAt: 0, type: 'text', activeBranch: Object.keys(branches)[0],
+  config: { preferredModel: 'symbolic', recommendedModel: 'symbolic', is3D: false },
+  branches: Object.fromEntries(Object.entries(branches).map(([name, commits]) =>
+    [name, { name, commits, head: commits[commits.length - 1].id }])),
+  ...extra
+});
+
+export const makeNode = (id: string, extra: Partial<NodeData> = {}): NodeData => ({
+  id, label: id, type: 'group', emotion: 'Genesis', color: '#8b5cf6', x: 0, y: 0, z: 0, ...extra
+});
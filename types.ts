@@ -14,14 +14,33 @@ export interface EmotionScore {
   impact: number; // Weighted impact (0-1)
 }
 
+export interface TranscriptSegment {
+  start: number; // Seconds into the media
+  end: number;
+  text: string;
+}
+
+export type FaceExpression = 'neutral' | 'happy' | 'sad' | 'angry' | 'fearful' | 'disgusted' | 'surprised';
+
+export interface ImageAnalysis {
+  colors: { hex: string; share: number }[]; // Dominant colors, largest share first
+  faces: { box: [number, number, number, number]; expression: FaceExpression; score: number }[]; // Box in 0..1 image units
+  objects: { label: string; count: number; score: number }[];
+  caption: string;
+  analyzedAt: number;
+}
+
 export interface Asset {
   id: string;
   type: 'image' | 'video' | 'audio';
-  url: string;
+  url: string; // Runtime object URL; rebuilt from the assets store for hashed assets
   name: string;
+  hash?: string; // SHA-256 of the blob in the assets store
+  mimeType?: string;
   blob?: Blob;
   transcription?: string;
-  analysis?: string; 
+  segments?: TranscriptSegment[]; // Timed lines of the transcription
+  analysis?: ImageAnalysis; // Images only
 }
 
 export interface Commit {
@@ -31,6 +50,7 @@ export interface Commit {
   author: string;
   message: string;
   parentId: string | null;
+  mergeParentId?: string | null; // Second parent, set only on merge commits
   assets?: Asset[];
   analysis?: MLAnalysis;
   autoMap?: NodeData[]; 
@@ -52,6 +72,15 @@ export interface NodeData {
   y: number;
   z: number; 
   parentId?: string;
+  manual?: NodeEdits; // What the user changed by hand; kept when the map is regenerated
+}
+
+export interface NodeEdits {
+  position?: boolean;
+  label?: boolean;
+  parent?: boolean;
+  created?: boolean;
+  deleted?: string[]; // Root only: generated nodes the user deleted, kept out of later maps
 }
 
 export interface Note {
@@ -68,24 +97,200 @@ export interface Note {
     preferredModel: MLModelType;
     recommendedModel: MLModelType;
     is3D: boolean;
+    layout?: MapLayout; // Synapse graph layout; radial when unset
   };
 }
 
+export type MapLayout = 'radial' | 'tree' | 'force';
+
+export type SentimentPolarity = 'positive' | 'negative' | 'neutral';
+
+export interface EmotionCategory {
+  id: string;
+  label: string;
+  color: string;
+  keywords: string[];
+  polarity: SentimentPolarity;
+}
+
+export interface EmotionTaxonomy {
+  categories: EmotionCategory[];
+  retired: EmotionCategory[]; // Removed categories, kept so older commits still render
+}
+
+export interface EmotionSpan {
+  kind: 'paragraph' | 'sentence';
+  start: number; // Character offsets into the commit content, end exclusive
+  end: number;
+  emotion: string;
+  score: number;
+  nodeId: string; // Matching node in the commit's autoMap
+}
+
 export interface MLAnalysis {
   emotions: EmotionScore[];
-  sentiment: 'positive' | 'negative' | 'neutral';
+  sentiment: SentimentPolarity;
+  valence?: number; // -1..1 lexical valence behind `sentiment`
   keywords: string[];
   modelUsed: MLModelType;
   loss: number;
   confidence: number;
+  userLabels?: string[]; // Emotion set confirmed or corrected by the user
+  spans?: EmotionSpan[];
+  visual?: VisualSummary; // Present when the commit has analyzed images
+}
+
+export interface VisualSummary {
+  images: number;
+  faces: number;
+  expressions: Partial<Record<FaceExpression, number>>; // Faces per expression
+  objects: string[];
+  palette: string[];
+}
+
+export type LLMProviderId = 'local' | 'gemini' | 'openai';
+
+export interface LLMSettings {
+  provider: LLMProviderId;
+  gemini: { model: string; apiKey: string };
+  openai: { baseUrl: string; model: string; apiKey: string }; // Any OpenAI-compatible chat completions server
+  consentFor: string | null; // Remote endpoint the user agreed to send note content to
+}
+
+export interface Citation {
+  noteId: string;
+  commitId: string;
+  title: string;
+  snippet: string;
+  timestamp: number;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'bot';
+  text: string;
+  timestamp: number;
+  noteId?: string | null; // Note that was active when the message was sent
+  isInsight?: boolean;
+  citations?: Citation[];
+  savedAs?: { noteId: string; commitId: string }; // Commit a bot answer was saved into
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  noteId: string | null; // null for vault-wide threads
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface HealthCheck {
+  id: 'missing-analysis' | 'broken-asset-refs' | 'missing-blobs' | 'orphan-commits';
+  label: string;
+  issues: number;
+  checked: number;
+  examples: string[]; // A few human-readable offenders
 }
 
 export interface GlobalIntelligence {
-  synapticDensity: number;
-  emotionalEntropy: number;
+  synapticDensity: number; // Mean map nodes per stream head, capped at 1 for 20+ nodes
+  emotionalEntropy: number; // Shannon entropy of head emotion impact, normalised to 0..1
+  entropyBits: number;
   dominantThemes: string[];
-  vaultHealth: number;
+  vaultHealth: number; // Mean pass rate over healthChecks
+  healthChecks: HealthCheck[];
   mostUsedModel: MLModelType;
   totalInferences: number;
+  modelUsage: Record<MLModelType, number>;
   clusters: Record<string, number>;
 }
+
+export interface DiffOp<T> {
+  type: 'equal' | 'insert' | 'delete';
+  value: T;
+}
+
+export type MergeHunk =
+  | { type: 'resolved'; lines: string[] }
+  | { type: 'conflict'; base: string[]; ours: string[]; theirs: string[] };
+
+export interface MergeResult {
+  base: Commit | null;
+  ours: Commit;
+  theirs: Commit;
+  hunks: MergeHunk[];
+  conflicts: number;
+}
+
+export interface LineDiffRow {
+  type: 'equal' | 'insert' | 'delete' | 'modify';
+  before?: string;
+  after?: string;
+  words?: DiffOp<string>[];
+}
+
+export interface AssetDiff {
+  added: Asset[];
+  removed: Asset[];
+  unchanged: Asset[];
+}
+
+export interface StoredAsset {
+  hash: string;
+  blob: Blob;
+  mimeType: string;
+  size: number;
+  createdAt: number;
+}
+
+export type CollisionStrategy = 'skip' | 'overwrite' | 'duplicate';
+
+export interface VaultManifest {
+  format: string;
+  version: number;
+  exportedAt: number;
+  notes: { id: string; title: string; file: string }[];
+  assets: { hash: string; file: string; mimeType: string; size: number }[];
+}
+
+export interface SnippetSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchResult {
+  noteId: string;
+  score: number;
+  snippet: SnippetSegment[];
+}
+
+export interface TrainingExample {
+  text: string;
+  labels: string[];
+}
+
+export interface TrainReport {
+  loss: number;
+  accuracy: number; // On the training examples
+  examples: number;
+  trainedAt: number;
+  heldOut?: { loss: number; accuracy: number; examples: number } | null; // Confirmed examples kept out of training
+}
+
+export interface FeedbackExample extends TrainingExample {
+  id: string; // `${noteId}:${commitId}`
+  noteId: string;
+  commitId: string;
+  heldOut?: boolean; // Fixed at first record; held-out corrections only measure fine-tuning
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface FineTuneReport {
+  model: MLModelType;
+  before: number | null; // Held-out label accuracy of the previous model; null when too little was held out
+  after: number | null;
+  trainSize: number;
+  heldOutSize: number;
+  at: number;
+}